@@ -4,8 +4,56 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { APIConsumerServer } from './server.js';
-import { createRequest, executeRequest } from './tools/http-request.js';
-import { OpenAPIImporter } from './tools/openapi-importer.js';
+import { AnalysisResult, Environment } from './types/index.js';
+import { CodeSmellDetector } from './tools/code-smells.js';
+import {
+  applyCollection,
+  Collection,
+  CollectionStore,
+  requestsInFolder,
+} from './tools/collections.js';
+import { ComplexityAnalyzer } from './tools/complexity.js';
+import { parseCurl, toCurl } from './tools/curl.js';
+import { EnvironmentManager } from './tools/environments.js';
+import {
+  exportHar,
+  fromHistoryEntry,
+  fromWorkflowRun,
+  importHarFile,
+  writeHarFile,
+} from './tools/har.js';
+import { HistoryStore, stripRedacted } from './tools/history.js';
+import {
+  createAuthenticatedRequest,
+  executeRequest,
+  RequestConfig,
+  RequestError,
+  resolveRequestAuth,
+  Response,
+} from './tools/http-request.js';
+import { LoadTester } from './tools/load-tester.js';
+import { MemoryOptimizer } from './tools/memory.js';
+import { MockServerManager } from './tools/mock-server.js';
+import { diffSpecifications } from './tools/openapi-diff.js';
+import { OpenAPIImporter, OpenAPISpecification } from './tools/openapi-importer.js';
+import { OpenAPILinter } from './tools/openapi-linter.js';
+import { PerformanceAnalyzer } from './tools/performance.js';
+import { PostmanImporter } from './tools/postman-importer.js';
+import { RefactoringSuggester } from './tools/refactoring.js';
+import { ResponseValidator } from './tools/response-validator.js';
+import { generateSnippet, generateSnippets } from './tools/snippets.js';
+import { SpecRegistry } from './tools/spec-registry.js';
+import { TestSuiteGenerator } from './tools/test-generator.js';
+import { WorkflowRunner } from './tools/workflow-runner.js';
+
+/** Tool arguments, shaped by each tool's input schema in server.ts */
+type ToolArguments = Record<string, any>;
+
+interface ExecutionResult {
+  response?: Response;
+  error?: RequestError;
+  historyId?: string;
+}
 
 /**
  * Main entry point for the API Consumer MCP server
@@ -13,6 +61,105 @@ import { OpenAPIImporter } from './tools/openapi-importer.js';
 async function main() {
   const apiConsumer = new APIConsumerServer();
   const openApiImporter = new OpenAPIImporter();
+  const openApiLinter = new OpenAPILinter();
+  const specRegistry = new SpecRegistry(openApiImporter);
+  const postmanImporter = new PostmanImporter();
+  const environments = new EnvironmentManager();
+  const history = new HistoryStore(apiConsumer.config.historyDir);
+  const collections = new CollectionStore(apiConsumer.config.collectionsDir);
+  const responseValidator = new ResponseValidator();
+  const mockServers = new MockServerManager();
+  const testSuiteGenerator = new TestSuiteGenerator();
+  const loadTester = new LoadTester();
+  const codeAnalyzers: Record<
+    string,
+    { analyze(filePath: string, options?: ToolArguments): Promise<AnalysisResult> }
+  > = {
+    analyze_code_performance: new PerformanceAnalyzer(),
+    optimize_memory: new MemoryOptimizer(),
+    analyze_complexity: new ComplexityAnalyzer(),
+    detect_code_smells: new CodeSmellDetector(),
+    suggest_refactoring: new RefactoringSuggester(),
+  };
+  const workflowRunner = new WorkflowRunner({
+    maxConcurrentRequests: apiConsumer.config.maxConcurrentRequests,
+    timeout: apiConsumer.config.timeout,
+  });
+
+  /**
+   * Execute a request under an environment (and collection) and record it in the history
+   */
+  const executeAndRecord = async (
+    request: any,
+    environment?: string,
+    collection?: Collection
+  ): Promise<ExecutionResult> => {
+    const environmentName = environment ?? environments.list().active;
+    const requestConfig = collection
+      ? applyCollection(
+          request,
+          collection,
+          environmentName ? environments.get(environmentName) : undefined
+        )
+      : environments.resolve(request, environment);
+    // Requests carrying an AuthConfig have not been through create_request yet
+    const prepared = requestConfig.auth?.type
+      ? await createAuthenticatedRequest(requestConfig)
+      : requestConfig;
+
+    const start = Date.now();
+    let response: Response | undefined;
+    let error: RequestError | undefined;
+    try {
+      response = await executeRequest(prepared, { throwHttpErrors: false });
+    } catch (caught) {
+      if (!(caught instanceof RequestError)) {
+        throw caught;
+      }
+      error = caught;
+    }
+
+    const entry = await history
+      .record({
+        request,
+        environment: environmentName,
+        collection: collection?.name,
+        method: requestConfig.method,
+        url: requestConfig.url,
+        response,
+        error: error && { code: error.code, message: error.message },
+        duration: Date.now() - start,
+      })
+      .catch((recordError) => {
+        console.error('Failed to record request history:', recordError);
+        return undefined;
+      });
+
+    return { response, error, historyId: entry?.id };
+  };
+
+  /**
+   * Look up a registered specification ID, import (and register) a file path or URL,
+   * or take an already imported specification
+   */
+  const loadSpecification = async (
+    source: string | OpenAPISpecification
+  ): Promise<OpenAPISpecification> => {
+    if (typeof source !== 'string') {
+      return source;
+    }
+    return specRegistry.resolve(source);
+  };
+
+  const executionResult = ({ response, error, historyId }: ExecutionResult) => ({
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(error ? { error, historyId } : { ...response, historyId }, null, 2),
+      },
+    ],
+    isError: error !== undefined,
+  });
 
   const server = new Server(
     {
@@ -35,73 +182,641 @@ async function main() {
   // Handle call_tool request
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
+    const input: ToolArguments = args || {};
 
     try {
       switch (name) {
         case 'create_request': {
-          const config = args as any;
-          const requestConfig = createRequest(config);
+          const { environment, curl, ...config } = input;
+          const imported = curl ? parseCurl(curl) : undefined;
+          if (!imported && (!config.method || !config.url)) {
+            throw new Error('Missing required arguments: method and url, or curl');
+          }
+
+          const requestConfig = await createAuthenticatedRequest(
+            environments.resolve({ ...imported?.request, ...config } as RequestConfig, environment)
+          );
           return {
             content: [
               {
                 type: 'text',
                 text: JSON.stringify(requestConfig, null, 2),
               },
+              ...(imported && imported.warnings.length > 0
+                ? [{ type: 'text', text: `Warnings:\n${imported.warnings.join('\n')}` }]
+                : []),
+            ],
+          };
+        }
+
+        case 'to_curl': {
+          const { request, environment } = input;
+          if (!request) {
+            throw new Error('Missing required argument: request');
+          }
+
+          const config = await resolveRequestAuth(environments.resolve(request, environment));
+          return {
+            content: [
+              {
+                type: 'text',
+                text: toCurl(config),
+              },
+            ],
+          };
+        }
+
+        case 'generate_snippet': {
+          const { request, language, environment } = input;
+          if (!request) {
+            throw new Error('Missing required argument: request');
+          }
+
+          const config = await resolveRequestAuth(environments.resolve(request, environment));
+          const text = language
+            ? generateSnippet(config, language)
+            : JSON.stringify(generateSnippets(config), null, 2);
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              },
             ],
           };
         }
 
         case 'execute_request': {
-          const { request: requestConfig } = args as any;
-          if (!requestConfig) {
+          const { request, environment } = input;
+          if (!request) {
             throw new Error('Missing required argument: request');
           }
-          const response = await executeRequest(requestConfig);
+          return executionResult(await executeAndRecord(request, environment));
+        }
+
+        case 'list_history': {
+          const { query, method, status, environment, limit } = input;
+          const entries = await history.list({ query, method, status, environment, limit });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(entries, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'get_history_entry':
+        case 'replay_request': {
+          const { id, environment } = input;
+          if (!id) {
+            throw new Error('Missing required argument: id');
+          }
+
+          const entry = await history.get(id);
+          if (name === 'replay_request') {
+            const collection = entry.collection
+              ? await collections.get(entry.collection)
+              : undefined;
+            const { request, dropped } = stripRedacted(entry.request);
+            const environmentName = environment ?? entry.environment ?? environments.list().active;
+            if (
+              dropped.includes('auth') &&
+              !collection?.auth &&
+              !(environmentName && environments.get(environmentName).auth)
+            ) {
+              throw new Error(
+                `History entry ${id} had its auth redacted; replay it with an environment that supplies auth`
+              );
+            }
+            const result = executionResult(
+              await executeAndRecord(request, environment ?? entry.environment, collection)
+            );
+            const warnings = dropped
+              .filter((item) => item !== 'auth')
+              .map((item) => `Redacted ${item} was not sent`);
+            return warnings.length > 0
+              ? {
+                  ...result,
+                  content: [
+                    ...result.content,
+                    { type: 'text', text: `Warnings:\n${warnings.join('\n')}` },
+                  ],
+                }
+              : result;
+          }
+
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(response, null, 2),
+                text: JSON.stringify(entry, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'clear_history': {
+          const removed = await history.clear();
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ removed }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'create_collection':
+        case 'list_collections':
+        case 'get_collection':
+        case 'update_collection': {
+          const { name: collectionName, description, headers, auth, variables } = input;
+          let result;
+          if (name === 'list_collections') {
+            result = await collections.list();
+          } else if (!collectionName) {
+            throw new Error('Missing required argument: name');
+          } else if (name === 'create_collection') {
+            result = await collections.create(collectionName, {
+              description,
+              headers,
+              auth,
+              variables,
+            });
+          } else if (name === 'update_collection') {
+            result = await collections.updateDefaults(collectionName, {
+              description,
+              headers,
+              auth,
+              variables,
+            });
+          } else {
+            result = await collections.get(collectionName);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'add_to_collection':
+        case 'update_collection_request': {
+          const { collection, request, name: requestName, changes } = input;
+          if (!collection) {
+            throw new Error('Missing required argument: collection');
+          }
+
+          let result;
+          if (name === 'add_to_collection') {
+            if (!request) {
+              throw new Error('Missing required argument: request');
+            }
+            result = await collections.addRequest(collection, request);
+          } else {
+            if (!requestName || !changes) {
+              throw new Error('Missing required argument: name and changes');
+            }
+            result = await collections.updateRequest(collection, requestName, changes);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'run_collection_request': {
+          const { collection: collectionName, name: requestName, environment } = input;
+          if (!collectionName || !requestName) {
+            throw new Error('Missing required argument: collection and name');
+          }
+
+          const collection = await collections.get(collectionName);
+          const request = await collections.getRequest(collectionName, requestName);
+          return executionResult(await executeAndRecord(request, environment, collection));
+        }
+
+        case 'run_collection_folder': {
+          const { collection: collectionName, folder, environment } = input;
+          if (!collectionName) {
+            throw new Error('Missing required argument: collection');
+          }
+
+          const collection = await collections.get(collectionName);
+          const requests = requestsInFolder(collection, folder);
+          if (requests.length === 0) {
+            throw new Error(`No requests in ${collectionName}${folder ? `/${folder}` : ''}`);
+          }
+
+          // Requests in a folder often depend on each other, so they run in order
+          const results = [];
+          for (const request of requests) {
+            const { response, error, historyId } = await executeAndRecord(
+              request,
+              environment,
+              collection
+            );
+            results.push({
+              name: request.name,
+              folder: request.folder,
+              method: request.method,
+              status: response?.status,
+              ok: response?.ok ?? false,
+              duration: response?.metadata?.timing?.total,
+              error: error && { code: error.code, message: error.message },
+              historyId,
+            });
+          }
+
+          const succeeded = results.filter((result) => result.ok).length;
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    collection: collectionName,
+                    folder,
+                    total: results.length,
+                    succeeded,
+                    failed: results.length - succeeded,
+                    results,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+            isError: succeeded < results.length,
+          };
+        }
+
+        case 'define_environment':
+        case 'list_environments':
+        case 'select_environment':
+        case 'delete_environment': {
+          const { name: environmentName, ...environment } = input;
+          let result;
+          if (name === 'define_environment') {
+            result = environments.define({ name: environmentName, ...environment } as Environment);
+          } else if (name === 'select_environment') {
+            result = environments.select(environmentName) ?? { active: null };
+          } else if (name === 'delete_environment') {
+            if (!environmentName) {
+              throw new Error('Missing required argument: name');
+            }
+            result = environments.delete(environmentName);
+          } else {
+            result = environments.list();
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
               },
             ],
           };
         }
 
         case 'import_openapi': {
-          const { source, sourceType } = args as any;
+          const { source, sourceType, dereference, id, includeSpecification } = input;
+          if (!source) {
+            throw new Error('Missing required argument: source');
+          }
+
+          const registered = await specRegistry.import(source, { id, sourceType, dereference });
+          const result = includeSpecification
+            ? { ...registered, specification: specRegistry.get(registered.id) }
+            : registered;
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'list_openapi_specs':
+        case 'remove_openapi_spec': {
+          let result;
+          if (name === 'remove_openapi_spec') {
+            const { id } = input;
+            if (!id) {
+              throw new Error('Missing required argument: id');
+            }
+            result = specRegistry.remove(id);
+          } else {
+            result = specRegistry.list();
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'diff_openapi': {
+          const { before, after } = input;
+          if (!before) {
+            throw new Error('Missing required argument: before');
+          }
+          if (!after) {
+            throw new Error('Missing required argument: after');
+          }
+
+          const diff = diffSpecifications(
+            await loadSpecification(before),
+            await loadSpecification(after)
+          );
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(diff, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'lint_openapi': {
+          const { specification, rules, severity } = input;
+          if (!specification) {
+            throw new Error('Missing required argument: specification');
+          }
+
+          const result = openApiLinter.lint(await loadSpecification(specification), {
+            rules,
+            severity,
+            source: typeof specification === 'string' ? specification : undefined,
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+            isError: result.status === 'error',
+          };
+        }
+
+        case 'import_postman': {
+          const { source, sourceType, save, overwrite } = input;
+          if (!source) {
+            throw new Error('Missing required argument: source');
+          }
+
+          const result =
+            sourceType === 'url'
+              ? await postmanImporter.importFromUrl(source)
+              : await postmanImporter.importFromFile(source);
+          if (save) {
+            await collections.save(result.collection, overwrite);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'import_har': {
+          const { source, includeStatic, urlContains, collection } = input;
           if (!source) {
             throw new Error('Missing required argument: source');
           }
 
-          let spec;
-          if (sourceType === 'url') {
-            spec = await openApiImporter.importFromUrl(source);
+          const result = await importHarFile(source, { includeStatic, urlContains });
+          if (collection) {
+            await collections.save({ name: collection, requests: result.requests });
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'export_har': {
+          const { from, ids, workflowResult, outputPath, ...query } = input;
+
+          let sources;
+          if (from === 'workflow') {
+            if (!workflowResult || !Array.isArray(workflowResult.steps)) {
+              throw new Error('Missing required argument: workflowResult (with steps)');
+            }
+            sources = fromWorkflowRun(workflowResult);
           } else {
-            spec = await openApiImporter.importFromFile(source);
+            const entryIds: string[] = ids ?? (await history.list(query)).map((e) => e.id);
+            sources = [];
+            for (const id of entryIds) {
+              sources.push(fromHistoryEntry(await history.get(id)));
+            }
+          }
+
+          const har = exportHar(sources, apiConsumer.version);
+          if (outputPath) {
+            await writeHarFile(outputPath, har);
           }
 
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(spec, null, 2),
+                text: outputPath
+                  ? JSON.stringify({ path: outputPath, entries: har.log.entries.length }, null, 2)
+                  : JSON.stringify(har, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'validate_response': {
+          const { response, expectedSchema, endpoint, statusCode, headers, components, dialect } =
+            input;
+          if (!response) {
+            throw new Error('Missing required argument: response');
+          }
+          if (!expectedSchema && !endpoint) {
+            throw new Error('Missing required argument: expectedSchema or endpoint');
+          }
+
+          const result = responseValidator.validate(response, {
+            schema: expectedSchema,
+            endpoint,
+            statusCode,
+            headers,
+            components,
+            dialect,
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
               },
             ],
           };
         }
 
-        case 'generate_test_suite':
-        case 'execute_test_workflow':
-        case 'validate_response':
         case 'create_mock_server':
+        case 'list_mock_servers':
+        case 'stop_mock_server': {
+          if (!apiConsumer.config.enableMockServer) {
+            throw new Error('Mock server is disabled (enableMockServer: false)');
+          }
+
+          const { specification, port, responseDelay, id } = input;
+          let result;
+          if (name === 'create_mock_server') {
+            if (!specification) {
+              throw new Error('Missing required argument: specification');
+            }
+            result = await mockServers.start(await loadSpecification(specification), {
+              port,
+              responseDelay,
+            });
+          } else if (name === 'stop_mock_server') {
+            if (!id) {
+              throw new Error('Missing required argument: id');
+            }
+            result = await mockServers.stop(id);
+          } else {
+            result = mockServers.list();
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'generate_test_suite': {
+          const { specification, framework = 'jest', coverage, baseUrl } = input;
+          if (!specification) {
+            throw new Error('Missing required argument: specification');
+          }
+          if (!apiConsumer.config.testFrameworks.includes(framework)) {
+            throw new Error(
+              `Test framework '${framework}' is not enabled (available: ${apiConsumer.config.testFrameworks.join(', ')})`
+            );
+          }
+
+          const suite = testSuiteGenerator.generate(await loadSpecification(specification), {
+            framework,
+            coverage,
+            baseUrl,
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(suite, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'execute_test_workflow': {
+          const { workflow, environment, parallel } = input;
+          if (!workflow || !Array.isArray(workflow.steps)) {
+            throw new Error('Missing required argument: workflow (with steps)');
+          }
+
+          const selected =
+            typeof environment === 'string'
+              ? environments.get(environment)
+              : (environment ?? workflow.environment ?? environments.resolveActive());
+          const result = await workflowRunner.run(
+            { ...workflow, environment: selected },
+            { parallel }
+          );
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
         case 'analyze_performance': {
+          const { endpoint, iterations, concurrency } = input;
+          if (!endpoint) {
+            throw new Error('Missing required argument: endpoint');
+          }
+
+          const report = await loadTester.run(endpoint, { iterations, concurrency });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(report, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'analyze_code_performance':
+        case 'optimize_memory':
+        case 'analyze_complexity':
+        case 'detect_code_smells':
+        case 'suggest_refactoring': {
+          const { path: filePath, ...options } = input;
+          if (!filePath) {
+            throw new Error('Missing required argument: path');
+          }
+
+          const result = await codeAnalyzers[name].analyze(filePath, options);
+
           return {
             content: [
               {
                 type: 'text',
-                text: `Tool '${name}' implementation pending. Arguments received: ${JSON.stringify(args, null, 2)}`,
+                text: JSON.stringify(result, null, 2),
               },
             ],
+            isError: result.status === 'error',
           };
         }
 
@@ -1,3 +1,5 @@
+import * as os from 'os';
+import * as path from 'path';
 import { APIConsumerConfig, ServerInfo, Tool } from './types';
 
 /**
@@ -8,8 +10,18 @@ const DEFAULT_CONFIG: Required<APIConsumerConfig> = {
   maxConcurrentRequests: 10,
   enableMockServer: true,
   testFrameworks: ['jest', 'vitest', 'mocha'],
+  historyDir:
+    process.env.API_CONSUMER_HISTORY_DIR || path.join(os.homedir(), '.api-consumer', 'history'),
+  collectionsDir:
+    process.env.API_CONSUMER_COLLECTIONS_DIR ||
+    path.join(os.homedir(), '.api-consumer', 'collections'),
 };
 
+/**
+ * Tools that are only available when the mock server is enabled
+ */
+const MOCK_SERVER_TOOLS = ['create_mock_server', 'list_mock_servers', 'stop_mock_server'];
+
 /**
  * APIConsumerServer - Main MCP server implementation
  */
@@ -47,7 +59,7 @@ export class APIConsumerServer {
           properties: {
             method: {
               type: 'string',
-              enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'],
+              enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'TRACE'],
               description: 'HTTP method',
             },
             url: { type: 'string', description: 'Request URL' },
@@ -68,13 +80,102 @@ export class APIConsumerServer {
               description: 'Request timeout in milliseconds',
               default: 30000,
             },
+            auth: {
+              type: 'object',
+              description:
+                'Authentication: { type: "bearer" | "basic" | "apiKey" | "oauth2", credentials }',
+              properties: {
+                type: { type: 'string', enum: ['bearer', 'basic', 'apiKey', 'oauth2'] },
+                credentials: {
+                  type: 'object',
+                  description:
+                    'bearer: token; basic: username, password; apiKey: key, name, in (header|query|cookie); oauth2: tokenUrl, clientId, clientSecret, scope, refreshToken or accessToken',
+                  additionalProperties: { type: 'string' },
+                },
+              },
+              required: ['type', 'credentials'],
+            },
+            retry: {
+              type: 'object',
+              description:
+                'Retry policy with exponential backoff; Retry-After is honoured on 429/503. Only idempotent methods are retried unless retryNonIdempotent is set',
+              properties: {
+                maxAttempts: { type: 'number', default: 3 },
+                baseDelay: { type: 'number', default: 200 },
+                maxDelay: { type: 'number', default: 5000 },
+                jitter: { type: 'number', minimum: 0, maximum: 1, default: 0.5 },
+                retryOnStatus: { type: 'array', items: { type: 'number' } },
+                retryOnErrors: { type: 'array', items: { type: 'string' } },
+                retryNonIdempotent: { type: 'boolean', default: false },
+                maxRetryAfter: { type: 'number', default: 60000 },
+              },
+            },
+            insecure: {
+              type: 'boolean',
+              description: 'Skip TLS certificate verification',
+              default: false,
+            },
+            curl: {
+              type: 'string',
+              description:
+                'A curl command line to build the request from (-X, -H, -d, --data-raw, -u, -F, -k, ...); other arguments override what it sets',
+            },
+            environment: {
+              type: 'string',
+              description:
+                'Environment whose variables, baseUrl, headers and auth are applied (defaults to the selected one)',
+            },
           },
-          required: ['method', 'url'],
+        },
+      },
+      {
+        name: 'to_curl',
+        description: 'Render a request configuration as an equivalent curl command',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            request: {
+              type: 'object',
+              description: 'Request configuration (method, url, headers, params, data, auth)',
+            },
+            environment: {
+              type: 'string',
+              description:
+                'Environment whose variables, baseUrl, headers and auth are applied (defaults to the selected one)',
+            },
+          },
+          required: ['request'],
+        },
+      },
+      {
+        name: 'generate_snippet',
+        description:
+          'Render a request as client code (curl, TypeScript fetch or axios, Python requests, Go net/http, Java HttpClient) with the environment and auth applied',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            request: {
+              type: 'object',
+              description: 'Request configuration (method, url, headers, params, data, auth)',
+            },
+            language: {
+              type: 'string',
+              enum: ['curl', 'fetch', 'axios', 'python', 'go', 'java'],
+              description: 'Language to render; every language is rendered when omitted',
+            },
+            environment: {
+              type: 'string',
+              description:
+                'Environment whose variables, baseUrl, headers and auth are applied (defaults to the selected one)',
+            },
+          },
+          required: ['request'],
         },
       },
       {
         name: 'execute_request',
-        description: 'Execute an HTTP request and return the response',
+        description:
+          'Execute an HTTP request and return the response; non-2xx responses are returned with ok: false and transport failures as a classified error code',
         inputSchema: {
           type: 'object',
           properties: {
@@ -82,19 +183,273 @@ export class APIConsumerServer {
               type: 'object',
               description: 'Request configuration (from create_request)',
             },
+            environment: {
+              type: 'string',
+              description: 'Environment to apply (defaults to the selected one)',
+            },
           },
           required: ['request'],
         },
       },
+      {
+        name: 'list_history',
+        description: 'List recorded execute_request calls, newest first',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Case-insensitive text matched against method, URL and status',
+            },
+            method: { type: 'string', description: 'HTTP method' },
+            status: {
+              type: ['number', 'string'],
+              description: 'Exact status (404) or status class (4xx)',
+            },
+            environment: { type: 'string', description: 'Environment name' },
+            limit: { type: 'number', description: 'Maximum entries to return', default: 20 },
+          },
+        },
+      },
+      {
+        name: 'get_history_entry',
+        description: 'Get a recorded request with its response, timing and environment',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'History entry id' },
+          },
+          required: ['id'],
+        },
+      },
+      {
+        name: 'replay_request',
+        description:
+          'Re-send a recorded request, optionally against a different environment; redacted credentials come from the environment',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'History entry id' },
+            environment: {
+              type: 'string',
+              description: 'Environment to replay against (defaults to the original one)',
+            },
+          },
+          required: ['id'],
+        },
+      },
+      {
+        name: 'clear_history',
+        description: 'Delete all recorded requests',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'define_environment',
+        description: 'Create or replace a named environment (e.g. dev, staging, prod)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Environment name' },
+            baseUrl: {
+              type: 'string',
+              description: 'Base URL prefixed to relative request URLs',
+            },
+            headers: {
+              type: 'object',
+              description: 'Default headers',
+              additionalProperties: { type: 'string' },
+            },
+            auth: {
+              type: 'object',
+              description: 'Default authentication ({ type, credentials })',
+            },
+            variables: {
+              type: 'object',
+              description: 'Values for {{variable}} placeholders',
+              additionalProperties: { type: 'string' },
+            },
+          },
+          required: ['name', 'baseUrl'],
+        },
+      },
+      {
+        name: 'list_environments',
+        description: 'List defined environments and the selected one',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'select_environment',
+        description: 'Select the environment applied to requests by default; omit name to clear',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Environment name' },
+          },
+        },
+      },
+      {
+        name: 'delete_environment',
+        description: 'Delete a named environment',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Environment name' },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'create_collection',
+        description: 'Create a named request collection with shared defaults',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Collection name (letters, digits, . - _)' },
+            description: { type: 'string', description: 'Collection description' },
+            headers: {
+              type: 'object',
+              description: 'Default headers for every request',
+              additionalProperties: { type: 'string' },
+            },
+            auth: {
+              type: 'object',
+              description: 'Default auth ({ type, credentials }) for requests without their own',
+            },
+            variables: {
+              type: 'object',
+              description: 'Collection variables; environment variables take precedence',
+              additionalProperties: { type: 'string' },
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'list_collections',
+        description: 'List saved collections with their request counts and folders',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'get_collection',
+        description: 'Get a collection with its defaults and saved requests',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Collection name' },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'update_collection',
+        description: 'Update collection defaults; omitted fields are unchanged',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Collection name' },
+            description: { type: 'string', description: 'Collection description' },
+            headers: {
+              type: 'object',
+              description: 'Default headers for every request',
+              additionalProperties: { type: 'string' },
+            },
+            auth: {
+              type: 'object',
+              description: 'Default auth ({ type, credentials }) for requests without their own',
+            },
+            variables: {
+              type: 'object',
+              description: 'Collection variables; environment variables take precedence',
+              additionalProperties: { type: 'string' },
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'add_to_collection',
+        description: 'Save a named request in a collection, optionally inside a folder',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            collection: { type: 'string', description: 'Collection name' },
+            request: {
+              type: 'object',
+              description:
+                'Request configuration (as for create_request) plus name, optional folder (e.g. "users/admin") and description',
+            },
+          },
+          required: ['collection', 'request'],
+        },
+      },
+      {
+        name: 'update_collection_request',
+        description: 'Update, rename or move a saved request',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            collection: { type: 'string', description: 'Collection name' },
+            name: { type: 'string', description: 'Saved request name' },
+            changes: {
+              type: 'object',
+              description: 'Fields to change, including name and folder',
+            },
+          },
+          required: ['collection', 'name', 'changes'],
+        },
+      },
+      {
+        name: 'run_collection_request',
+        description: 'Execute a saved request with collection defaults and an environment applied',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            collection: { type: 'string', description: 'Collection name' },
+            name: { type: 'string', description: 'Saved request name' },
+            environment: {
+              type: 'string',
+              description: 'Environment to apply (defaults to the selected one)',
+            },
+          },
+          required: ['collection', 'name'],
+        },
+      },
+      {
+        name: 'run_collection_folder',
+        description:
+          'Execute every saved request in a folder (and its subfolders) in order; omit folder to run the whole collection',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            collection: { type: 'string', description: 'Collection name' },
+            folder: { type: 'string', description: 'Folder path' },
+            environment: {
+              type: 'string',
+              description: 'Environment to apply (defaults to the selected one)',
+            },
+          },
+          required: ['collection'],
+        },
+      },
       {
         name: 'import_openapi',
-        description: 'Import and parse OpenAPI/Swagger specification',
+        description:
+          'Import and parse OpenAPI/Swagger specification and register it under an ID that other tools accept as their specification. Registered specs are re-imported when their source (or, for files, a file they reference) changes; documents referenced by URL are not re-fetched',
         inputSchema: {
           type: 'object',
           properties: {
             source: {
               type: 'string',
-              description: 'File path or URL to OpenAPI specification',
+              description: 'File path or URL to OpenAPI 3.x or Swagger 2.0 specification',
             },
             sourceType: {
               type: 'string',
@@ -102,19 +457,211 @@ export class APIConsumerServer {
               description: 'Type of source',
               default: 'file',
             },
+            dereference: {
+              type: 'boolean',
+              description:
+                'Inline every $ref, including component schemas; circular references are kept and listed in circularRefs. By default external references are bundled and only component schema references remain',
+              default: false,
+            },
+            id: {
+              type: 'string',
+              description:
+                'ID to register the specification under (default: spec-<n>, or the ID the same source was imported under)',
+            },
+            includeSpecification: {
+              type: 'boolean',
+              description: 'Return the whole imported specification, not just its registry entry',
+              default: false,
+            },
           },
           required: ['source'],
         },
       },
       {
-        name: 'generate_test_suite',
-        description: 'Generate test cases from OpenAPI specification',
+        name: 'list_openapi_specs',
+        description: 'List imported OpenAPI specifications held in the registry',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'remove_openapi_spec',
+        description: 'Remove an imported OpenAPI specification from the registry',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Spec ID (from import_openapi)',
+            },
+          },
+          required: ['id'],
+        },
+      },
+      {
+        name: 'diff_openapi',
+        description:
+          'Compare two OpenAPI specifications and classify each change as breaking or non-breaking',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            before: {
+              type: ['string', 'object'],
+              description:
+                'Previous version: spec ID from import_openapi, file path, URL or imported specification',
+            },
+            after: {
+              type: ['string', 'object'],
+              description:
+                'New version: spec ID from import_openapi, file path, URL or imported specification',
+            },
+          },
+          required: ['before', 'after'],
+        },
+      },
+      {
+        name: 'lint_openapi',
+        description:
+          'Lint an OpenAPI specification against API design rules (operationIds, error responses, path parameters, unused components, examples, casing, descriptions)',
         inputSchema: {
           type: 'object',
           properties: {
             specification: {
+              type: ['string', 'object'],
+              description: 'Spec ID from import_openapi, file path, URL or imported specification',
+            },
+            rules: {
+              type: 'object',
+              description:
+                'Severity overrides by rule ID (low, medium, high, critical), or "off" to disable a rule, e.g. { "MISSING_EXAMPLE": "off" }',
+              additionalProperties: {
+                type: 'string',
+                enum: ['low', 'medium', 'high', 'critical', 'off'],
+              },
+            },
+            severity: {
+              type: 'string',
+              enum: ['low', 'medium', 'high', 'critical'],
+              description: 'Minimum severity to report',
+            },
+          },
+          required: ['specification'],
+        },
+      },
+      {
+        name: 'import_postman',
+        description:
+          'Import a Postman v2.0/v2.1 collection as a request collection, environment variables and a test workflow, listing anything that could not be translated',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source: {
+              type: 'string',
+              description: 'File path or URL to the Postman collection JSON',
+            },
+            sourceType: {
+              type: 'string',
+              enum: ['file', 'url'],
+              description: 'Type of source',
+              default: 'file',
+            },
+            save: {
+              type: 'boolean',
+              description: 'Save the imported requests as a collection',
+              default: false,
+            },
+            overwrite: {
+              type: 'boolean',
+              description: 'Replace an existing collection with the same name',
+              default: false,
+            },
+          },
+          required: ['source'],
+        },
+      },
+      {
+        name: 'import_har',
+        description:
+          'Import a HAR 1.2 file captured in browser devtools as replayable requests, skipping static resources',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source: {
+              type: 'string',
+              description: 'File path to the HAR file',
+            },
+            includeStatic: {
+              type: 'boolean',
+              description: 'Keep images, stylesheets, scripts, fonts and media',
+              default: false,
+            },
+            urlContains: {
+              type: 'string',
+              description: 'Only import entries whose URL contains this text',
+            },
+            collection: {
+              type: 'string',
+              description: 'Save the imported requests as a new collection with this name',
+            },
+          },
+          required: ['source'],
+        },
+      },
+      {
+        name: 'export_har',
+        description:
+          'Export recorded history entries or a workflow run as a HAR 1.2 document that browser devtools can open',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              enum: ['history', 'workflow'],
+              description: 'Export request history or a workflow run',
+              default: 'history',
+            },
+            ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description:
+                'History entry ids to export (defaults to the entries matching the filters)',
+            },
+            query: {
+              type: 'string',
+              description: 'Case-insensitive text matched against method, URL and status',
+            },
+            method: { type: 'string', description: 'Only entries with this HTTP method' },
+            status: {
+              type: ['number', 'string'],
+              description: 'Exact status (404) or status class (4xx)',
+            },
+            environment: { type: 'string', description: 'Only entries run in this environment' },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of history entries',
+              default: 20,
+            },
+            workflowResult: {
               type: 'object',
-              description: 'Parsed OpenAPI specification',
+              description: 'Result returned by execute_test_workflow',
+            },
+            outputPath: {
+              type: 'string',
+              description: 'Write the HAR to this file instead of returning it',
+            },
+          },
+        },
+      },
+      {
+        name: 'generate_test_suite',
+        description: 'Generate runnable test files from an OpenAPI specification',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            specification: {
+              type: ['string', 'object'],
+              description: 'Spec ID from import_openapi, file path, URL or imported specification',
             },
             framework: {
               type: 'string',
@@ -125,73 +672,92 @@ export class APIConsumerServer {
             coverage: {
               type: 'string',
               enum: ['basic', 'comprehensive', 'exhaustive'],
-              description: 'Test coverage level',
+              description:
+                'Test coverage level: happy paths, plus required-parameter and status-code checks, plus boundary and negative cases',
               default: 'comprehensive',
             },
+            baseUrl: {
+              type: 'string',
+              description: 'Base URL for generated requests (defaults to the first spec server)',
+            },
           },
           required: ['specification'],
         },
       },
       {
         name: 'execute_test_workflow',
-        description: 'Execute a test workflow with orchestration',
+        description: 'Execute a multi-step test workflow, ordering steps by their dependencies',
         inputSchema: {
           type: 'object',
           properties: {
             workflow: {
-              type: 'string',
-              description: 'Workflow ID or name',
-            },
-            endpoints: {
-              type: 'array',
-              description: 'Endpoints to test',
-              items: { type: 'object' },
+              type: 'object',
+              description:
+                'Workflow definition ({ id, name, description, steps }); steps are request, validation, assertion or delay and may reference earlier outputs as {{steps.<id>.<path>}}. Request steps fail outside 2xx unless their config sets expectStatus (e.g. 404, "4xx" or a list) or a validation or assertion step checks them',
             },
             environment: {
-              type: 'object',
-              description: 'Test environment configuration',
+              type: ['string', 'object'],
+              description:
+                'Name of a defined environment, or an inline environment ({ name, baseUrl, headers, variables }), overriding the workflow environment',
             },
             parallel: {
               type: 'boolean',
-              description: 'Run tests in parallel',
+              description: 'Run independent steps concurrently',
               default: false,
             },
           },
-          required: ['workflow', 'endpoints'],
+          required: ['workflow'],
         },
       },
       {
         name: 'validate_response',
-        description: 'Validate API response against expected schema',
+        description:
+          'Validate an API response against a JSON Schema or an imported OpenAPI endpoint',
         inputSchema: {
           type: 'object',
           properties: {
             response: {
               type: 'object',
-              description: 'Actual API response',
+              description: 'Actual API response (from execute_request)',
             },
             expectedSchema: {
               type: 'object',
-              description: 'Expected response schema',
+              description: 'Expected response body schema',
             },
-            assertions: {
-              type: 'array',
-              description: 'Additional assertions to perform',
-              items: { type: 'object' },
+            endpoint: {
+              type: 'object',
+              description: 'Endpoint from import_openapi whose declared responses are used',
+            },
+            statusCode: {
+              type: ['number', 'string'],
+              description: 'Expected status code (e.g. 200, "2XX"); selects the endpoint response',
+            },
+            headers: {
+              type: 'object',
+              description: 'Expected headers keyed by name ({ required, schema })',
+            },
+            components: {
+              type: 'object',
+              description: 'Specification components used to resolve $ref references',
+            },
+            dialect: {
+              type: 'string',
+              description:
+                'JSON Schema dialect URI (jsonSchemaDialect from import_openapi for OpenAPI 3.1 specs). Defaults to the schema $schema, then draft-07 with OpenAPI 3.0 nullable',
             },
           },
-          required: ['response', 'expectedSchema'],
+          required: ['response'],
         },
       },
       {
         name: 'create_mock_server',
-        description: 'Create a mock API server from specification',
+        description: 'Start a local mock API server that serves responses from a specification',
         inputSchema: {
           type: 'object',
           properties: {
             specification: {
-              type: 'object',
-              description: 'OpenAPI specification',
+              type: ['string', 'object'],
+              description: 'Spec ID from import_openapi, file path, URL or imported specification',
             },
             port: {
               type: 'number',
@@ -207,32 +773,137 @@ export class APIConsumerServer {
           required: ['specification'],
         },
       },
+      {
+        name: 'list_mock_servers',
+        description: 'List running mock API servers',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'stop_mock_server',
+        description: 'Stop a running mock API server',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Mock server ID (from create_mock_server)',
+            },
+          },
+          required: ['id'],
+        },
+      },
       {
         name: 'analyze_performance',
-        description: 'Analyze API performance and response times',
+        description:
+          'Load test an API endpoint and report latency percentiles, throughput and error rate',
         inputSchema: {
           type: 'object',
           properties: {
             endpoint: {
               type: 'object',
-              description: 'Endpoint to analyze',
+              description: 'Request configuration to benchmark (from create_request)',
             },
             iterations: {
               type: 'number',
-              description: 'Number of test iterations',
+              description: 'Total number of requests to send (at most 10000)',
               default: 100,
+              maximum: 10000,
             },
             concurrency: {
               type: 'number',
-              description: 'Concurrent requests',
+              description: 'Maximum requests in flight at once (at most 100)',
               default: 10,
+              maximum: 100,
             },
           },
           required: ['endpoint'],
         },
       },
+      {
+        name: 'analyze_code_performance',
+        description: 'Detect performance bottlenecks such as nested loops in a source file',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Path of the JavaScript/TypeScript file' },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'optimize_memory',
+        description: 'Detect memory leaks and inefficient allocations in a source file',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Path of the JavaScript/TypeScript file' },
+            suggestFixes: {
+              type: 'boolean',
+              description: 'Include fix suggestions',
+              default: true,
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'analyze_complexity',
+        description: 'Measure cyclomatic and cognitive complexity of functions in a source file',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Path of the JavaScript/TypeScript file' },
+            maxComplexity: {
+              type: 'number',
+              description: 'Maximum allowed cyclomatic complexity',
+              default: 10,
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'detect_code_smells',
+        description: 'Detect code smells and anti-patterns in a source file',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Path of the JavaScript/TypeScript file' },
+            severity: {
+              type: 'string',
+              enum: ['low', 'medium', 'high', 'critical'],
+              description: 'Minimum severity to report',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'suggest_refactoring',
+        description: 'Suggest refactoring opportunities for a source file or directory',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'File or directory path to analyze' },
+            focusArea: {
+              type: 'string',
+              enum: ['performance', 'maintainability', 'readability', 'all'],
+              description: 'Area to focus suggestions on',
+              default: 'all',
+            },
+          },
+          required: ['path'],
+        },
+      },
     ];
 
+    if (!this.config.enableMockServer) {
+      return tools.filter((tool) => !MOCK_SERVER_TOOLS.includes(tool.name));
+    }
+
     return tools;
   }
 }
@@ -0,0 +1,265 @@
+import { createHash } from 'crypto';
+import axios, { AxiosRequestConfig } from 'axios';
+import { AuthConfig } from '../types';
+
+/**
+ * Custom error types
+ */
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export interface OAuth2Token {
+  readonly accessToken: string;
+  readonly tokenType: string;
+  readonly refreshToken?: string;
+  /** Epoch milliseconds after which the token is considered expired */
+  readonly expiresAt?: number;
+}
+
+/** Refresh tokens this long before they actually expire */
+const EXPIRY_SKEW_MS = 30000;
+
+/** Give up on a token endpoint after this long, so a stuck one does not block requests */
+const TOKEN_TIMEOUT_MS = 30000;
+
+/**
+ * Apply credentials to a request as a header, query parameter or cookie.
+ *
+ * OAuth2 configs are applied from `credentials.accessToken`; use
+ * OAuth2TokenManager to obtain one first.
+ */
+export function applyAuth(config: AxiosRequestConfig, auth: AuthConfig): AxiosRequestConfig {
+  const credentials = auth.credentials || {};
+  const headers: Record<string, any> = { ...(config.headers || {}) };
+
+  switch (auth.type) {
+    case 'bearer': {
+      requireCredentials(auth, ['token']);
+      headers.Authorization = `Bearer ${credentials.token}`;
+      return { ...config, headers };
+    }
+
+    case 'basic': {
+      requireCredentials(auth, ['username']);
+      const encoded = Buffer.from(`${credentials.username}:${credentials.password || ''}`).toString(
+        'base64'
+      );
+      headers.Authorization = `Basic ${encoded}`;
+      return { ...config, headers };
+    }
+
+    case 'apiKey': {
+      const value = credentials.key ?? credentials.value;
+      if (!value) {
+        throw new AuthError("Missing credential for apiKey auth: 'key'");
+      }
+      const name = credentials.name || 'X-API-Key';
+      const location = credentials.in || 'header';
+
+      if (location === 'query') {
+        return { ...config, params: { ...(config.params || {}), [name]: value } };
+      }
+      if (location === 'cookie') {
+        const cookie = `${name}=${encodeURIComponent(value)}`;
+        headers.Cookie = headers.Cookie ? `${headers.Cookie}; ${cookie}` : cookie;
+        return { ...config, headers };
+      }
+      if (location !== 'header') {
+        throw new AuthError(`Unsupported apiKey location: ${location}`);
+      }
+      headers[name] = value;
+      return { ...config, headers };
+    }
+
+    case 'oauth2': {
+      requireCredentials(auth, ['accessToken']);
+      headers.Authorization = `${credentials.tokenType || 'Bearer'} ${credentials.accessToken}`;
+      return { ...config, headers };
+    }
+
+    default:
+      throw new AuthError(`Unsupported auth type: ${(auth as AuthConfig).type}`);
+  }
+}
+
+/**
+ * OAuth2 Token Manager - Fetches client-credentials and refresh-token grants and caches
+ * the tokens until they expire
+ */
+export class OAuth2TokenManager {
+  private readonly cache = new Map<string, OAuth2Token>();
+
+  constructor(private readonly timeout: number = TOKEN_TIMEOUT_MS) {}
+
+  /**
+   * Resolve an AuthConfig into one that carries a usable access token
+   */
+  async resolve(auth: AuthConfig): Promise<AuthConfig> {
+    if (auth.type !== 'oauth2' || (auth.credentials.accessToken && !auth.credentials.tokenUrl)) {
+      return auth;
+    }
+
+    const token = await this.getToken(auth.credentials);
+    return {
+      ...auth,
+      credentials: {
+        ...auth.credentials,
+        accessToken: token.accessToken,
+        tokenType: capitalize(token.tokenType),
+      },
+    };
+  }
+
+  /**
+   * Get a cached token, refreshing or re-requesting it when expired
+   */
+  async getToken(credentials: Record<string, string>): Promise<OAuth2Token> {
+    if (!credentials.tokenUrl) {
+      throw new AuthError("Missing credential for oauth2 auth: 'tokenUrl'");
+    }
+
+    const key = this.cacheKey(credentials);
+    const cached = this.cache.get(key);
+    if (cached && !this.isExpired(cached)) {
+      return cached;
+    }
+
+    let token: OAuth2Token | undefined;
+    if (cached?.refreshToken) {
+      try {
+        token = await this.requestToken(credentials, 'refresh_token', cached.refreshToken);
+      } catch {
+        // Fall back to the configured grant when the refresh token was rejected
+        token = undefined;
+      }
+    }
+
+    if (!token) {
+      const grantType =
+        credentials.grantType ||
+        (credentials.refreshToken ? 'refresh_token' : 'client_credentials');
+      token = await this.requestToken(credentials, grantType, credentials.refreshToken);
+    }
+
+    this.cache.set(key, token);
+    return token;
+  }
+
+  /**
+   * Drop cached tokens
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Request a token from the token endpoint
+   */
+  private async requestToken(
+    credentials: Record<string, string>,
+    grantType: string,
+    refreshToken?: string
+  ): Promise<OAuth2Token> {
+    if (grantType !== 'client_credentials' && grantType !== 'refresh_token') {
+      throw new AuthError(`Unsupported OAuth2 grant type: ${grantType}`);
+    }
+    if (grantType === 'refresh_token' && !refreshToken) {
+      throw new AuthError("Missing credential for oauth2 auth: 'refreshToken'");
+    }
+
+    const body = new URLSearchParams({ grant_type: grantType });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    if (refreshToken && grantType === 'refresh_token') {
+      body.set('refresh_token', refreshToken);
+    }
+    if (credentials.scope) {
+      body.set('scope', credentials.scope);
+    }
+    if (credentials.audience) {
+      body.set('audience', credentials.audience);
+    }
+
+    if (credentials.clientAuth === 'basic') {
+      const encoded = Buffer.from(
+        `${credentials.clientId || ''}:${credentials.clientSecret || ''}`
+      ).toString('base64');
+      headers.Authorization = `Basic ${encoded}`;
+    } else {
+      if (credentials.clientId) {
+        body.set('client_id', credentials.clientId);
+      }
+      if (credentials.clientSecret) {
+        body.set('client_secret', credentials.clientSecret);
+      }
+    }
+
+    let data: any;
+    try {
+      const response = await axios.post(credentials.tokenUrl, body.toString(), {
+        headers,
+        timeout: this.timeout,
+      });
+      data = response.data;
+    } catch (error) {
+      throw new AuthError(
+        `Failed to obtain OAuth2 token from ${credentials.tokenUrl}`,
+        error as Error
+      );
+    }
+
+    if (!data || !data.access_token) {
+      throw new AuthError(`Token endpoint ${credentials.tokenUrl} returned no access_token`);
+    }
+
+    return {
+      accessToken: data.access_token,
+      tokenType: data.token_type || 'Bearer',
+      refreshToken: data.refresh_token || refreshToken,
+      expiresAt: data.expires_in ? Date.now() + Number(data.expires_in) * 1000 : undefined,
+    };
+  }
+
+  private isExpired(token: OAuth2Token): boolean {
+    return token.expiresAt !== undefined && Date.now() >= token.expiresAt - EXPIRY_SKEW_MS;
+  }
+
+  private cacheKey(credentials: Record<string, string>): string {
+    return JSON.stringify([
+      credentials.tokenUrl,
+      credentials.clientId,
+      credentials.scope,
+      credentials.audience,
+      credentials.grantType,
+      credentials.refreshToken,
+      // A changed secret must not reuse tokens issued for the old one
+      credentials.clientSecret &&
+        createHash('sha256').update(credentials.clientSecret).digest('hex'),
+    ]);
+  }
+}
+
+function requireCredentials(auth: AuthConfig, names: string[]): void {
+  for (const name of names) {
+    if (!auth.credentials?.[name]) {
+      throw new AuthError(`Missing credential for ${auth.type} auth: '${name}'`);
+    }
+  }
+}
+
+function capitalize(value: string): string {
+  return value.toLowerCase() === 'bearer' ? 'Bearer' : value;
+}
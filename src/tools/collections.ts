@@ -0,0 +1,321 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AuthConfig, Environment } from '../types';
+import { applyEnvironment } from './environments';
+import { RequestConfig } from './http-request';
+
+/**
+ * Custom error types
+ */
+export class CollectionError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'CollectionError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export interface SavedRequest extends RequestConfig {
+  readonly name: string;
+  /** Slash-separated folder path, e.g. `users/admin` */
+  readonly folder?: string;
+  readonly description?: string;
+}
+
+export interface CollectionDefaults {
+  readonly description?: string;
+  /** Headers sent with every request unless the request overrides them */
+  readonly headers?: Record<string, string>;
+  /** Auth used by requests that do not declare their own */
+  readonly auth?: AuthConfig;
+  /** Variables available to every request; environment variables take precedence */
+  readonly variables?: Record<string, string>;
+}
+
+export interface Collection extends CollectionDefaults {
+  readonly name: string;
+  readonly requests: SavedRequest[];
+}
+
+export interface CollectionSummary {
+  readonly name: string;
+  readonly description?: string;
+  readonly requests: number;
+  readonly folders: string[];
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+
+/**
+ * Collection Store - Persists named request collections as one JSON file each
+ */
+export class CollectionStore {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Create an empty collection
+   */
+  async create(name: string, defaults: CollectionDefaults = {}): Promise<Collection> {
+    this.checkName(name);
+    if (await this.exists(name)) {
+      throw new CollectionError(`Collection already exists: ${name}`);
+    }
+
+    const collection: Collection = {
+      name,
+      description: defaults.description,
+      headers: defaults.headers,
+      auth: defaults.auth,
+      variables: defaults.variables,
+      requests: [],
+    };
+    await this.write(collection);
+    return collection;
+  }
+
+  /**
+   * Save a complete collection, e.g. one produced by an importer
+   */
+  async save(collection: Collection, overwrite = false): Promise<Collection> {
+    this.checkName(collection.name);
+    if (!overwrite && (await this.exists(collection.name))) {
+      throw new CollectionError(`Collection already exists: ${collection.name}`);
+    }
+
+    const saved: Collection = {
+      ...collection,
+      requests: (collection.requests || []).map((request) => normalizeRequest(request)),
+    };
+    const names = new Set(saved.requests.map((request) => request.name));
+    if (names.size !== saved.requests.length) {
+      throw new CollectionError(`Collection ${collection.name} contains duplicate request names`);
+    }
+
+    await this.write(saved);
+    return saved;
+  }
+
+  /**
+   * List collections with their folders
+   */
+  async list(): Promise<CollectionSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const summaries: CollectionSummary[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json')).sort()) {
+      const collection = await this.get(file.slice(0, -'.json'.length)).catch(() => undefined);
+      if (collection) {
+        summaries.push({
+          name: collection.name,
+          description: collection.description,
+          requests: collection.requests.length,
+          folders: listFolders(collection),
+        });
+      }
+    }
+    return summaries;
+  }
+
+  /**
+   * Get a collection by name
+   */
+  async get(name: string): Promise<Collection> {
+    this.checkName(name);
+    let content: string;
+    try {
+      content = await fs.readFile(this.file(name), 'utf-8');
+    } catch (error) {
+      throw new CollectionError(`Collection not found: ${name}`, error as Error);
+    }
+    return JSON.parse(content);
+  }
+
+  /**
+   * Update collection-level defaults; omitted fields are left unchanged
+   */
+  async updateDefaults(name: string, defaults: CollectionDefaults): Promise<Collection> {
+    const collection = await this.get(name);
+    const updated: Collection = {
+      ...collection,
+      ...Object.fromEntries(Object.entries(defaults).filter(([, value]) => value !== undefined)),
+    };
+    await this.write(updated);
+    return updated;
+  }
+
+  /**
+   * Add a request; names are unique within a collection
+   */
+  async addRequest(name: string, request: SavedRequest): Promise<SavedRequest> {
+    const collection = await this.get(name);
+    const saved = normalizeRequest(request);
+    if (collection.requests.some((r) => r.name === saved.name)) {
+      throw new CollectionError(`Request '${saved.name}' already exists in collection ${name}`);
+    }
+
+    await this.write({ ...collection, requests: [...collection.requests, saved] });
+    return saved;
+  }
+
+  /**
+   * Update a saved request; `changes.name` renames it and `changes.folder` moves it
+   */
+  async updateRequest(
+    name: string,
+    requestName: string,
+    changes: Partial<SavedRequest>
+  ): Promise<SavedRequest> {
+    const collection = await this.get(name);
+    const index = collection.requests.findIndex((r) => r.name === requestName);
+    if (index === -1) {
+      throw new CollectionError(`Request '${requestName}' not found in collection ${name}`);
+    }
+
+    const updated = normalizeRequest({ ...collection.requests[index], ...changes });
+    if (updated.name !== requestName && collection.requests.some((r) => r.name === updated.name)) {
+      throw new CollectionError(`Request '${updated.name}' already exists in collection ${name}`);
+    }
+
+    const requests = [...collection.requests];
+    requests[index] = updated;
+    await this.write({ ...collection, requests });
+    return updated;
+  }
+
+  /**
+   * Get a saved request by name
+   */
+  async getRequest(name: string, requestName: string): Promise<SavedRequest> {
+    const collection = await this.get(name);
+    const request = collection.requests.find((r) => r.name === requestName);
+    if (!request) {
+      throw new CollectionError(`Request '${requestName}' not found in collection ${name}`);
+    }
+    return request;
+  }
+
+  private async exists(name: string): Promise<boolean> {
+    return fs.access(this.file(name)).then(
+      () => true,
+      () => false
+    );
+  }
+
+  private async write(collection: Collection): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.file(collection.name), JSON.stringify(collection, null, 2), 'utf-8');
+    } catch (error) {
+      throw new CollectionError(
+        `Failed to write collection ${collection.name} to ${this.directory}`,
+        error as Error
+      );
+    }
+  }
+
+  private checkName(name: string): void {
+    if (!name || !NAME_PATTERN.test(name)) {
+      throw new CollectionError(
+        `Invalid collection name: '${name}' (use letters, digits, '.', '-' and '_')`
+      );
+    }
+  }
+
+  private file(name: string): string {
+    return path.join(this.directory, `${name}.json`);
+  }
+}
+
+/**
+ * Requests in a folder, including its subfolders; every request when no folder is given
+ */
+export function requestsInFolder(collection: Collection, folder?: string): SavedRequest[] {
+  const target = normalizeFolder(folder);
+  if (!target) {
+    return collection.requests;
+  }
+  return collection.requests.filter(
+    (request) => request.folder === target || (request.folder || '').startsWith(`${target}/`)
+  );
+}
+
+/**
+ * Apply collection defaults and then the environment to a saved request.
+ *
+ * Headers are layered environment < collection < request, auth is taken from the
+ * request, then the collection, then the environment, and environment variables
+ * override collection variables.
+ */
+export function applyCollection(
+  request: SavedRequest,
+  collection: Collection,
+  environment?: Environment
+): RequestConfig {
+  const config: RequestConfig = {
+    method: request.method,
+    url: request.url,
+    headers: request.headers,
+    params: request.params,
+    data: request.data,
+    timeout: request.timeout,
+    auth: request.auth,
+    retry: request.retry,
+    insecure: request.insecure,
+  };
+
+  return applyEnvironment<RequestConfig>(
+    { ...config, headers: { ...(collection.headers || {}), ...(config.headers || {}) } },
+    {
+      name: environment?.name ?? collection.name,
+      baseUrl: environment?.baseUrl ?? '',
+      headers: environment?.headers,
+      auth: config.auth ?? collection.auth ?? environment?.auth,
+      variables: { ...(collection.variables || {}), ...(environment?.variables || {}) },
+    }
+  );
+}
+
+function normalizeRequest(request: SavedRequest): SavedRequest {
+  if (!request || !request.name) {
+    throw new CollectionError('Saved requests require a name');
+  }
+  if (!request.method || !request.url) {
+    throw new CollectionError(`Request '${request.name}' requires method and url`);
+  }
+
+  const folder = normalizeFolder(request.folder);
+  const normalized: SavedRequest = {
+    ...request,
+    method: String(request.method).toUpperCase() as SavedRequest['method'],
+    folder,
+  };
+  if (!folder) {
+    delete (normalized as { folder?: string }).folder;
+  }
+  return normalized;
+}
+
+function normalizeFolder(folder?: string): string | undefined {
+  const normalized = (folder || '')
+    .split('/')
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join('/');
+  return normalized || undefined;
+}
+
+function listFolders(collection: Collection): string[] {
+  return Array.from(
+    new Set(collection.requests.map((request) => request.folder).filter(Boolean) as string[])
+  ).sort();
+}
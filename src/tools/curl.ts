@@ -0,0 +1,515 @@
+import { AuthConfig } from '../types';
+import { applyAuth } from './auth';
+import { deleteHeader, headerValue, isPlainObject, setDefaultHeader, withParams } from './helpers';
+import { RequestConfig } from './http-request';
+
+/**
+ * Custom error types
+ */
+export class CurlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CurlError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export interface CurlImportResult {
+  readonly request: RequestConfig;
+  /** Options that were ignored or could not be represented */
+  readonly warnings: string[];
+}
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+/** Options that take a value, by long name; short aliases are mapped below */
+const VALUE_OPTIONS = [
+  'request',
+  'header',
+  'data',
+  'data-raw',
+  'data-ascii',
+  'data-binary',
+  'data-urlencode',
+  'json',
+  'form',
+  'form-string',
+  'user',
+  'user-agent',
+  'referer',
+  'cookie',
+  'url',
+  'max-time',
+  'connect-timeout',
+  'output',
+  'proxy',
+  'cacert',
+  'cert',
+  'key',
+  'retry',
+  'write-out',
+  'cookie-jar',
+  'upload-file',
+  'range',
+  'resolve',
+  'max-redirs',
+  'limit-rate',
+];
+
+const SHORT_OPTIONS: Record<string, string> = {
+  X: 'request',
+  H: 'header',
+  d: 'data',
+  F: 'form',
+  u: 'user',
+  A: 'user-agent',
+  e: 'referer',
+  b: 'cookie',
+  m: 'max-time',
+  o: 'output',
+  x: 'proxy',
+  E: 'cert',
+  w: 'write-out',
+  c: 'cookie-jar',
+  T: 'upload-file',
+  r: 'range',
+  k: 'insecure',
+  G: 'get',
+  I: 'head',
+  L: 'location',
+  s: 'silent',
+  S: 'show-error',
+  v: 'verbose',
+  i: 'include',
+  f: 'fail',
+};
+
+/** Flags that only affect curl's own output or behaviour the HTTP client already has */
+const IGNORED_FLAGS = [
+  'compressed',
+  'location',
+  'silent',
+  'show-error',
+  'verbose',
+  'include',
+  'fail',
+  'output',
+  'write-out',
+  'no-buffer',
+  'http1.1',
+  'http2',
+  'globoff',
+  'connect-timeout',
+  'retry',
+  'max-redirs',
+];
+
+/**
+ * Parse a curl command line into a request configuration.
+ *
+ * Handles POSIX shell quoting (single, double and `$'...'` quotes, backslash
+ * escapes and line continuations). `--compressed` is accepted and ignored
+ * because responses are always decompressed.
+ */
+export function parseCurl(command: string): CurlImportResult {
+  const tokens = tokenize(command);
+  if (tokens[0] !== 'curl') {
+    throw new CurlError('Not a curl command: expected it to start with "curl"');
+  }
+
+  const warnings: string[] = [];
+  const headers: Record<string, string> = {};
+  const data: string[] = [];
+  const form: Record<string, string> = {};
+  let method: string | undefined;
+  let url: string | undefined;
+  let auth: AuthConfig | undefined;
+  let timeout: number | undefined;
+  let insecure = false;
+  let get = false;
+  let head = false;
+  let json = false;
+
+  for (const [option, value] of readOptions(tokens.slice(1))) {
+    switch (option) {
+      case '':
+      case 'url':
+        if (url) {
+          warnings.push(`Ignored additional URL ${value}`);
+        } else {
+          url = value;
+        }
+        break;
+      case 'request':
+        method = value.toUpperCase();
+        break;
+      case 'header': {
+        const index = value.indexOf(':');
+        if (index > 0) {
+          const name = value.slice(0, index).trim();
+          const headerValue = value.slice(index + 1).trim();
+          if (headerValue) {
+            headers[name] = headerValue;
+          } else {
+            delete headers[name];
+          }
+        } else {
+          warnings.push(`Ignored malformed header: ${value}`);
+        }
+        break;
+      }
+      case 'data':
+      case 'data-ascii':
+      case 'data-binary':
+      case 'data-raw':
+      case 'json':
+        if (option !== 'data-raw' && value.startsWith('@')) {
+          warnings.push(`Cannot read request body from file ${value.slice(1)}; body omitted`);
+        } else {
+          data.push(
+            option === 'data' || option === 'data-ascii' ? value.replace(/[\r\n]/g, '') : value
+          );
+        }
+        json = json || option === 'json';
+        break;
+      case 'data-urlencode':
+        data.push(urlencodeData(value));
+        break;
+      case 'form':
+      case 'form-string': {
+        const index = value.indexOf('=');
+        const name = index === -1 ? value : value.slice(0, index);
+        const fieldValue = index === -1 ? '' : value.slice(index + 1);
+        if (option === 'form' && /^[@<]/.test(fieldValue)) {
+          warnings.push(
+            `Cannot attach file ${fieldValue.slice(1)} for form field ${name}; field omitted`
+          );
+        } else {
+          form[name] = fieldValue;
+        }
+        break;
+      }
+      case 'user': {
+        const index = value.indexOf(':');
+        auth = {
+          type: 'basic',
+          credentials: {
+            username: index === -1 ? value : value.slice(0, index),
+            password: index === -1 ? '' : value.slice(index + 1),
+          },
+        };
+        break;
+      }
+      case 'user-agent':
+        headers['User-Agent'] = value;
+        break;
+      case 'referer':
+        headers.Referer = value;
+        break;
+      case 'cookie':
+        if (value.includes('=')) {
+          headers.Cookie = headers.Cookie ? `${headers.Cookie}; ${value}` : value;
+        } else {
+          warnings.push(`Cannot read cookies from file ${value}; cookies omitted`);
+        }
+        break;
+      case 'max-time':
+        timeout = Math.round(Number(value) * 1000) || undefined;
+        break;
+      case 'insecure':
+        insecure = true;
+        break;
+      case 'get':
+        get = true;
+        break;
+      case 'head':
+        head = true;
+        break;
+      default:
+        if (!IGNORED_FLAGS.includes(option)) {
+          warnings.push(`Ignored unsupported option ${option.length === 1 ? '-' : '--'}${option}`);
+        }
+    }
+  }
+
+  if (!url) {
+    throw new CurlError('curl command has no URL');
+  }
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+    url = `http://${url}`;
+  }
+
+  const hasForm = Object.keys(form).length > 0;
+  const body = data.join('&');
+  const resolvedMethod =
+    method ?? (head ? 'HEAD' : (data.length > 0 && !get) || hasForm ? 'POST' : 'GET');
+  if (!METHODS.includes(resolvedMethod)) {
+    throw new CurlError(`Unsupported HTTP method: ${resolvedMethod}`);
+  }
+
+  const request: RequestConfig = {
+    method: resolvedMethod as RequestConfig['method'],
+    url,
+  };
+  if (get && data.length > 0) {
+    request.params = Object.fromEntries(new URLSearchParams(body));
+  } else if (hasForm) {
+    setDefaultHeader(headers, 'Content-Type', 'multipart/form-data');
+    request.data = form;
+  } else if (data.length > 0) {
+    if (json) {
+      setDefaultHeader(headers, 'Content-Type', 'application/json');
+      setDefaultHeader(headers, 'Accept', 'application/json');
+    }
+    setDefaultHeader(headers, 'Content-Type', 'application/x-www-form-urlencoded');
+    request.data = parseBody(body, headerValue(headers, 'content-type'));
+  }
+  if (Object.keys(headers).length > 0) {
+    request.headers = headers;
+  }
+  if (auth) {
+    request.auth = auth;
+  }
+  if (timeout) {
+    request.timeout = timeout;
+  }
+  if (insecure) {
+    request.insecure = true;
+  }
+
+  return { request, warnings };
+}
+
+/**
+ * Render a request configuration as an equivalent curl command.
+ *
+ * Basic auth is rendered as `-u`; other auth types are applied as the headers or
+ * query parameters they produce, so OAuth2 credentials must already hold an
+ * access token.
+ */
+export function toCurl(config: RequestConfig): string {
+  const basic = config.auth?.type === 'basic' ? config.auth.credentials : undefined;
+  const authorized =
+    config.auth && !basic
+      ? applyAuth({ headers: config.headers, params: config.params }, config.auth)
+      : config;
+  const headers: Record<string, string> = {
+    ...((authorized.headers as Record<string, string>) || {}),
+  };
+  const method = String(config.method || 'GET').toUpperCase();
+  const contentType = headerValue(headers, 'content-type') || '';
+  const args: string[] = ['curl'];
+
+  // curl sends GET, or POST once there is a body, unless told otherwise
+  const impliedMethod = hasBody(config.data) ? 'POST' : 'GET';
+  if (method === 'HEAD') {
+    args.push('--head');
+  } else if (method !== impliedMethod) {
+    args.push('-X', method);
+  }
+  args.push(quote(withParams(config.url, authorized.params)));
+
+  const multipart = contentType.startsWith('multipart/form-data') && isPlainObject(config.data);
+  if (multipart) {
+    deleteHeader(headers, 'content-type');
+  } else if (isPlainObject(config.data) || Array.isArray(config.data)) {
+    setDefaultHeader(headers, 'Content-Type', 'application/json');
+  }
+  for (const [name, value] of Object.entries(headers)) {
+    args.push('-H', quote(`${name}: ${value}`));
+  }
+  if (basic) {
+    args.push('-u', quote(`${basic.username}:${basic.password || ''}`));
+  }
+
+  if (multipart) {
+    for (const [name, value] of Object.entries(config.data)) {
+      args.push('--form-string', quote(`${name}=${value}`));
+    }
+  } else if (hasBody(config.data)) {
+    args.push('--data-raw', quote(serializeBody(config.data, contentType)));
+  }
+  if (config.timeout) {
+    args.push('--max-time', String(config.timeout / 1000));
+  }
+  if (config.insecure) {
+    args.push('-k');
+  }
+
+  return args.join(' ');
+}
+
+/**
+ * Split a command line into words the way a POSIX shell would
+ */
+function tokenize(command: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inWord = false;
+  let i = 0;
+
+  const fail = (message: string) => {
+    throw new CurlError(message);
+  };
+
+  while (i < command.length) {
+    const char = command[i];
+
+    if (char === '\\' && (command[i + 1] === '\n' || command.startsWith('\r\n', i + 1))) {
+      i += command[i + 1] === '\n' ? 2 : 3;
+    } else if (/\s/.test(char)) {
+      if (inWord) {
+        tokens.push(current);
+        current = '';
+        inWord = false;
+      }
+      i++;
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) {
+        fail('Unterminated single quote');
+      }
+      current += command.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+    } else if (char === '$' && command[i + 1] === "'") {
+      i += 2;
+      while (i < command.length && command[i] !== "'") {
+        if (command[i] === '\\' && i + 1 < command.length) {
+          current += ANSI_ESCAPES[command[i + 1]] ?? `\\${command[i + 1]}`;
+          i += 2;
+        } else {
+          current += command[i++];
+        }
+      }
+      if (i >= command.length) {
+        fail("Unterminated $' quote");
+      }
+      inWord = true;
+      i++;
+    } else if (char === '"') {
+      i++;
+      while (i < command.length && command[i] !== '"') {
+        if (command[i] === '\\' && '"\\$`\n'.includes(command[i + 1])) {
+          current += command[i + 1] === '\n' ? '' : command[i + 1];
+          i += 2;
+        } else {
+          current += command[i++];
+        }
+      }
+      if (i >= command.length) {
+        fail('Unterminated double quote');
+      }
+      inWord = true;
+      i++;
+    } else if (char === '\\' && i + 1 < command.length) {
+      current += command[i + 1];
+      inWord = true;
+      i += 2;
+    } else {
+      current += char;
+      inWord = true;
+      i++;
+    }
+  }
+  if (inWord) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+const ANSI_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  "'": "'",
+  '"': '"',
+  '\\': '\\',
+};
+
+/**
+ * Pair each option with its value; positional arguments have an empty option name
+ */
+function readOptions(args: string[]): [string, string][] {
+  const options: [string, string][] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = () => {
+      if (i + 1 >= args.length) {
+        throw new CurlError(`Missing value for ${arg}`);
+      }
+      return args[++i];
+    };
+
+    if (arg.startsWith('--') && arg.length > 2) {
+      const [name, inline] = splitOnce(arg.slice(2), '=');
+      options.push([name, VALUE_OPTIONS.includes(name) ? (inline ?? next()) : '']);
+    } else if (arg.startsWith('-') && arg.length > 1) {
+      // Short flags may be combined (-sSL) and the last may take an attached value (-XPOST)
+      for (let j = 1; j < arg.length; j++) {
+        const name = SHORT_OPTIONS[arg[j]] ?? arg[j];
+        if (VALUE_OPTIONS.includes(name)) {
+          options.push([name, j + 1 < arg.length ? arg.slice(j + 1) : next()]);
+          break;
+        }
+        options.push([name, '']);
+      }
+    } else {
+      options.push(['', arg]);
+    }
+  }
+  return options;
+}
+
+function splitOnce(value: string, separator: string): [string, string | undefined] {
+  const index = value.indexOf(separator);
+  return index === -1 ? [value, undefined] : [value.slice(0, index), value.slice(index + 1)];
+}
+
+function urlencodeData(value: string): string {
+  const index = value.indexOf('=');
+  if (index === -1) {
+    return encodeURIComponent(value);
+  }
+  return `${value.slice(0, index)}=${encodeURIComponent(value.slice(index + 1))}`;
+}
+
+function parseBody(body: string, contentType: string | undefined): any {
+  if (contentType && /json/i.test(contentType)) {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+  return body;
+}
+
+function serializeBody(data: any, contentType: string): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (contentType.startsWith('application/x-www-form-urlencoded') && isPlainObject(data)) {
+    return new URLSearchParams(
+      Object.entries(data).map(([key, value]): [string, string] => [key, String(value)])
+    ).toString();
+  }
+  return JSON.stringify(data);
+}
+
+/**
+ * Single-quote a word for POSIX shells unless it is safe as-is
+ */
+function quote(value: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(value)) {
+    return value;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function hasBody(data: any): boolean {
+  return data !== undefined && data !== null && data !== '';
+}
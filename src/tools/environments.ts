@@ -0,0 +1,169 @@
+import { Environment } from '../types';
+import { RequestConfig } from './http-request';
+import { findPlaceholders, interpolate } from './template';
+
+/**
+ * Custom error types
+ */
+export class EnvironmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnvironmentError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export interface EnvironmentList {
+  readonly active?: string;
+  readonly environments: Environment[];
+}
+
+/**
+ * Environment Manager - Keeps named environments and the currently selected one
+ */
+export class EnvironmentManager {
+  private readonly environments = new Map<string, Environment>();
+  private active?: string;
+
+  /**
+   * Create or replace an environment
+   */
+  define(environment: Environment): Environment {
+    if (!environment || !environment.name) {
+      throw new EnvironmentError('Environment name is required');
+    }
+    if (environment.baseUrl === undefined || environment.baseUrl === null) {
+      throw new EnvironmentError('Environment baseUrl is required');
+    }
+
+    const defined: Environment = {
+      name: environment.name,
+      baseUrl: environment.baseUrl,
+      headers: environment.headers,
+      auth: environment.auth,
+      variables: environment.variables,
+    };
+    this.environments.set(defined.name, defined);
+    return defined;
+  }
+
+  /**
+   * List environments and the active selection
+   */
+  list(): EnvironmentList {
+    return { active: this.active, environments: Array.from(this.environments.values()) };
+  }
+
+  /**
+   * Get an environment by name
+   */
+  get(name: string): Environment {
+    const environment = this.environments.get(name);
+    if (!environment) {
+      throw new EnvironmentError(`Environment not found: ${name}`);
+    }
+    return environment;
+  }
+
+  /**
+   * Select the environment applied to requests by default; omit the name to clear it
+   */
+  select(name?: string): Environment | undefined {
+    if (name === undefined) {
+      this.active = undefined;
+      return undefined;
+    }
+    const environment = this.get(name);
+    this.active = name;
+    return environment;
+  }
+
+  /**
+   * Delete an environment, clearing the selection if it was active
+   */
+  delete(name: string): Environment {
+    const environment = this.get(name);
+    this.environments.delete(name);
+    if (this.active === name) {
+      this.active = undefined;
+    }
+    return environment;
+  }
+
+  /**
+   * Get the active environment, if one is selected
+   */
+  resolveActive(): Environment | undefined {
+    return this.active ? this.get(this.active) : undefined;
+  }
+
+  /**
+   * Apply the named environment, or the active one, to a request
+   */
+  resolve<T extends Partial<RequestConfig>>(config: T, name?: string): T {
+    const environment = name !== undefined ? this.get(name) : this.resolveActive();
+    return applyEnvironment(config, environment);
+  }
+}
+
+/**
+ * Resolve `{{variable}}` placeholders, prefix relative URLs with the base URL and
+ * merge environment headers and auth under the request's own
+ */
+export function applyEnvironment<T extends Partial<RequestConfig>>(
+  config: T,
+  environment?: Environment
+): T {
+  if (!environment) {
+    return config;
+  }
+
+  const variables = environment.variables || {};
+  const resolve = (expression: string) => variables[expression];
+
+  const resolved = {
+    ...config,
+    url: interpolate(config.url, resolve),
+    headers: interpolate({ ...(environment.headers || {}), ...(config.headers || {}) }, resolve),
+    params: interpolate(config.params, resolve),
+    data: interpolate(config.data, resolve),
+    auth: interpolate(config.auth ?? environment.auth, resolve),
+  };
+
+  const unresolved = findPlaceholders([
+    resolved.url,
+    resolved.headers,
+    resolved.params,
+    resolved.data,
+    resolved.auth,
+  ]);
+  if (unresolved.length > 0) {
+    throw new EnvironmentError(
+      `Unresolved variables in environment '${environment.name}': ${Array.from(new Set(unresolved)).join(', ')}`
+    );
+  }
+
+  if (resolved.url !== undefined && environment.baseUrl) {
+    resolved.url = joinUrl(interpolate(environment.baseUrl, resolve), resolved.url);
+  }
+  if (resolved.auth === undefined) {
+    delete resolved.auth;
+  }
+
+  return resolved as T;
+}
+
+/**
+ * Prefix a relative URL with a base URL; absolute URLs are returned unchanged
+ */
+export function joinUrl(baseUrl: string, url: string): string {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url) || !baseUrl) {
+    return url;
+  }
+  if (!url) {
+    return baseUrl;
+  }
+  return `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
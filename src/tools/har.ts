@@ -0,0 +1,399 @@
+import * as fs from 'fs/promises';
+import {
+  asArray,
+  asObject,
+  asString,
+  headerValue,
+  isPlainObject,
+  JsonObject,
+  uniqueName,
+  withParams,
+} from './helpers';
+import { HistoryEntry } from './history';
+import { RequestConfig, Response } from './http-request';
+import { WorkflowRunResult } from './workflow-runner';
+
+/**
+ * Custom error types
+ */
+export class HarError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HarError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export interface HarHeader {
+  readonly name: string;
+  readonly value: string;
+}
+
+export interface HarTimings {
+  readonly blocked: number;
+  readonly dns: number;
+  readonly connect: number;
+  readonly ssl: number;
+  readonly send: number;
+  readonly wait: number;
+  readonly receive: number;
+}
+
+export interface HarEntry {
+  readonly startedDateTime: string;
+  readonly time: number;
+  readonly request: {
+    readonly method: string;
+    readonly url: string;
+    readonly httpVersion: string;
+    readonly cookies: unknown[];
+    readonly headers: HarHeader[];
+    readonly queryString: HarHeader[];
+    readonly postData?: { readonly mimeType: string; readonly text: string };
+    readonly headersSize: number;
+    readonly bodySize: number;
+  };
+  readonly response: {
+    readonly status: number;
+    readonly statusText: string;
+    readonly httpVersion: string;
+    readonly cookies: unknown[];
+    readonly headers: HarHeader[];
+    readonly content: { readonly size: number; readonly mimeType: string; readonly text?: string };
+    readonly redirectURL: string;
+    readonly headersSize: number;
+    readonly bodySize: number;
+    /** Transport error for requests that never got a response */
+    readonly _error?: string;
+  };
+  readonly cache: Record<string, never>;
+  readonly timings: HarTimings;
+  readonly serverIPAddress?: string;
+  readonly comment?: string;
+}
+
+export interface HarDocument {
+  readonly log: {
+    readonly version: string;
+    readonly creator: { readonly name: string; readonly version: string };
+    readonly entries: HarEntry[];
+  };
+}
+
+/** A request with its outcome, as recorded by history or a workflow run */
+export interface HarSource {
+  readonly request: Omit<RequestConfig, 'auth'>;
+  readonly response?: Response;
+  readonly error?: string;
+  readonly startedAt: string;
+  readonly duration: number;
+  readonly comment?: string;
+}
+
+export interface HarRequest extends RequestConfig {
+  /** `METHOD path` of the original entry */
+  readonly name: string;
+}
+
+export interface HarImportOptions {
+  /** Keep images, stylesheets, scripts, fonts and media (default false) */
+  readonly includeStatic?: boolean;
+  /** Only keep entries whose URL contains this text */
+  readonly urlContains?: string;
+}
+
+export interface HarImportResult {
+  readonly requests: HarRequest[];
+  readonly skipped: number;
+  readonly warnings: string[];
+}
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+const STATIC_RESOURCE_TYPES = ['image', 'stylesheet', 'script', 'font', 'media', 'manifest'];
+
+const STATIC_MIME_TYPE = /^(image|font|audio|video)\/|^text\/css|javascript/;
+
+/** Headers the HTTP client sets itself or that only make sense on the original connection */
+const DROPPED_HEADERS = ['host', 'content-length', 'connection', 'keep-alive', 'transfer-encoding'];
+
+/**
+ * Convert a HAR 1.2 document into replayable requests
+ */
+export function importHar(document: unknown, options: HarImportOptions = {}): HarImportResult {
+  const entries = asObject(asObject(document).log).entries;
+  if (!Array.isArray(entries)) {
+    throw new HarError('Not a HAR document: missing log.entries');
+  }
+
+  const requests: HarRequest[] = [];
+  const warnings: string[] = [];
+  let skipped = 0;
+
+  for (const entry of entries.map(asObject)) {
+    const request = asObject(entry.request);
+    const method = String(request.method || '').toUpperCase();
+    const url = asString(request.url) || '';
+
+    if (
+      !url ||
+      !/^https?:/i.test(url) ||
+      (options.urlContains && !url.includes(options.urlContains)) ||
+      (!options.includeStatic && isStatic(entry))
+    ) {
+      skipped++;
+      continue;
+    }
+    if (!METHODS.includes(method)) {
+      warnings.push(`Skipped ${method} ${url}: unsupported method`);
+      skipped++;
+      continue;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const header of asArray(request.headers).map(asObject)) {
+      const name = String(header.name || '');
+      if (name && !name.startsWith(':') && !DROPPED_HEADERS.includes(name.toLowerCase())) {
+        headers[name] = String(header.value ?? '');
+      }
+    }
+
+    const data = importPostData(request.postData, method, url, warnings);
+    requests.push({
+      name: uniqueName(`${method} ${pathOf(url)}`, requests),
+      method: method as RequestConfig['method'],
+      url,
+      ...(Object.keys(headers).length > 0 && { headers }),
+      ...(data !== undefined && { data }),
+    });
+  }
+
+  return { requests, skipped, warnings };
+}
+
+/**
+ * Read a HAR file and convert it into replayable requests
+ */
+export async function importHarFile(
+  filePath: string,
+  options: HarImportOptions = {}
+): Promise<HarImportResult> {
+  let document: unknown;
+  try {
+    document = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new HarError(
+      `Failed to read HAR file ${filePath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  return importHar(document, options);
+}
+
+/**
+ * Build a HAR 1.2 document from executed requests
+ */
+export function exportHar(sources: HarSource[], creatorVersion = '0.1.0'): HarDocument {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'api-consumer', version: creatorVersion },
+      entries: sources.map((source) => toHarEntry(source)),
+    },
+  };
+}
+
+/**
+ * Write a HAR document to disk
+ */
+export async function writeHarFile(filePath: string, document: HarDocument): Promise<void> {
+  try {
+    await fs.writeFile(filePath, JSON.stringify(document, null, 2), 'utf-8');
+  } catch (error) {
+    throw new HarError(
+      `Failed to write HAR file ${filePath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * HAR source for a history entry
+ */
+export function fromHistoryEntry(entry: HistoryEntry): HarSource {
+  return {
+    request: {
+      ...(entry.request as RequestConfig),
+      method: entry.method as RequestConfig['method'],
+      url: entry.url,
+    },
+    response: entry.response,
+    error: entry.error?.message,
+    startedAt: entry.timestamp,
+    duration: entry.duration,
+    comment: `history ${entry.id}`,
+  };
+}
+
+/**
+ * HAR sources for the request steps of a workflow run
+ */
+export function fromWorkflowRun(result: WorkflowRunResult): HarSource[] {
+  return result.steps
+    .filter((step) => step.type === 'request' && step.request)
+    .map((step) => ({
+      request: step.request!,
+      response: step.output,
+      error: step.status === 'failed' ? step.error : undefined,
+      startedAt: step.startedAt || new Date().toISOString(),
+      duration: step.duration,
+      comment: `${result.workflowId}/${step.id}`,
+    }));
+}
+
+function toHarEntry(source: HarSource): HarEntry {
+  const { request, response } = source;
+  const url = withParams(request.url, request.params);
+  const requestHeaders = toHarHeaders(request.headers);
+  const requestBody = serializeBody(request.data);
+  const responseBody = serializeBody(response?.data);
+  const timing = response?.metadata?.timing;
+  const transfer = response?.metadata?.transfer;
+
+  return {
+    startedDateTime: source.startedAt,
+    time: timing?.total ?? source.duration,
+    request: {
+      method: request.method,
+      url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: requestHeaders,
+      queryString: queryStringOf(url),
+      ...(requestBody !== undefined && {
+        postData: {
+          mimeType: headerValue(request.headers, 'content-type') || guessMimeType(request.data),
+          text: requestBody,
+        },
+      }),
+      headersSize: -1,
+      bodySize: requestBody !== undefined ? Buffer.byteLength(requestBody) : 0,
+    },
+    response: {
+      status: response?.status ?? 0,
+      statusText: response?.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(response?.headers),
+      content: {
+        size: responseBody !== undefined ? Buffer.byteLength(responseBody) : 0,
+        mimeType: headerValue(response?.headers, 'content-type') || 'x-unknown',
+        ...(responseBody !== undefined && { text: responseBody }),
+      },
+      redirectURL: headerValue(response?.headers, 'location') || '',
+      headersSize: -1,
+      bodySize: responseBody !== undefined ? Buffer.byteLength(responseBody) : 0,
+      ...(source.error && !response && { _error: source.error }),
+    },
+    cache: {},
+    timings: timing
+      ? {
+          blocked: -1,
+          dns: timing.dnsLookup,
+          connect: timing.tcpConnect + timing.tlsHandshake,
+          ssl: timing.tlsHandshake,
+          send: 0,
+          wait: Math.max(
+            0,
+            timing.timeToFirstByte - timing.dnsLookup - timing.tcpConnect - timing.tlsHandshake
+          ),
+          receive: timing.contentTransfer,
+        }
+      : { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: source.duration, receive: 0 },
+    ...(transfer?.remoteAddress && { serverIPAddress: transfer.remoteAddress }),
+    ...(source.comment && { comment: source.comment }),
+  };
+}
+
+function importPostData(
+  postData: unknown,
+  method: string,
+  url: string,
+  warnings: string[]
+): unknown {
+  if (!isPlainObject(postData)) {
+    return undefined;
+  }
+
+  const mimeType = String(postData.mimeType || '');
+  if (typeof postData.text === 'string') {
+    if (mimeType.includes('json')) {
+      try {
+        return JSON.parse(postData.text);
+      } catch {
+        return postData.text;
+      }
+    }
+    return postData.text;
+  }
+
+  if (Array.isArray(postData.params)) {
+    const params = postData.params.map(asObject);
+    if (params.some((param) => param.fileName)) {
+      warnings.push(`${method} ${url} uploads files; file parameters were dropped`);
+    }
+    return Object.fromEntries(
+      params
+        .filter((param) => param.name && !param.fileName)
+        .map((param) => [String(param.name), String(param.value ?? '')])
+    );
+  }
+  return undefined;
+}
+
+function isStatic(entry: JsonObject): boolean {
+  const resourceType = String(entry._resourceType || '').toLowerCase();
+  if (STATIC_RESOURCE_TYPES.includes(resourceType)) {
+    return true;
+  }
+  const content = asObject(asObject(entry.response).content);
+  return STATIC_MIME_TYPE.test(String(content.mimeType || ''));
+}
+
+function queryStringOf(url: string): HarHeader[] {
+  const index = url.indexOf('?');
+  if (index === -1) {
+    return [];
+  }
+  return Array.from(new URLSearchParams(url.slice(index + 1).split('#')[0]), ([name, value]) => ({
+    name,
+    value,
+  }));
+}
+
+function toHarHeaders(headers?: JsonObject): HarHeader[] {
+  return Object.entries(headers || {}).flatMap(([name, value]) =>
+    (Array.isArray(value) ? value : [value])
+      .filter((item) => item !== undefined && item !== null)
+      .map((item) => ({ name, value: String(item) }))
+  );
+}
+
+function serializeBody(data: unknown): string | undefined {
+  if (data === undefined || data === null || data === '') {
+    return undefined;
+  }
+  return typeof data === 'string' ? data : JSON.stringify(data);
+}
+
+function guessMimeType(data: unknown): string {
+  return typeof data === 'string' ? 'text/plain' : 'application/json';
+}
+
+function pathOf(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Small helpers shared by the request, import and export tools
+ */
+
+/** A parsed JSON or YAML object whose shape has not been checked */
+export type JsonObject = Record<string, unknown>;
+
+/**
+ * Whether a value is an object (not null or an array)
+ */
+export function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The value if it is an object, otherwise an empty object
+ */
+export function asObject(value: unknown): JsonObject {
+  return isPlainObject(value) ? value : {};
+}
+
+/**
+ * The value if it is an array, otherwise an empty array
+ */
+export function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * The value if it is a string
+ */
+export function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Read a header case-insensitively; multiple values are joined with `, `
+ */
+export function headerValue(
+  headers: Record<string, unknown> | undefined,
+  name: string
+): string | undefined {
+  const lower = name.toLowerCase();
+  const key = Object.keys(headers || {}).find((header) => header.toLowerCase() === lower);
+  const value = key !== undefined ? headers![key] : undefined;
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Set a header unless it is already present under any casing
+ */
+export function setDefaultHeader(
+  headers: Record<string, string>,
+  name: string,
+  value: string
+): void {
+  if (headerValue(headers, name) === undefined) {
+    headers[name] = value;
+  }
+}
+
+/**
+ * Remove a header under every casing
+ */
+export function deleteHeader(headers: Record<string, unknown>, name: string): void {
+  const lower = name.toLowerCase();
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === lower) {
+      delete headers[key];
+    }
+  }
+}
+
+/**
+ * Append query parameters to a URL, skipping undefined and null values
+ */
+export function withParams(url: string, params?: Record<string, unknown>): string {
+  const entries = Object.entries(params || {}).filter(
+    ([, value]) => value !== undefined && value !== null
+  );
+  if (entries.length === 0) {
+    return url;
+  }
+  const query = entries
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+}
+
+/**
+ * A name not used by any of `items`, numbered `name (2)`, `name (3)`, ... when taken
+ */
+export function uniqueName(name: string, items: readonly { name: string }[]): string {
+  let candidate = name;
+  for (let i = 2; items.some((item) => item.name === candidate); i++) {
+    candidate = `${name} (${i})`;
+  }
+  return candidate;
+}
+
+/**
+ * Lowercase, dash-separated form of a name for file names, or `fallback` when nothing is left
+ */
+export function slugify(value: string, fallback: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || fallback
+  );
+}
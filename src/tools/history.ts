@@ -0,0 +1,373 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { JsonObject } from './helpers';
+import { Response } from './http-request';
+
+/**
+ * Custom error types
+ */
+export class HistoryError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'HistoryError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export interface HistoryEntry {
+  readonly id: string;
+  /** ISO 8601 time the request was sent */
+  readonly timestamp: string;
+  /** Request as given, before the environment was applied */
+  readonly request: Record<string, any>;
+  readonly environment?: string;
+  /** Collection whose defaults were applied, for saved requests */
+  readonly collection?: string;
+  /** URL after the environment was applied */
+  readonly url: string;
+  readonly method: string;
+  readonly response?: Response;
+  readonly error?: { readonly code?: string; readonly message: string };
+  readonly duration: number;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'timestamp'>;
+
+export interface HistorySummary {
+  readonly id: string;
+  readonly timestamp: string;
+  readonly method: string;
+  readonly url: string;
+  readonly environment?: string;
+  readonly status?: number;
+  readonly error?: string;
+  readonly duration: number;
+}
+
+export interface HistoryQuery {
+  /** Case-insensitive substring matched against method, URL and status */
+  readonly query?: string;
+  readonly method?: string;
+  /** Exact status (404) or class (`4xx`) */
+  readonly status?: number | string;
+  readonly environment?: string;
+  readonly limit?: number;
+}
+
+export interface ReplayRequest {
+  readonly request: JsonObject;
+  /** Redacted values left out of the request, e.g. `auth`, `header Authorization`, `query api_key` */
+  readonly dropped: string[];
+}
+
+const REDACTED = '[REDACTED]';
+
+const SENSITIVE_HEADER =
+  /^(authorization|proxy-authorization|cookie|set-cookie)$|token|secret|api-?key/i;
+
+const SENSITIVE_PARAM = /^(key|auth|sig|code)$|token|secret|passw(or)?d|signature|api[-_]?key/i;
+
+const ID_PATTERN = /^[0-9]{8}T[0-9]{9}Z-[0-9a-z]+$/;
+
+/**
+ * History Store - Persists executed requests as one JSON file per entry
+ */
+export class HistoryStore {
+  private sequence = 0;
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxEntries = 500
+  ) {}
+
+  /**
+   * Record an executed request; credentials, sensitive headers and sensitive query
+   * parameters are redacted
+   */
+  async record(entry: NewHistoryEntry): Promise<HistoryEntry> {
+    const now = new Date();
+    const recorded: HistoryEntry = redactEntry({
+      id: this.nextId(now),
+      timestamp: now.toISOString(),
+      ...entry,
+    });
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.file(recorded.id), JSON.stringify(recorded, null, 2), 'utf-8');
+      await this.prune();
+    } catch (error) {
+      throw new HistoryError(`Failed to write history to ${this.directory}`, error as Error);
+    }
+
+    return recorded;
+  }
+
+  /**
+   * List entries, newest first
+   */
+  async list(query: HistoryQuery = {}): Promise<HistorySummary[]> {
+    const limit = query.limit ?? 20;
+    const summaries: HistorySummary[] = [];
+
+    for (const id of await this.ids()) {
+      if (summaries.length >= limit) {
+        break;
+      }
+      const entry = await this.read(id).catch(() => undefined);
+      if (entry && matches(entry, query)) {
+        summaries.push(summarize(entry));
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Get a single entry by id
+   */
+  async get(id: string): Promise<HistoryEntry> {
+    if (!ID_PATTERN.test(id)) {
+      throw new HistoryError(`Invalid history id: ${id}`);
+    }
+    try {
+      return await this.read(id);
+    } catch (error) {
+      throw new HistoryError(`History entry not found: ${id}`, error as Error);
+    }
+  }
+
+  /**
+   * Delete every entry, returning how many were removed
+   */
+  async clear(): Promise<number> {
+    const ids = await this.ids();
+    await Promise.all(ids.map((id) => fs.rm(this.file(id), { force: true })));
+    return ids.length;
+  }
+
+  /**
+   * Entry ids, newest first
+   */
+  private async ids(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length))
+      .filter((id) => ID_PATTERN.test(id))
+      .sort()
+      .reverse();
+  }
+
+  private async read(id: string): Promise<HistoryEntry> {
+    return JSON.parse(await fs.readFile(this.file(id), 'utf-8'));
+  }
+
+  private async prune(): Promise<void> {
+    const ids = await this.ids();
+    await Promise.all(
+      ids.slice(this.maxEntries).map((id) => fs.rm(this.file(id), { force: true }))
+    );
+  }
+
+  private file(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  /**
+   * Sortable id: UTC timestamp to the millisecond plus a per-process sequence
+   */
+  private nextId(date: Date): string {
+    const stamp = date.toISOString().replace(/[-:.]/g, '');
+    this.sequence = (this.sequence + 1) % 36 ** 4;
+    const suffix = this.sequence.toString(36).padStart(4, '0');
+    return `${stamp}-${suffix}${Math.random().toString(36).slice(2, 6)}`;
+  }
+}
+
+/**
+ * Drop redacted values so a replayed request does not send placeholders, and report them
+ */
+export function stripRedacted(request: Record<string, any>): ReplayRequest {
+  const stripped = { ...request };
+  const dropped: string[] = [];
+  if (stripped.headers) {
+    stripped.headers = Object.fromEntries(
+      Object.entries(stripped.headers).filter(([name, value]) => {
+        if (value === REDACTED) {
+          dropped.push(`header ${name}`);
+        }
+        return value !== REDACTED;
+      })
+    );
+  }
+  if (stripped.params) {
+    stripped.params = Object.fromEntries(
+      Object.entries(stripped.params).filter(([name, value]) => {
+        if (value === REDACTED) {
+          dropped.push(`query ${name}`);
+        }
+        return value !== REDACTED;
+      })
+    );
+  }
+  if (typeof stripped.url === 'string') {
+    stripped.url = mapQuery(stripped.url, (pair, name, value) => {
+      if (value === REDACTED) {
+        dropped.push(`query ${name}`);
+        return undefined;
+      }
+      return pair;
+    });
+  }
+  if (stripped.auth && Object.values(stripped.auth.credentials || {}).includes(REDACTED)) {
+    delete stripped.auth;
+    dropped.push('auth');
+  }
+  return { request: stripped, dropped };
+}
+
+function redactEntry(entry: HistoryEntry): HistoryEntry {
+  const request: Record<string, any> = {
+    ...entry.request,
+    url: redactUrl(entry.request.url),
+    headers: redactHeaders(entry.request.headers),
+    params: redactParams(entry.request.params),
+  };
+  for (const key of ['url', 'headers', 'params']) {
+    if (request[key] === undefined) {
+      delete request[key];
+    }
+  }
+  if (request.auth?.credentials) {
+    request.auth = {
+      ...request.auth,
+      credentials: Object.fromEntries(
+        Object.keys(request.auth.credentials).map((key) => [key, REDACTED])
+      ),
+    };
+  }
+
+  return {
+    ...entry,
+    request,
+    url: redactUrl(entry.url),
+    response: entry.response && {
+      ...entry.response,
+      headers: redactHeaders(entry.response.headers) || {},
+    },
+  };
+}
+
+function redactHeaders(headers: Record<string, any> | undefined): Record<string, any> | undefined {
+  if (!headers) {
+    return headers;
+  }
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      SENSITIVE_HEADER.test(name) ? REDACTED : value,
+    ])
+  );
+}
+
+function redactParams(params: JsonObject | undefined): JsonObject | undefined {
+  if (!params) {
+    return params;
+  }
+  return Object.fromEntries(
+    Object.entries(params).map(([name, value]) => [
+      name,
+      SENSITIVE_PARAM.test(name) ? REDACTED : value,
+    ])
+  );
+}
+
+function redactUrl<T>(url: T): T {
+  if (typeof url !== 'string') {
+    return url;
+  }
+  return mapQuery(url, (pair, name) =>
+    SENSITIVE_PARAM.test(name) ? `${pair.split('=')[0]}=${REDACTED}` : pair
+  ) as T;
+}
+
+/**
+ * Rewrite each `name=value` pair of a URL's query string; pairs mapped to undefined are removed
+ */
+function mapQuery(
+  url: string,
+  fn: (pair: string, name: string, value: string) => string | undefined
+): string {
+  const match = /^([^?#]*)\?([^#]*)(#.*)?$/.exec(url);
+  if (!match) {
+    return url;
+  }
+  const query = match[2]
+    .split('&')
+    .filter((pair) => pair !== '')
+    .map((pair) => {
+      const [name, value = ''] = pair.split('=');
+      return fn(pair, decodeQueryComponent(name), value);
+    })
+    .filter((pair) => pair !== undefined)
+    .join('&');
+  return `${match[1]}${query ? `?${query}` : ''}${match[3] ?? ''}`;
+}
+
+function decodeQueryComponent(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+function matches(entry: HistoryEntry, query: HistoryQuery): boolean {
+  const status = entry.response?.status;
+
+  if (query.method && entry.method.toUpperCase() !== query.method.toUpperCase()) {
+    return false;
+  }
+  if (query.environment && entry.environment !== query.environment) {
+    return false;
+  }
+  if (query.status !== undefined) {
+    const expected = String(query.status).toLowerCase();
+    const actual = status === undefined ? '' : String(status);
+    const matchesClass = /^[1-5]xx$/.test(expected) && actual.startsWith(expected[0]);
+    if (actual !== expected && !matchesClass) {
+      return false;
+    }
+  }
+  if (query.query) {
+    const haystack = `${entry.method} ${entry.url} ${status ?? ''}`.toLowerCase();
+    if (!haystack.includes(query.query.toLowerCase())) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function summarize(entry: HistoryEntry): HistorySummary {
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    method: entry.method,
+    url: entry.url,
+    environment: entry.environment,
+    status: entry.response?.status,
+    error: entry.error?.message,
+    duration: entry.duration,
+  };
+}
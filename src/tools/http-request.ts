@@ -1,15 +1,72 @@
-import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import * as https from 'https';
+import { AuthConfig } from '../types';
+import { applyAuth, OAuth2TokenManager } from './auth';
+import { asObject, JsonObject } from './helpers';
+import { computeRetryDelay, isRetryable, RetryAttempt, RetryPolicy } from './retry';
+import { RequestTimer, ResponseTiming, TransferInfo } from './timing';
+
+/**
+ * Custom error types
+ */
+export type TransportErrorCode =
+  | 'DNS_LOOKUP_FAILED'
+  | 'CONNECTION_REFUSED'
+  | 'CONNECTION_RESET'
+  | 'HOST_UNREACHABLE'
+  | 'TIMEOUT'
+  | 'TLS_ERROR'
+  | 'ABORTED'
+  | 'INVALID_REQUEST'
+  | 'NETWORK_ERROR';
+
+export class RequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: TransportErrorCode,
+    public readonly cause?: Error,
+    public readonly attempts: RetryAttempt[] = []
+  ) {
+    super(message);
+    this.name = 'RequestError';
+  }
+
+  /**
+   * Plain representation for tool output
+   */
+  toJSON(): JsonObject {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      systemCode: (this.cause as NodeJS.ErrnoException | undefined)?.code,
+      attempts: this.attempts,
+    };
+  }
+}
 
 /**
  * Request configuration interface
  */
 export interface RequestConfig {
-  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS' | 'TRACE';
   url: string;
   headers?: Record<string, string>;
   params?: Record<string, any>;
   data?: any;
   timeout?: number;
+  auth?: AuthConfig;
+  retry?: RetryPolicy;
+  /** Skip TLS certificate verification */
+  insecure?: boolean;
+}
+
+/**
+ * Axios request configuration carrying an optional retry policy
+ */
+export interface PreparedRequest extends AxiosRequestConfig {
+  retry?: RetryPolicy;
+  insecure?: boolean;
 }
 
 /**
@@ -17,16 +74,41 @@ export interface RequestConfig {
  */
 export interface Response {
   data: any;
+  /** True for 2xx statuses */
+  ok: boolean;
   status: number;
   statusText: string;
   headers: Record<string, any>;
+  metadata?: ResponseMetadata;
 }
 
+/**
+ * Response metadata interface
+ */
+export interface ResponseMetadata {
+  attempts: RetryAttempt[];
+  /** Phase durations of the final attempt in milliseconds */
+  timing?: ResponseTiming;
+  transfer?: TransferInfo;
+}
+
+/**
+ * Execution options interface
+ */
+export interface ExecuteOptions {
+  /** Reject non-2xx responses like axios does (default true); when false they are returned with `ok: false` */
+  throwHttpErrors?: boolean;
+  /** Record DNS, connect, TLS and transfer timings (default true); uses a fresh connection per attempt */
+  measureTiming?: boolean;
+}
+
+const defaultTokenManager = new OAuth2TokenManager();
+
 /**
  * Create a request configuration object
  */
-export function createRequest(config: RequestConfig): AxiosRequestConfig {
-  return {
+export function createRequest(config: RequestConfig): PreparedRequest {
+  const request: PreparedRequest = {
     method: config.method,
     url: config.url,
     headers: config.headers,
@@ -34,18 +116,160 @@ export function createRequest(config: RequestConfig): AxiosRequestConfig {
     data: config.data,
     timeout: config.timeout || 30000,
   };
+  if (config.retry) {
+    request.retry = config.retry;
+  }
+  if (config.insecure) {
+    request.insecure = true;
+  }
+
+  return config.auth ? applyAuth(request, config.auth) : request;
 }
 
 /**
- * Execute an HTTP request
+ * Create a request configuration, fetching an OAuth2 token first when needed
  */
-export async function executeRequest(config: AxiosRequestConfig): Promise<Response> {
-  const response: AxiosResponse = await axios.request(config);
+export async function createAuthenticatedRequest(
+  config: RequestConfig,
+  tokenManager: OAuth2TokenManager = defaultTokenManager
+): Promise<PreparedRequest> {
+  return createRequest(await resolveRequestAuth(config, tokenManager));
+}
 
-  return {
-    data: response.data,
-    status: response.status,
-    statusText: response.statusText,
-    headers: response.headers as Record<string, any>,
-  };
+/**
+ * Replace OAuth2 client credentials with a current access token
+ */
+export async function resolveRequestAuth(
+  config: RequestConfig,
+  tokenManager: OAuth2TokenManager = defaultTokenManager
+): Promise<RequestConfig> {
+  if (!config.auth) {
+    return config;
+  }
+  return { ...config, auth: await tokenManager.resolve(config.auth) };
+}
+
+/**
+ * Execute an HTTP request, retrying according to its retry policy.
+ *
+ * Transport failures are thrown as RequestError. Errors thrown for HTTP statuses
+ * carry the attempt log as `attempts`.
+ */
+export async function executeRequest(
+  config: PreparedRequest,
+  options: ExecuteOptions = {}
+): Promise<Response> {
+  const { retry, insecure, ...request } = config;
+  const throwHttpErrors = options.throwHttpErrors ?? true;
+  const measureTiming =
+    (options.measureTiming ?? true) && !request.httpAgent && !request.httpsAgent;
+  const maxAttempts = retry ? Math.max(1, retry.maxAttempts ?? 3) : 1;
+  const attempts: RetryAttempt[] = [];
+
+  const retryDelay = (attempt: number, status?: number, code?: string, headers?: JsonObject) =>
+    retry && attempt < maxAttempts && isRetryable(retry, request.method, { status, code })
+      ? computeRetryDelay(retry, attempt, status, headers)
+      : undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    const start = Date.now();
+    let record: RetryAttempt;
+    let delay: number | undefined;
+    const timer = measureTiming ? new RequestTimer({ rejectUnauthorized: !insecure }) : undefined;
+
+    try {
+      const response: AxiosResponse = await axios.request({
+        ...request,
+        ...(insecure &&
+          !request.httpsAgent && { httpsAgent: new https.Agent({ rejectUnauthorized: false }) }),
+        ...(timer && { httpAgent: timer.httpAgent, httpsAgent: timer.httpsAgent }),
+        ...(!throwHttpErrors && { validateStatus: () => true }),
+      });
+      const measured = timer?.finish();
+      const ok = response.status >= 200 && response.status < 300;
+      record = { attempt, duration: Date.now() - start, status: response.status };
+      attempts.push(record);
+
+      delay = ok ? undefined : retryDelay(attempt, response.status, undefined, response.headers);
+      if (delay === undefined) {
+        return {
+          data: response.data,
+          ok,
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers as Record<string, any>,
+          metadata: { attempts, ...measured },
+        };
+      }
+    } catch (error) {
+      timer?.finish();
+      const failed = error as AxiosError & { attempts?: RetryAttempt[] };
+      const status = failed?.response?.status;
+      const code = failed?.code;
+      record = {
+        attempt,
+        duration: Date.now() - start,
+        status,
+        code,
+        error: error instanceof Error ? error.message : String(error),
+      };
+      attempts.push(record);
+
+      delay = retryDelay(attempt, status, code, failed?.response?.headers);
+      if (delay === undefined) {
+        if (!failed?.response) {
+          throw toRequestError(error, attempts);
+        }
+        failed.attempts = attempts;
+        throw error;
+      }
+    }
+
+    record.delay = delay;
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Classify a transport-level failure by its system or axios error code
+ */
+export function classifyTransportError(error: unknown): TransportErrorCode {
+  const code = String(asObject(error).code || asObject(asObject(error).cause).code || '');
+
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+    return 'DNS_LOOKUP_FAILED';
+  }
+  if (code === 'ECONNREFUSED') {
+    return 'CONNECTION_REFUSED';
+  }
+  if (code === 'ECONNRESET' || code === 'EPIPE') {
+    return 'CONNECTION_RESET';
+  }
+  if (code === 'EHOSTUNREACH' || code === 'ENETUNREACH') {
+    return 'HOST_UNREACHABLE';
+  }
+  if (code === 'ETIMEDOUT' || code === 'ECONNABORTED' || code === 'ESOCKETTIMEDOUT') {
+    return 'TIMEOUT';
+  }
+  if (
+    code === 'EPROTO' ||
+    code.startsWith('ERR_TLS_') ||
+    code.startsWith('ERR_SSL_') ||
+    code.includes('CERT') ||
+    code === 'UNABLE_TO_VERIFY_LEAF_SIGNATURE'
+  ) {
+    return 'TLS_ERROR';
+  }
+  if (code === 'ERR_CANCELED') {
+    return 'ABORTED';
+  }
+  if (code === 'ERR_INVALID_URL' || code === 'ERR_BAD_OPTION' || code === 'ERR_BAD_OPTION_VALUE') {
+    return 'INVALID_REQUEST';
+  }
+  return 'NETWORK_ERROR';
+}
+
+function toRequestError(error: unknown, attempts: RetryAttempt[]): RequestError {
+  const cause = error instanceof Error ? error : new Error(String(error));
+  return new RequestError(cause.message, classifyTransportError(error), cause, attempts);
 }
@@ -0,0 +1,176 @@
+import { performance } from 'perf_hooks';
+import { AxiosRequestConfig } from 'axios';
+import { createAuthenticatedRequest, executeRequest, RequestConfig } from './http-request';
+
+/**
+ * Custom error types
+ */
+export class LoadTestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoadTestError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export interface LoadTestOptions {
+  readonly iterations?: number;
+  readonly concurrency?: number;
+}
+
+export interface LatencyStats {
+  readonly min: number;
+  readonly max: number;
+  readonly mean: number;
+  readonly p50: number;
+  readonly p90: number;
+  readonly p95: number;
+  readonly p99: number;
+}
+
+export interface LoadTestReport {
+  readonly method: string;
+  readonly url: string;
+  readonly iterations: number;
+  readonly concurrency: number;
+  /** Wall-clock duration of the whole run in milliseconds */
+  readonly duration: number;
+  /** Completed requests per second */
+  readonly throughput: number;
+  /** Latency of individual requests in milliseconds */
+  readonly latency: LatencyStats;
+  readonly successful: number;
+  readonly failed: number;
+  /** Share of requests that failed (non-2xx or transport error), between 0 and 1 */
+  readonly errorRate: number;
+  /** Count of responses per status code; transport failures are counted under `error` */
+  readonly statusCodes: Record<string, number>;
+  readonly errors: Record<string, number>;
+}
+
+/** Upper limits for one run, so a single call cannot flood the target or the server */
+export const MAX_ITERATIONS = 10000;
+export const MAX_CONCURRENCY = 100;
+
+interface Sample {
+  readonly latency: number;
+  readonly status?: number;
+  readonly error?: string;
+}
+
+/**
+ * Load Tester - Measures endpoint latency and throughput under concurrent load
+ */
+export class LoadTester {
+  /**
+   * Fire `iterations` requests with up to `concurrency` in flight. Both are capped at
+   * MAX_ITERATIONS and MAX_CONCURRENCY; the report holds the values used.
+   */
+  async run(request: RequestConfig, options: LoadTestOptions = {}): Promise<LoadTestReport> {
+    const { iterations: requestedIterations = 100, concurrency: requestedConcurrency = 10 } =
+      options;
+
+    if (!request || !request.method || !request.url) {
+      throw new LoadTestError('Endpoint must include method and url');
+    }
+    if (!Number.isInteger(requestedIterations) || requestedIterations < 1) {
+      throw new LoadTestError('iterations must be a positive integer');
+    }
+    if (!Number.isInteger(requestedConcurrency) || requestedConcurrency < 1) {
+      throw new LoadTestError('concurrency must be a positive integer');
+    }
+    const iterations = Math.min(requestedIterations, MAX_ITERATIONS);
+    const concurrency = Math.min(requestedConcurrency, MAX_CONCURRENCY);
+
+    const config = await createAuthenticatedRequest(request);
+    const samples: Sample[] = [];
+    let started = 0;
+
+    const worker = async () => {
+      while (started < iterations) {
+        started++;
+        samples.push(await this.sample(config));
+      }
+    };
+
+    const startTime = performance.now();
+    await Promise.all(Array.from({ length: Math.min(concurrency, iterations) }, () => worker()));
+    const duration = performance.now() - startTime;
+
+    const statusCodes: Record<string, number> = {};
+    const errors: Record<string, number> = {};
+    let failed = 0;
+
+    for (const sample of samples) {
+      const key = sample.status !== undefined ? String(sample.status) : 'error';
+      statusCodes[key] = (statusCodes[key] || 0) + 1;
+      if (sample.error) {
+        errors[sample.error] = (errors[sample.error] || 0) + 1;
+      }
+      if (sample.status === undefined || sample.status < 200 || sample.status >= 300) {
+        failed++;
+      }
+    }
+
+    return {
+      method: request.method,
+      url: request.url,
+      iterations,
+      concurrency,
+      duration: round(duration),
+      throughput: round((samples.length / duration) * 1000),
+      latency: computeLatencyStats(samples.map((sample) => sample.latency)),
+      successful: samples.length - failed,
+      failed,
+      errorRate: round(failed / samples.length, 4),
+      statusCodes,
+      errors,
+    };
+  }
+
+  /**
+   * Time a single request
+   */
+  private async sample(config: AxiosRequestConfig): Promise<Sample> {
+    const start = performance.now();
+    try {
+      const response = await executeRequest(config, { measureTiming: false });
+      return { latency: performance.now() - start, status: response.status };
+    } catch (error) {
+      const latency = performance.now() - start;
+      const status = (error as any)?.response?.status;
+      const message = error instanceof Error ? error.message : String(error);
+      return { latency, status, error: message };
+    }
+  }
+}
+
+/**
+ * Compute min/max/mean and nearest-rank percentiles
+ */
+export function computeLatencyStats(latencies: number[]): LatencyStats {
+  if (latencies.length === 0) {
+    return { min: 0, max: 0, mean: 0, p50: 0, p90: 0, p95: 0, p99: 0 };
+  }
+
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const percentile = (p: number) =>
+    round(sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)]);
+
+  return {
+    min: round(sorted[0]),
+    max: round(sorted[sorted.length - 1]),
+    mean: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50: percentile(50),
+    p90: percentile(90),
+    p95: percentile(95),
+    p99: percentile(99),
+  };
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,285 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Endpoint, MediaType, OpenAPISpecification, ResponseSchema } from './openapi-importer';
+import { sampleMediaType, sampleSchema } from './schema-sampler';
+
+/**
+ * Custom error types
+ */
+export class MockServerError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'MockServerError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export interface MockServerOptions {
+  readonly port?: number;
+  readonly host?: string;
+  readonly responseDelay?: number;
+}
+
+export interface MockServerInfo {
+  readonly id: string;
+  readonly title: string;
+  readonly url: string;
+  readonly host: string;
+  readonly port: number;
+  readonly responseDelay: number;
+  readonly endpoints: number;
+  readonly requestCount: number;
+  readonly startedAt: string;
+}
+
+interface Route {
+  readonly endpoint: Endpoint;
+  readonly pattern: RegExp;
+  readonly paramNames: string[];
+}
+
+interface RunningMockServer {
+  readonly id: string;
+  readonly title: string;
+  readonly host: string;
+  readonly port: number;
+  readonly responseDelay: number;
+  readonly startedAt: string;
+  readonly server: http.Server;
+  readonly routes: Route[];
+  requestCount: number;
+}
+
+/**
+ * Mock Server Manager - Serves OpenAPI endpoints from an in-process HTTP server
+ */
+export class MockServerManager {
+  private readonly servers = new Map<string, RunningMockServer>();
+  private nextId = 1;
+
+  /**
+   * Start a mock server for a specification
+   */
+  async start(
+    specification: OpenAPISpecification,
+    options: MockServerOptions = {}
+  ): Promise<MockServerInfo> {
+    if (!specification || !Array.isArray(specification.endpoints)) {
+      throw new MockServerError('Specification must contain an endpoints array');
+    }
+
+    const { port = 3000, host = '127.0.0.1', responseDelay = 0 } = options;
+    const routes = specification.endpoints
+      .map((endpoint) => ({ endpoint, ...compilePathTemplate(endpoint.path) }))
+      .sort((a, b) => a.paramNames.length - b.paramNames.length);
+
+    const id = `mock-${this.nextId++}`;
+    const server = http.createServer((req, res) => {
+      const running = this.servers.get(id);
+      if (running) {
+        running.requestCount++;
+      }
+      req.resume();
+      setTimeout(() => {
+        // An exception here would be uncaught and end the whole process
+        try {
+          this.handleRequest(specification, routes, req, res);
+        } catch (error) {
+          this.sendError(res, error);
+        }
+      }, responseDelay);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', (error: NodeJS.ErrnoException) => {
+        const message =
+          error.code === 'EADDRINUSE'
+            ? `Port ${port} is already in use`
+            : `Failed to start mock server on port ${port}`;
+        reject(new MockServerError(message, error));
+      });
+      server.listen(port, host, () => resolve());
+    });
+
+    const running: RunningMockServer = {
+      id,
+      title: specification.info?.title || 'Untitled API',
+      host,
+      port: (server.address() as AddressInfo).port,
+      responseDelay,
+      startedAt: new Date().toISOString(),
+      server,
+      routes,
+      requestCount: 0,
+    };
+    this.servers.set(id, running);
+
+    return this.toInfo(running);
+  }
+
+  /**
+   * List running mock servers
+   */
+  list(): MockServerInfo[] {
+    return Array.from(this.servers.values()).map((running) => this.toInfo(running));
+  }
+
+  /**
+   * Stop a running mock server
+   */
+  async stop(id: string): Promise<MockServerInfo> {
+    const running = this.servers.get(id);
+    if (!running) {
+      throw new MockServerError(`Mock server not found: ${id}`);
+    }
+
+    this.servers.delete(id);
+    await new Promise<void>((resolve) => {
+      running.server.close(() => resolve());
+      running.server.closeAllConnections();
+    });
+
+    return this.toInfo(running);
+  }
+
+  /**
+   * Stop all running mock servers
+   */
+  async stopAll(): Promise<void> {
+    await Promise.all(Array.from(this.servers.keys()).map((id) => this.stop(id)));
+  }
+
+  /**
+   * Route a request to an endpoint and write its mocked response
+   */
+  private handleRequest(
+    specification: OpenAPISpecification,
+    routes: Route[],
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): void {
+    const method = (req.method || 'GET').toUpperCase();
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    const matching = routes.filter((route) => route.pattern.test(pathname));
+    const route = matching.find((r) => r.endpoint.method === method);
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+
+    if (!route) {
+      if (matching.length > 0) {
+        res.setHeader('Allow', matching.map((r) => r.endpoint.method).join(', '));
+        this.sendJson(res, 405, { error: `Method ${method} not allowed for ${pathname}` });
+      } else {
+        this.sendJson(res, 404, { error: `No mock endpoint for ${method} ${pathname}` });
+      }
+      return;
+    }
+
+    const response = this.selectResponse(route.endpoint);
+    if (!response) {
+      this.sendJson(res, 501, {
+        error: `No 2xx response declared for ${route.endpoint.method} ${route.endpoint.path}`,
+      });
+      return;
+    }
+
+    const status = /^\d{3}$/.test(response.statusCode) ? Number(response.statusCode) : 200;
+    for (const [name, header] of Object.entries(response.headers || {})) {
+      const value = sampleSchema(header.schema, specification.components);
+      if (value !== undefined) {
+        res.setHeader(name, String(value));
+      }
+    }
+
+    const mediaType = this.selectMediaType(response.content || []);
+    if (!mediaType || status === 204 || status === 304 || method === 'HEAD') {
+      res.statusCode = status;
+      res.end();
+      return;
+    }
+
+    const body = sampleMediaType(mediaType, specification.components);
+    res.statusCode = status;
+    res.setHeader('Content-Type', mediaType.mimeType);
+    res.end(
+      typeof body === 'string' && !isJsonMimeType(mediaType.mimeType)
+        ? body
+        : JSON.stringify(body ?? null)
+    );
+  }
+
+  /**
+   * Pick the first 2xx response, falling back to `default`
+   */
+  private selectResponse(endpoint: Endpoint): ResponseSchema | undefined {
+    return (
+      endpoint.responses.find((r) => /^2(\d\d|XX)$/i.test(r.statusCode)) ||
+      endpoint.responses.find((r) => r.statusCode === 'default')
+    );
+  }
+
+  /**
+   * Prefer a JSON media type when several are declared
+   */
+  private selectMediaType(content: MediaType[]): MediaType | undefined {
+    return content.find((m) => isJsonMimeType(m.mimeType)) || content[0];
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: any): void {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(res: http.ServerResponse, error: unknown): void {
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    this.sendJson(res, 500, { error: `Mock response failed: ${message}` });
+  }
+
+  private toInfo(running: RunningMockServer): MockServerInfo {
+    return {
+      id: running.id,
+      title: running.title,
+      url: `http://${running.host}:${running.port}`,
+      host: running.host,
+      port: running.port,
+      responseDelay: running.responseDelay,
+      endpoints: running.routes.length,
+      requestCount: running.requestCount,
+      startedAt: running.startedAt,
+    };
+  }
+}
+
+/**
+ * Compile an OpenAPI path template such as `/users/{id}` into a matcher
+ */
+export function compilePathTemplate(path: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = path
+    .split(/(\{[^}]+\})/)
+    .map((segment) => {
+      const param = /^\{([^}]+)\}$/.exec(segment);
+      if (param) {
+        paramNames.push(param[1]);
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return { pattern: new RegExp(`^${source}/?$`), paramNames };
+}
+
+function isJsonMimeType(mimeType: string): boolean {
+  return /[/+]json$/i.test(mimeType.split(';')[0].trim());
+}
@@ -0,0 +1,654 @@
+import {
+  Components,
+  Endpoint,
+  MediaType,
+  OpenAPISpecification,
+  Parameter,
+  Schema,
+  schemaTypes,
+} from './openapi-importer';
+import { resolveSchemaRef } from './schema-sampler';
+
+/**
+ * Custom error types
+ */
+export class OpenAPIDiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OpenAPIDiffError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export type ChangeSeverity = 'breaking' | 'non-breaking';
+
+export type ChangeType =
+  | 'endpoint-added'
+  | 'endpoint-removed'
+  | 'endpoint-deprecated'
+  | 'parameter-added'
+  | 'parameter-removed'
+  | 'parameter-required-changed'
+  | 'parameter-style-changed'
+  | 'request-body-added'
+  | 'request-body-removed'
+  | 'request-body-required-changed'
+  | 'media-type-added'
+  | 'media-type-removed'
+  | 'property-added'
+  | 'property-removed'
+  | 'property-required-changed'
+  | 'type-changed'
+  | 'format-changed'
+  | 'enum-changed'
+  | 'constraint-changed'
+  | 'status-code-added'
+  | 'status-code-removed';
+
+export interface SpecChange {
+  readonly type: ChangeType;
+  readonly severity: ChangeSeverity;
+  /** `METHOD /path` of the affected endpoint */
+  readonly endpoint: string;
+  /** Where in the endpoint the change is, e.g. `request.query.limit` or `response.200.body.items[].id` */
+  readonly location: string;
+  readonly message: string;
+  readonly before?: any;
+  readonly after?: any;
+}
+
+export interface SpecDiff {
+  /** Whether any change breaks existing clients */
+  readonly breaking: boolean;
+  readonly summary: { readonly breaking: number; readonly nonBreaking: number };
+  readonly changes: SpecChange[];
+}
+
+/** Whether schema values flow from the client (request) or to it (response) */
+type Direction = 'request' | 'response';
+
+interface SchemaContext {
+  readonly endpoint: string;
+  readonly direction: Direction;
+  readonly before?: Components;
+  readonly after?: Components;
+  readonly changes: SpecChange[];
+  /** `$ref` pairs already being compared, to stop at recursive schemas */
+  readonly visiting: Set<string>;
+}
+
+/** Bounds where a larger value accepts more (`max*`) or fewer (`min*`) values */
+const UPPER_BOUNDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+const LOWER_BOUNDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+
+/**
+ * Compare two imported specifications and classify every change for existing clients.
+ *
+ * Requests break when the new version accepts less than the old one did (new
+ * required inputs, narrower types, enums or constraints); responses break when the
+ * new version may return something the old one did not (removed fields, wider
+ * types or enums, removed status codes).
+ */
+export function diffSpecifications(
+  before: OpenAPISpecification,
+  after: OpenAPISpecification
+): SpecDiff {
+  for (const [label, spec] of [
+    ['before', before],
+    ['after', after],
+  ] as const) {
+    if (!spec || !Array.isArray(spec.endpoints)) {
+      throw new OpenAPIDiffError(`Specification '${label}' must contain an endpoints array`);
+    }
+  }
+
+  const changes: SpecChange[] = [];
+  const previous = new Map(before.endpoints.map((endpoint) => [endpointKey(endpoint), endpoint]));
+  const current = new Map(after.endpoints.map((endpoint) => [endpointKey(endpoint), endpoint]));
+
+  for (const [key, endpoint] of previous) {
+    if (!current.has(key)) {
+      changes.push({
+        type: 'endpoint-removed',
+        severity: 'breaking',
+        endpoint: endpointName(endpoint),
+        location: 'endpoint',
+        message: `Endpoint ${endpointName(endpoint)} was removed`,
+      });
+    }
+  }
+
+  for (const [key, endpoint] of current) {
+    const old = previous.get(key);
+    if (!old) {
+      changes.push({
+        type: 'endpoint-added',
+        severity: 'non-breaking',
+        endpoint: endpointName(endpoint),
+        location: 'endpoint',
+        message: `Endpoint ${endpointName(endpoint)} was added`,
+      });
+      continue;
+    }
+    diffEndpoint(old, endpoint, before.components, after.components, changes);
+  }
+
+  const breaking = changes.filter((change) => change.severity === 'breaking').length;
+  return {
+    breaking: breaking > 0,
+    summary: { breaking, nonBreaking: changes.length - breaking },
+    changes,
+  };
+}
+
+function diffEndpoint(
+  before: Endpoint,
+  after: Endpoint,
+  beforeComponents: Components | undefined,
+  afterComponents: Components | undefined,
+  changes: SpecChange[]
+): void {
+  const name = endpointName(after);
+  const context = (direction: Direction): SchemaContext => ({
+    endpoint: name,
+    direction,
+    before: beforeComponents,
+    after: afterComponents,
+    changes,
+    visiting: new Set(),
+  });
+
+  if (after.deprecated && !before.deprecated) {
+    changes.push({
+      type: 'endpoint-deprecated',
+      severity: 'non-breaking',
+      endpoint: name,
+      location: 'endpoint',
+      message: `Endpoint ${name} was deprecated`,
+    });
+  }
+
+  diffParameters(before, after, context('request'));
+  diffRequestBody(before, after, context('request'));
+  diffResponses(before, after, context('response'));
+}
+
+function diffParameters(before: Endpoint, after: Endpoint, context: SchemaContext): void {
+  const previous = new Map(
+    before.parameters.map((param) => [parameterKey(param, before.path), param])
+  );
+  const current = new Map(
+    after.parameters.map((param) => [parameterKey(param, after.path), param])
+  );
+
+  for (const [key, param] of previous) {
+    if (!current.has(key)) {
+      report(context, {
+        type: 'parameter-removed',
+        severity: 'breaking',
+        location: `request.${param.in}.${param.name}`,
+        message: `${capitalize(param.in)} parameter '${param.name}' was removed`,
+      });
+    }
+  }
+
+  for (const [key, param] of current) {
+    const location = `request.${param.in}.${param.name}`;
+    const old = previous.get(key);
+    if (!old) {
+      report(context, {
+        type: 'parameter-added',
+        severity: param.required ? 'breaking' : 'non-breaking',
+        location,
+        message: `${param.required ? 'Required' : 'Optional'} ${param.in} parameter '${param.name}' was added`,
+      });
+      continue;
+    }
+
+    if (old.required !== param.required) {
+      report(context, {
+        type: 'parameter-required-changed',
+        severity: param.required ? 'breaking' : 'non-breaking',
+        location,
+        message: `${capitalize(param.in)} parameter '${param.name}' became ${param.required ? 'required' : 'optional'}`,
+        before: old.required,
+        after: param.required,
+      });
+    }
+
+    if (
+      (old.style ?? null) !== (param.style ?? null) ||
+      (old.explode ?? null) !== (param.explode ?? null)
+    ) {
+      report(context, {
+        type: 'parameter-style-changed',
+        severity: 'breaking',
+        location,
+        message: `Serialization of ${param.in} parameter '${param.name}' changed`,
+        before: { style: old.style, explode: old.explode },
+        after: { style: param.style, explode: param.explode },
+      });
+    }
+
+    diffSchema(old.schema, param.schema, location, context);
+  }
+}
+
+function diffRequestBody(before: Endpoint, after: Endpoint, context: SchemaContext): void {
+  const old = before.requestBody;
+  const body = after.requestBody;
+  if (!old && !body) {
+    return;
+  }
+  if (!body) {
+    report(context, {
+      type: 'request-body-removed',
+      severity: 'breaking',
+      location: 'request.body',
+      message: 'Request body was removed',
+    });
+    return;
+  }
+  if (!old) {
+    report(context, {
+      type: 'request-body-added',
+      severity: body.required ? 'breaking' : 'non-breaking',
+      location: 'request.body',
+      message: `${body.required ? 'Required' : 'Optional'} request body was added`,
+    });
+    return;
+  }
+
+  if (old.required !== body.required) {
+    report(context, {
+      type: 'request-body-required-changed',
+      severity: body.required ? 'breaking' : 'non-breaking',
+      location: 'request.body',
+      message: `Request body became ${body.required ? 'required' : 'optional'}`,
+      before: old.required,
+      after: body.required,
+    });
+  }
+
+  diffContent(old.content, body.content, 'request.body', context);
+}
+
+function diffResponses(before: Endpoint, after: Endpoint, context: SchemaContext): void {
+  const previous = new Map(before.responses.map((response) => [response.statusCode, response]));
+  const current = new Map(after.responses.map((response) => [response.statusCode, response]));
+
+  for (const statusCode of previous.keys()) {
+    if (!current.has(statusCode)) {
+      report(context, {
+        type: 'status-code-removed',
+        severity: 'breaking',
+        location: `response.${statusCode}`,
+        message: `Response status ${statusCode} was removed`,
+      });
+    }
+  }
+
+  for (const [statusCode, response] of current) {
+    const old = previous.get(statusCode);
+    if (!old) {
+      report(context, {
+        type: 'status-code-added',
+        severity: 'non-breaking',
+        location: `response.${statusCode}`,
+        message: `Response status ${statusCode} was added`,
+      });
+      continue;
+    }
+    diffContent(old.content || [], response.content || [], `response.${statusCode}.body`, context);
+  }
+}
+
+/**
+ * Compare media types: removing one breaks requests and responses alike
+ */
+function diffContent(
+  before: MediaType[],
+  after: MediaType[],
+  location: string,
+  context: SchemaContext
+): void {
+  const current = new Map(after.map((media) => [media.mimeType, media]));
+  const previous = new Set(before.map((media) => media.mimeType));
+
+  for (const media of before) {
+    const match = current.get(media.mimeType);
+    if (!match) {
+      report(context, {
+        type: 'media-type-removed',
+        severity: 'breaking',
+        location,
+        message: `Media type '${media.mimeType}' was removed`,
+      });
+    } else if (media.schema && match.schema) {
+      diffSchema(media.schema, match.schema, location, context);
+    }
+  }
+
+  for (const media of after) {
+    if (!previous.has(media.mimeType)) {
+      report(context, {
+        type: 'media-type-added',
+        severity: 'non-breaking',
+        location,
+        message: `Media type '${media.mimeType}' was added`,
+      });
+    }
+  }
+}
+
+function diffSchema(
+  beforeSchema: Schema | undefined,
+  afterSchema: Schema | undefined,
+  location: string,
+  context: SchemaContext
+): void {
+  const visitKey = `${beforeSchema?.$ref ?? ''}|${afterSchema?.$ref ?? ''}`;
+  const recursive = visitKey !== '|';
+  if (recursive && context.visiting.has(visitKey)) {
+    return;
+  }
+  if (recursive) {
+    context.visiting.add(visitKey);
+  }
+
+  const before = flatten(beforeSchema, context.before);
+  const after = flatten(afterSchema, context.after);
+  if (!before || !after) {
+    return;
+  }
+  const request = context.direction === 'request';
+
+  diffTypes(before, after, location, context);
+
+  if (before.format !== after.format && before.format && after.format) {
+    report(context, {
+      type: 'format-changed',
+      severity: 'breaking',
+      location,
+      message: `Format changed from '${before.format}' to '${after.format}'`,
+      before: before.format,
+      after: after.format,
+    });
+  }
+
+  diffEnum(before, after, location, context);
+  diffConstraints(before, after, location, context);
+
+  // Object properties
+  const beforeProperties: Record<string, Schema> = before.properties || {};
+  const afterProperties: Record<string, Schema> = after.properties || {};
+  const beforeRequired = new Set(before.required || []);
+  const afterRequired = new Set(after.required || []);
+
+  for (const name of Object.keys(beforeProperties)) {
+    if (!(name in afterProperties)) {
+      report(context, {
+        type: 'property-removed',
+        severity: request ? 'non-breaking' : 'breaking',
+        location: `${location}.${name}`,
+        message: `Property '${name}' was removed`,
+      });
+    }
+  }
+
+  for (const [name, property] of Object.entries(afterProperties)) {
+    const path = `${location}.${name}`;
+    if (!(name in beforeProperties)) {
+      const required = afterRequired.has(name);
+      report(context, {
+        type: 'property-added',
+        severity: request && required ? 'breaking' : 'non-breaking',
+        location: path,
+        message: `${request && required ? 'Required property' : 'Property'} '${name}' was added`,
+      });
+      continue;
+    }
+
+    const wasRequired = beforeRequired.has(name);
+    const isRequired = afterRequired.has(name);
+    if (wasRequired !== isRequired) {
+      // Requests break when a field must now be sent, responses when it may be missing
+      const breaking = request ? isRequired : wasRequired;
+      report(context, {
+        type: 'property-required-changed',
+        severity: breaking ? 'breaking' : 'non-breaking',
+        location: path,
+        message: `Property '${name}' became ${isRequired ? 'required' : 'optional'}`,
+        before: wasRequired,
+        after: isRequired,
+      });
+    }
+
+    diffSchema(beforeProperties[name], property, path, context);
+  }
+
+  if (before.items && after.items) {
+    diffSchema(before.items, after.items, `${location}[]`, context);
+  }
+
+  if (recursive) {
+    context.visiting.delete(visitKey);
+  }
+}
+
+function diffTypes(before: Schema, after: Schema, location: string, context: SchemaContext): void {
+  const beforeTypes = typesOf(before);
+  const afterTypes = typesOf(after);
+  if (sameSet(beforeTypes, afterTypes)) {
+    return;
+  }
+
+  // A request schema must still accept every old type; a response may only return old types
+  const compatible =
+    context.direction === 'request'
+      ? acceptsAll(afterTypes, beforeTypes)
+      : acceptsAll(beforeTypes, afterTypes);
+  report(context, {
+    type: 'type-changed',
+    severity: compatible ? 'non-breaking' : 'breaking',
+    location,
+    message: `Type changed from ${describeTypes(beforeTypes)} to ${describeTypes(afterTypes)}`,
+    before: beforeTypes,
+    after: afterTypes,
+  });
+}
+
+function diffEnum(before: Schema, after: Schema, location: string, context: SchemaContext): void {
+  if (!Array.isArray(before.enum) && !Array.isArray(after.enum)) {
+    return;
+  }
+
+  let parts: string[];
+  let narrowed: boolean;
+  let widened: boolean;
+  if (!Array.isArray(before.enum)) {
+    // A missing enum allows any value
+    [parts, narrowed, widened] = [['enum was introduced'], true, false];
+  } else if (!Array.isArray(after.enum)) {
+    [parts, narrowed, widened] = [['enum was dropped'], false, true];
+  } else {
+    const beforeValues = before.enum.map((value) => JSON.stringify(value));
+    const afterValues = after.enum.map((value) => JSON.stringify(value));
+    const removed = beforeValues.filter((value) => !afterValues.includes(value));
+    const added = afterValues.filter((value) => !beforeValues.includes(value));
+    parts = [
+      ...(removed.length > 0 ? [`removed ${removed.join(', ')}`] : []),
+      ...(added.length > 0 ? [`added ${added.join(', ')}`] : []),
+    ];
+    [narrowed, widened] = [removed.length > 0, added.length > 0];
+  }
+  if (!narrowed && !widened) {
+    return;
+  }
+
+  // Requests break when values are no longer accepted, responses when new values may appear
+  const breaking = context.direction === 'request' ? narrowed : widened;
+  const kind = narrowed && widened ? 'changed' : narrowed ? 'narrowed' : 'widened';
+  report(context, {
+    type: 'enum-changed',
+    severity: breaking ? 'breaking' : 'non-breaking',
+    location,
+    message: `Enum ${kind}: ${parts.join('; ')}`,
+    before: before.enum,
+    after: after.enum,
+  });
+}
+
+/**
+ * Compare constraints; requests break when they tighten and reject values that used
+ * to be accepted, responses when they loosen and may return values clients never saw
+ */
+function diffConstraints(
+  before: Schema,
+  after: Schema,
+  location: string,
+  context: SchemaContext
+): void {
+  const request = context.direction === 'request';
+  const compare = (keyword: string, upper: boolean) => {
+    const old = before[keyword];
+    const value = after[keyword];
+    if (old === value) {
+      return;
+    }
+    let tightened: boolean;
+    if (typeof old === 'number' || typeof value === 'number') {
+      tightened =
+        typeof old !== 'number' ||
+        (typeof value === 'number' && (upper ? value < old : value > old));
+    } else if (typeof old === 'boolean' || typeof value === 'boolean') {
+      // OpenAPI 3.0 `exclusiveMinimum: true` excludes the `minimum` value itself
+      if ((old === true) === (value === true)) {
+        return;
+      }
+      tightened = value === true;
+    } else {
+      return;
+    }
+    report(context, {
+      type: 'constraint-changed',
+      severity: tightened === request ? 'breaking' : 'non-breaking',
+      location,
+      message: `${keyword} ${tightened ? 'tightened' : 'loosened'} from ${describeBound(old)} to ${describeBound(value)}`,
+      before: old,
+      after: value,
+    });
+  };
+
+  UPPER_BOUNDS.forEach((keyword) => compare(keyword, true));
+  LOWER_BOUNDS.forEach((keyword) => compare(keyword, false));
+
+  if (before.pattern !== after.pattern) {
+    // A changed pattern may reject old values and allow new ones
+    const breaking = request ? Boolean(after.pattern) : Boolean(before.pattern);
+    report(context, {
+      type: 'constraint-changed',
+      severity: breaking ? 'breaking' : 'non-breaking',
+      location,
+      message: after.pattern
+        ? `pattern changed to '${after.pattern}'`
+        : `pattern '${before.pattern}' was removed`,
+      before: before.pattern,
+      after: after.pattern,
+    });
+  }
+}
+
+/**
+ * Resolve a component reference and merge `allOf` parts into one schema
+ */
+function flatten(schema: Schema | undefined, components?: Components, depth = 0): any {
+  if (!schema || typeof schema !== 'object' || depth > 8) {
+    return undefined;
+  }
+  if (schema.$ref) {
+    return flatten(resolveSchemaRef(schema.$ref, components), components, depth + 1);
+  }
+  if (!Array.isArray(schema.allOf)) {
+    return schema;
+  }
+
+  const { allOf, ...rest } = schema;
+  return allOf.reduce((merged: any, part: Schema) => {
+    const resolved = flatten(part, components, depth + 1) || {};
+    return {
+      ...resolved,
+      ...merged,
+      properties: { ...resolved.properties, ...merged.properties },
+      required: [...(merged.required || []), ...(resolved.required || [])],
+    };
+  }, rest);
+}
+
+function typesOf(schema: Schema): string[] {
+  const types = schemaTypes(schema);
+  return schema.nullable === true && types.length > 0 && !types.includes('null')
+    ? [...types, 'null']
+    : types;
+}
+
+/**
+ * Whether a schema allowing `wider` types accepts every value of `narrower` types
+ */
+function acceptsAll(wider: string[], narrower: string[]): boolean {
+  if (wider.length === 0) {
+    return true;
+  }
+  if (narrower.length === 0) {
+    return false;
+  }
+  return narrower.every(
+    (type) => wider.includes(type) || (type === 'integer' && wider.includes('number'))
+  );
+}
+
+function sameSet(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value) => b.includes(value));
+}
+
+function describeTypes(types: string[]): string {
+  return types.length > 0 ? types.join(' | ') : 'any';
+}
+
+function describeBound(value: unknown): string {
+  return typeof value === 'number' || typeof value === 'boolean' ? String(value) : 'none';
+}
+
+function report(context: SchemaContext, change: Omit<SpecChange, 'endpoint'>): void {
+  context.changes.push({ endpoint: context.endpoint, ...change });
+}
+
+/**
+ * Endpoints match by method and path, ignoring path parameter names
+ */
+function endpointKey(endpoint: Endpoint): string {
+  return `${endpoint.method} ${endpoint.path.replace(/\{[^}]+\}/g, '{}')}`;
+}
+
+function endpointName(endpoint: Endpoint): string {
+  return `${endpoint.method} ${endpoint.path}`;
+}
+
+/**
+ * Parameters match by location and name. Header names are case-insensitive, and
+ * path parameters match by position so that renaming `{id}` is not a change.
+ */
+function parameterKey(param: Parameter, path: string): string {
+  if (param.in === 'path') {
+    const names = Array.from(path.matchAll(/\{([^}]+)\}/g), (match) => match[1]);
+    const index = names.indexOf(param.name);
+    return `path:${index === -1 ? param.name : `#${index}`}`;
+  }
+  return `${param.in}:${param.in === 'header' ? param.name.toLowerCase() : param.name}`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
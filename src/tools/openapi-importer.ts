@@ -1,6 +1,15 @@
 import * as fs from 'fs/promises';
+import * as path from 'path';
 import axios from 'axios';
 import * as yaml from 'yaml';
+import { asArray, asObject, isPlainObject, JsonObject } from './helpers';
+import {
+  bundleDocument,
+  dereferenceDocument,
+  isSchemaComponentRef,
+  RefResolutionError,
+} from './ref-resolver';
+import { convertSwagger2, isSwagger2 } from './swagger-converter';
 
 /**
  * Custom error types
@@ -28,7 +37,7 @@ export class ValidationError extends OpenAPIImportError {
 /**
  * Type definitions
  */
-export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
+export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS' | 'TRACE';
 
 export interface APIInfo {
   readonly title: string;
@@ -36,13 +45,66 @@ export interface APIInfo {
   readonly description?: string;
 }
 
+export interface ExternalDocs {
+  readonly url: string;
+  readonly description?: string;
+}
+
+export interface Tag {
+  readonly name: string;
+  readonly description?: string;
+  readonly externalDocs?: ExternalDocs;
+}
+
+export interface ServerVariable {
+  readonly default: string;
+  readonly enum?: string[];
+  readonly description?: string;
+}
+
+export interface Server {
+  /** URL template; `{name}` placeholders are filled from `variables` */
+  readonly url: string;
+  readonly description?: string;
+  readonly variables?: Record<string, ServerVariable>;
+}
+
+/** Scheme names mapped to required scopes; every scheme of one requirement applies together */
+export type SecurityRequirement = Record<string, string[]>;
+
+export interface OAuthFlow {
+  readonly authorizationUrl?: string;
+  readonly tokenUrl?: string;
+  readonly refreshUrl?: string;
+  readonly scopes: Record<string, string>;
+}
+
+export interface SecurityScheme {
+  readonly type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+  readonly description?: string;
+  /** Header, query or cookie name (apiKey) */
+  readonly name?: string;
+  readonly in?: 'query' | 'header' | 'cookie';
+  /** HTTP auth scheme such as `basic` or `bearer` (http) */
+  readonly scheme?: string;
+  readonly bearerFormat?: string;
+  /** Flows keyed by `implicit`, `password`, `clientCredentials` or `authorizationCode` (oauth2) */
+  readonly flows?: Record<string, OAuthFlow>;
+  readonly openIdConnectUrl?: string;
+}
+
 export interface Schema {
-  readonly type: string;
+  /** A single type, or (OpenAPI 3.1) a list of types that may include `null` */
+  readonly type?: string | string[];
   readonly properties?: Record<string, Schema>;
   readonly items?: Schema;
+  /** Positional item schemas (JSON Schema 2020-12) */
+  readonly prefixItems?: Schema[];
   readonly required?: string[];
   readonly enum?: any[];
+  readonly const?: any;
   readonly format?: string;
+  readonly $defs?: Record<string, Schema>;
   [key: string]: any;
 }
 
@@ -50,13 +112,27 @@ export interface Parameter {
   readonly name: string;
   readonly in: 'path' | 'query' | 'header' | 'cookie';
   readonly required: boolean;
+  /** The declared schema, or that of the first media type for `content` parameters */
   readonly schema: Schema;
   readonly description?: string;
+  readonly deprecated?: boolean;
+  /** Serialization style, e.g. `form`, `simple`, `deepObject` */
+  readonly style?: string;
+  readonly explode?: boolean;
+  /** Send reserved characters (`:/?#[]@!$&'()*+,;=`) in query values unencoded */
+  readonly allowReserved?: boolean;
+  /** Media types of a parameter serialized as a whole (instead of `schema`) */
+  readonly content?: MediaType[];
+  readonly example?: unknown;
+  /** Example values keyed by name */
+  readonly examples?: Record<string, unknown>;
 }
 
 export interface MediaType {
   readonly mimeType: string;
   readonly schema?: Schema;
+  readonly example?: unknown;
+  readonly examples?: Record<string, unknown>;
 }
 
 export interface RequestBody {
@@ -64,10 +140,17 @@ export interface RequestBody {
   readonly content: MediaType[];
 }
 
+export interface ResponseHeader {
+  readonly required: boolean;
+  readonly schema: Schema;
+  readonly description?: string;
+}
+
 export interface ResponseSchema {
   readonly statusCode: string;
   readonly description: string;
   readonly content?: MediaType[];
+  readonly headers?: Record<string, ResponseHeader>;
 }
 
 export interface Endpoint {
@@ -75,6 +158,16 @@ export interface Endpoint {
   readonly method: HTTPMethod;
   readonly operationId?: string;
   readonly summary?: string;
+  readonly description?: string;
+  readonly tags?: string[];
+  readonly deprecated?: boolean;
+  /**
+   * Alternative requirements the operation accepts: its own, or the
+   * specification's when it declares none. An empty list means no auth.
+   */
+  readonly security?: SecurityRequirement[];
+  /** Servers declared on the operation or its path, overriding the specification's */
+  readonly servers?: Server[];
   readonly parameters: Parameter[];
   readonly requestBody?: RequestBody;
   readonly responses: ResponseSchema[];
@@ -84,15 +177,49 @@ export interface Components {
   readonly schemas?: Record<string, Schema>;
   readonly parameters?: Record<string, Parameter>;
   readonly responses?: Record<string, ResponseSchema>;
+  /** Reusable path items (OpenAPI 3.1) */
+  readonly pathItems?: Record<string, unknown>;
+  readonly securitySchemes?: Record<string, SecurityScheme>;
 }
 
 export interface OpenAPISpecification {
+  /** OpenAPI version of the imported document (Swagger 2.0 is reported as converted) */
+  readonly openapi?: string;
   readonly info: APIInfo;
+  readonly servers?: Server[];
+  /** Requirements applied to operations that declare none */
+  readonly security?: SecurityRequirement[];
+  readonly tags?: Tag[];
+  readonly externalDocs?: ExternalDocs;
   readonly endpoints: Endpoint[];
+  /** Requests the API sends (OpenAPI 3.1); `path` holds the webhook name */
+  readonly webhooks?: Endpoint[];
   readonly components?: Components;
+  /** JSON Schema dialect of the schemas, for 3.1 documents */
+  readonly jsonSchemaDialect?: string;
+  /** Bundled document, or the fully dereferenced one when requested */
   readonly raw: any;
+  /** Bundled document with its `$ref`s, kept when `raw` is dereferenced */
+  readonly bundled?: unknown;
+  /** References left in place because they are circular */
+  readonly circularRefs?: string[];
+  /** Files and URLs bundled in through external `$ref`s */
+  readonly referencedDocuments?: string[];
+}
+
+export interface OpenAPIImportOptions {
+  /**
+   * Inline `#/components/schemas/...` references too (default false). Otherwise
+   * they are kept, and everything else is resolved.
+   */
+  readonly dereference?: boolean;
 }
 
+/** Default dialect of OpenAPI 3.1 schemas */
+export const JSON_SCHEMA_2020_12 = 'https://json-schema.org/draft/2020-12/schema';
+
+const METHODS: HTTPMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS', 'TRACE'];
+
 /**
  * OpenAPI Importer Implementation
  */
@@ -100,17 +227,23 @@ export class OpenAPIImporter {
   /**
    * Import OpenAPI specification from a file
    */
-  async importFromFile(filePath: string): Promise<OpenAPISpecification> {
+  async importFromFile(
+    filePath: string,
+    options: OpenAPIImportOptions = {}
+  ): Promise<OpenAPISpecification> {
     try {
       const content = await fs.readFile(filePath, 'utf-8');
       const format = this.detectFormat(filePath);
       const document = this.parseDocument(content, format);
       this.validateSpec(document);
-      return this.extractSpecification(document);
+      return await this.resolveAndExtract(document, path.resolve(filePath), options);
     } catch (error) {
       if (error instanceof ValidationError || error instanceof OpenAPIImportError) {
         throw error;
       }
+      if (error instanceof RefResolutionError) {
+        throw new OpenAPIImportError(error.message, error);
+      }
       throw new OpenAPIImportError(
         `Failed to import OpenAPI spec from file: ${filePath}`,
         error as Error
@@ -121,16 +254,20 @@ export class OpenAPIImporter {
   /**
    * Import OpenAPI specification from a URL
    */
-  async importFromUrl(url: string): Promise<OpenAPISpecification> {
+  async importFromUrl(
+    url: string,
+    options: OpenAPIImportOptions = {}
+  ): Promise<OpenAPISpecification> {
     try {
       const response = await axios.get(url);
-      const document = response.data;
-      this.validateSpec(document);
-      return this.extractSpecification(document);
+      return await this.importDocument(response.data, url, options);
     } catch (error) {
       if (error instanceof ValidationError || error instanceof OpenAPIImportError) {
         throw error;
       }
+      if (error instanceof RefResolutionError) {
+        throw new OpenAPIImportError(error.message, error);
+      }
       throw new OpenAPIImportError(
         `Failed to import OpenAPI spec from URL: ${url}`,
         error as Error
@@ -138,6 +275,29 @@ export class OpenAPIImporter {
     }
   }
 
+  /**
+   * Import a document fetched from `url` (a parsed object, or YAML or JSON text)
+   */
+  async importDocument(
+    data: unknown,
+    url: string,
+    options: OpenAPIImportOptions = {}
+  ): Promise<OpenAPISpecification> {
+    try {
+      const document = this.parseRemoteDocument(data);
+      this.validateSpec(document);
+      return await this.resolveAndExtract(document, url, options);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof OpenAPIImportError) {
+        throw error;
+      }
+      if (error instanceof RefResolutionError) {
+        throw new OpenAPIImportError(error.message, error);
+      }
+      throw new OpenAPIImportError(`Failed to import OpenAPI spec from: ${url}`, error as Error);
+    }
+  }
+
   /**
    * Detect file format from extension
    */
@@ -152,7 +312,7 @@ export class OpenAPIImporter {
   /**
    * Parse document content
    */
-  private parseDocument(content: string, format: 'json' | 'yaml'): any {
+  private parseDocument(content: string, format: 'json' | 'yaml'): unknown {
     try {
       if (format === 'yaml') {
         return yaml.parse(content);
@@ -164,27 +324,88 @@ export class OpenAPIImporter {
   }
 
   /**
-   * Validate OpenAPI specification
+   * Parse a fetched document; servers often send YAML or JSON as plain text
+   */
+  private parseRemoteDocument(data: unknown): unknown {
+    return typeof data === 'string' ? this.parseDocument(data, 'yaml') : data;
+  }
+
+  /**
+   * Load a document referenced by `$ref`, from a URL or a file path
+   */
+  private async loadReference(uri: string): Promise<unknown> {
+    if (/^https?:\/\//i.test(uri)) {
+      const response = await axios.get(uri);
+      return this.parseRemoteDocument(response.data);
+    }
+    return this.parseDocument(await fs.readFile(uri, 'utf-8'), this.detectFormat(uri));
+  }
+
+  /**
+   * Bundle external references, convert Swagger 2.0 to OpenAPI 3, then resolve
+   * internal references before extraction
    */
-  private validateSpec(document: any): void {
+  private async resolveAndExtract(
+    document: JsonObject,
+    baseUri: string,
+    options: OpenAPIImportOptions
+  ): Promise<OpenAPISpecification> {
+    const swagger = isSwagger2(document);
+    const referenced: string[] = [];
+    const loader = (uri: string) => {
+      referenced.push(uri);
+      return this.loadReference(uri);
+    };
+    const bundled = swagger
+      ? convertSwagger2(asObject(await bundleDocument(document, baseUri, loader, ['definitions'])))
+      : await bundleDocument(document, baseUri, loader);
+    const { document: resolved, circular } = dereferenceDocument(
+      bundled,
+      options.dereference ? undefined : isSchemaComponentRef
+    );
+
+    return {
+      ...this.extractSpecification(asObject(resolved)),
+      raw: options.dereference ? resolved : bundled,
+      ...(options.dereference && { bundled }),
+      ...(circular.length > 0 && { circularRefs: circular }),
+      ...(referenced.length > 0 && { referencedDocuments: referenced }),
+    };
+  }
+
+  /**
+   * Validate OpenAPI specification (or Swagger 2.0 document)
+   */
+  private validateSpec(document: unknown): asserts document is JsonObject {
     const errors: string[] = [];
+    const spec = asObject(document);
 
-    if (!document.openapi) {
+    if (isSwagger2(spec)) {
+      if (spec.swagger !== '2.0') {
+        errors.push(`Unsupported Swagger version: ${spec.swagger}`);
+      }
+    } else if (!spec.openapi) {
       errors.push('Missing required field: openapi');
     }
+    const is31 = isOpenAPI31(spec);
 
-    if (!document.info) {
+    if (!isPlainObject(spec.info)) {
       errors.push('Missing required field: info');
     } else {
-      if (!document.info.title) {
+      if (!spec.info.title) {
         errors.push('Missing required field: info.title');
       }
-      if (!document.info.version) {
+      if (!spec.info.version) {
         errors.push('Missing required field: info.version');
       }
     }
 
-    if (!document.paths) {
+    // 3.1 documents may describe only webhooks or components
+    if (is31) {
+      if (!spec.paths && !spec.webhooks && !spec.components) {
+        errors.push('At least one of paths, webhooks or components is required');
+      }
+    } else if (!spec.paths) {
       errors.push('Missing required field: paths');
     }
 
@@ -196,11 +417,22 @@ export class OpenAPIImporter {
   /**
    * Extract specification data
    */
-  private extractSpecification(document: any): OpenAPISpecification {
+  private extractSpecification(document: JsonObject): OpenAPISpecification {
+    const security = document.security as SecurityRequirement[] | undefined;
+    const webhooks = this.extractEndpoints(asObject(document.webhooks), security);
     return {
-      info: this.extractInfo(document.info),
-      endpoints: this.extractEndpoints(document),
+      openapi: document.openapi as string | undefined,
+      info: this.extractInfo(asObject(document.info)),
+      servers: this.extractServers(document.servers),
+      security,
+      tags: document.tags as Tag[] | undefined,
+      externalDocs: document.externalDocs as ExternalDocs | undefined,
+      endpoints: this.extractEndpoints(asObject(document.paths), security),
+      ...(webhooks.length > 0 && { webhooks }),
       components: this.extractComponents(document.components),
+      ...(isOpenAPI31(document) && {
+        jsonSchemaDialect: (document.jsonSchemaDialect as string) || JSON_SCHEMA_2020_12,
+      }),
       raw: document,
     };
   }
@@ -208,28 +440,55 @@ export class OpenAPIImporter {
   /**
    * Extract API info
    */
-  private extractInfo(info: any): APIInfo {
+  private extractInfo(info: JsonObject): APIInfo {
     return {
-      title: info.title,
-      version: info.version,
-      description: info.description,
+      title: info.title as string,
+      version: info.version as string,
+      description: info.description as string | undefined,
     };
   }
 
   /**
-   * Extract all endpoints
+   * Extract servers, defaulting variables without a `default` to an empty string
    */
-  private extractEndpoints(document: any): Endpoint[] {
-    const endpoints: Endpoint[] = [];
-    const paths = document.paths || {};
+  private extractServers(servers: unknown): Server[] | undefined {
+    if (!Array.isArray(servers)) {
+      return undefined;
+    }
+
+    return servers.map(asObject).map((server) => ({
+      url: server.url as string,
+      description: server.description as string | undefined,
+      variables: isPlainObject(server.variables)
+        ? Object.fromEntries(
+            Object.entries(server.variables).map(([name, value]) => {
+              const variable = asObject(value);
+              return [
+                name,
+                {
+                  default: String(variable.default ?? ''),
+                  enum: variable.enum as string[] | undefined,
+                  description: variable.description as string | undefined,
+                },
+              ];
+            })
+          )
+        : undefined,
+    }));
+  }
 
-    for (const [path, pathItem] of Object.entries(paths)) {
-      const methods: HTTPMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+  /**
+   * Extract the operations of a map of path items (`paths` or `webhooks`)
+   */
+  private extractEndpoints(pathItems: JsonObject, security?: SecurityRequirement[]): Endpoint[] {
+    const endpoints: Endpoint[] = [];
 
-      for (const method of methods) {
-        const operation = (pathItem as any)[method.toLowerCase()];
-        if (operation) {
-          endpoints.push(this.extractEndpoint(path, method, operation));
+    for (const [path, value] of Object.entries(pathItems)) {
+      const pathItem = asObject(value);
+      for (const method of METHODS) {
+        const operation = pathItem[method.toLowerCase()];
+        if (isPlainObject(operation)) {
+          endpoints.push(this.extractEndpoint(path, method, operation, pathItem, security));
         }
       }
     }
@@ -240,93 +499,197 @@ export class OpenAPIImporter {
   /**
    * Extract single endpoint
    */
-  private extractEndpoint(path: string, method: HTTPMethod, operation: any): Endpoint {
+  private extractEndpoint(
+    path: string,
+    method: HTTPMethod,
+    operation: JsonObject,
+    pathItem: JsonObject,
+    security?: SecurityRequirement[]
+  ): Endpoint {
     return {
       path,
       method,
-      operationId: operation.operationId,
-      summary: operation.summary,
-      parameters: this.extractParameters(operation.parameters || []),
+      operationId: operation.operationId as string | undefined,
+      summary: (operation.summary ?? pathItem.summary) as string | undefined,
+      description: (operation.description ?? pathItem.description) as string | undefined,
+      tags: operation.tags as string[] | undefined,
+      deprecated: operation.deprecated as boolean | undefined,
+      security: (operation.security as SecurityRequirement[] | undefined) ?? security,
+      servers: this.extractServers(operation.servers ?? pathItem.servers),
+      parameters: this.extractParameters(
+        this.mergeParameters(
+          asArray(pathItem.parameters).map(asObject),
+          asArray(operation.parameters).map(asObject)
+        )
+      ),
       requestBody: this.extractRequestBody(operation.requestBody),
-      responses: this.extractResponses(operation.responses || {}),
+      responses: this.extractResponses(asObject(operation.responses)),
     };
   }
 
+  /**
+   * Combine path-level parameters with an operation's, which override them by `name` and `in`
+   */
+  private mergeParameters(
+    pathParameters: JsonObject[],
+    operationParameters: JsonObject[]
+  ): JsonObject[] {
+    const key = (param: JsonObject) => `${param.in}:${param.name}`;
+    const overridden = new Set(operationParameters.map(key));
+    return [
+      ...pathParameters.filter((param) => !overridden.has(key(param))),
+      ...operationParameters,
+    ];
+  }
+
   /**
    * Extract parameters
    */
-  private extractParameters(parameters: any[]): Parameter[] {
-    return parameters.map((param) => ({
-      name: param.name,
-      in: param.in,
-      required: param.required || false,
-      schema: param.schema || { type: 'string' },
-      description: param.description,
-    }));
+  private extractParameters(parameters: JsonObject[]): Parameter[] {
+    return parameters.map((param) => {
+      const content = param.content ? this.extractContent(asObject(param.content)) : undefined;
+      return {
+        name: param.name as string,
+        in: param.in as Parameter['in'],
+        required: Boolean(param.required),
+        schema: (param.schema as Schema) || content?.[0]?.schema || { type: 'string' },
+        description: param.description as string | undefined,
+        deprecated: param.deprecated as boolean | undefined,
+        style: param.style as string | undefined,
+        explode: param.explode as boolean | undefined,
+        allowReserved: param.allowReserved as boolean | undefined,
+        content,
+        example: param.example,
+        examples: this.extractExamples(param.examples),
+      };
+    });
   }
 
   /**
    * Extract request body
    */
-  private extractRequestBody(requestBody: any): RequestBody | undefined {
-    if (!requestBody) {
+  private extractRequestBody(requestBody: unknown): RequestBody | undefined {
+    if (!isPlainObject(requestBody)) {
       return undefined;
     }
 
-    const content: MediaType[] = [];
-    for (const [mimeType, mediaTypeObj] of Object.entries(requestBody.content || {})) {
-      content.push({
-        mimeType,
-        schema: (mediaTypeObj as any).schema,
-      });
-    }
-
     return {
-      required: requestBody.required || false,
-      content,
+      required: Boolean(requestBody.required),
+      content: this.extractContent(asObject(requestBody.content)),
     };
   }
 
   /**
    * Extract responses
    */
-  private extractResponses(responses: any): ResponseSchema[] {
+  private extractResponses(responses: JsonObject): ResponseSchema[] {
     const result: ResponseSchema[] = [];
 
-    for (const [statusCode, response] of Object.entries(responses)) {
-      const content: MediaType[] = [];
-
-      if ((response as any).content) {
-        for (const [mimeType, mediaTypeObj] of Object.entries((response as any).content)) {
-          content.push({
-            mimeType,
-            schema: (mediaTypeObj as any).schema,
-          });
-        }
-      }
+    for (const [statusCode, value] of Object.entries(responses)) {
+      const response = asObject(value);
+      const content = this.extractContent(asObject(response.content));
 
       result.push({
         statusCode,
-        description: (response as any).description || '',
+        description: (response.description as string) || '',
         content: content.length > 0 ? content : undefined,
+        headers: this.extractResponseHeaders(response.headers),
       });
     }
 
     return result;
   }
 
+  /**
+   * Extract media types from a content map
+   */
+  private extractContent(content: JsonObject): MediaType[] {
+    const result: MediaType[] = [];
+
+    for (const [mimeType, value] of Object.entries(content)) {
+      const mediaType = asObject(value);
+      result.push({
+        mimeType,
+        schema: mediaType.schema as Schema | undefined,
+        example: mediaType.example,
+        examples: this.extractExamples(mediaType.examples),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Map named Example Objects to their values
+   */
+  private extractExamples(examples: unknown): Record<string, unknown> | undefined {
+    if (!isPlainObject(examples)) {
+      return undefined;
+    }
+    return Object.fromEntries(
+      Object.entries(examples).map(([name, example]) => [name, asObject(example).value])
+    );
+  }
+
+  /**
+   * Extract response headers
+   */
+  private extractResponseHeaders(headers: unknown): Record<string, ResponseHeader> | undefined {
+    if (!isPlainObject(headers)) {
+      return undefined;
+    }
+
+    const result: Record<string, ResponseHeader> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      const header = asObject(value);
+      result[name] = {
+        required: Boolean(header.required),
+        schema: (header.schema as Schema) || { type: 'string' },
+        description: header.description as string | undefined,
+      };
+    }
+
+    return result;
+  }
+
   /**
    * Extract components
    */
-  private extractComponents(components: any): Components | undefined {
-    if (!components) {
+  private extractComponents(components: unknown): Components | undefined {
+    if (!isPlainObject(components)) {
       return undefined;
     }
 
     return {
-      schemas: components.schemas,
-      parameters: components.parameters,
-      responses: components.responses,
+      schemas: components.schemas as Components['schemas'],
+      parameters: components.parameters as Components['parameters'],
+      responses: components.responses as Components['responses'],
+      pathItems: components.pathItems as Components['pathItems'],
+      securitySchemes: components.securitySchemes as Components['securitySchemes'],
     };
   }
 }
+
+/**
+ * Expand a server URL template, using each variable's default unless a value is given
+ */
+export function resolveServerUrl(server: Server, values: Record<string, string> = {}): string {
+  return server.url.replace(/\{([^}]+)\}/g, (match, name) => {
+    const value = values[name] ?? server.variables?.[name]?.default;
+    return value === undefined ? match : value;
+  });
+}
+
+/**
+ * Types a schema allows, or an empty list when it does not restrict the type
+ */
+export function schemaTypes(schema?: Schema): string[] {
+  if (!schema?.type) {
+    return [];
+  }
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function isOpenAPI31(document: JsonObject): boolean {
+  return typeof document.openapi === 'string' && document.openapi.startsWith('3.1');
+}
@@ -0,0 +1,546 @@
+import { AnalysisResult, Finding, Suggestion } from '../types';
+import { Endpoint, MediaType, OpenAPISpecification, Schema } from './openapi-importer';
+import { resolveSchemaRef } from './schema-sampler';
+
+/**
+ * Type definitions
+ */
+export type LintSeverity = Finding['severity'];
+
+export type LintRuleId =
+  | 'MISSING_OPERATION_ID'
+  | 'DUPLICATE_OPERATION_ID'
+  | 'UNDOCUMENTED_ERROR_RESPONSES'
+  | 'UNDECLARED_PATH_PARAMETER'
+  | 'UNUSED_COMPONENT'
+  | 'MISSING_EXAMPLE'
+  | 'INCONSISTENT_CASING'
+  | 'MISSING_DESCRIPTION';
+
+export interface LintRule {
+  readonly id: LintRuleId;
+  readonly severity: LintSeverity;
+  readonly description: string;
+}
+
+export interface LintOptions {
+  /** Override a rule's severity, or turn it `off` */
+  readonly rules?: Partial<Record<LintRuleId, LintSeverity | 'off'>>;
+  /** Minimum severity to report */
+  readonly severity?: LintSeverity;
+  /** File path or URL the specification came from, reported in finding locations */
+  readonly source?: string;
+}
+
+type Report = (message: string, pointer: string) => void;
+
+export const LINT_RULES: readonly LintRule[] = [
+  {
+    id: 'MISSING_OPERATION_ID',
+    severity: 'medium',
+    description: 'Every operation has an operationId',
+  },
+  {
+    id: 'DUPLICATE_OPERATION_ID',
+    severity: 'high',
+    description: 'operationIds are unique across the specification',
+  },
+  {
+    id: 'UNDOCUMENTED_ERROR_RESPONSES',
+    severity: 'medium',
+    description: 'Operations document 4xx and 5xx responses (or a default response)',
+  },
+  {
+    id: 'UNDECLARED_PATH_PARAMETER',
+    severity: 'high',
+    description: 'Path template variables and path parameters match',
+  },
+  {
+    id: 'UNUSED_COMPONENT',
+    severity: 'low',
+    description: 'Every component is referenced',
+  },
+  {
+    id: 'MISSING_EXAMPLE',
+    severity: 'low',
+    description: 'Request bodies and success responses carry an example',
+  },
+  {
+    id: 'INCONSISTENT_CASING',
+    severity: 'low',
+    description: 'Path segments, parameter names and property names each use one casing style',
+  },
+  {
+    id: 'MISSING_DESCRIPTION',
+    severity: 'low',
+    description: 'The API, its operations and parameters are described',
+  },
+];
+
+const SEVERITY_LEVELS: LintSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+const COMPONENT_SECTIONS = [
+  'schemas',
+  'parameters',
+  'responses',
+  'requestBodies',
+  'headers',
+  'examples',
+  'links',
+  'callbacks',
+  'pathItems',
+];
+
+const CASING_STYLES: [string, RegExp][] = [
+  ['camelCase', /^[a-z][a-z0-9]*(?:[A-Z][a-z0-9]*)+$/],
+  ['PascalCase', /^(?:[A-Z][a-z0-9]*)+$/],
+  ['snake_case', /^[a-z][a-z0-9]*(?:_[a-z0-9]+)+$/],
+  ['kebab-case', /^[a-z][a-z0-9]*(?:-[a-z0-9]+)+$/],
+];
+
+/**
+ * OpenAPI Linter - Checks an imported specification against API design rules
+ */
+export class OpenAPILinter {
+  /**
+   * Lint a specification from OpenAPIImporter
+   */
+  lint(specification: OpenAPISpecification, options: LintOptions = {}): AnalysisResult {
+    const startTime = Date.now();
+    const findings: Finding[] = [];
+    const file = options.source || 'specification';
+
+    try {
+      if (!specification || !Array.isArray(specification.endpoints)) {
+        throw new Error('Specification must contain an endpoints array');
+      }
+      const active = this.activeRules(options);
+
+      for (const rule of active) {
+        const report: Report = (message, pointer) =>
+          findings.push({
+            type: rule.id,
+            severity: rule.severity,
+            location: { file, pointer },
+            message,
+          });
+        this.runRule(rule.id, specification, report);
+      }
+
+      const byRule = Object.fromEntries(
+        active.map((rule) => [rule.id, findings.filter((f) => f.type === rule.id).length])
+      );
+      const metrics = {
+        endpoints: specification.endpoints.length,
+        rulesEvaluated: active.length,
+        findingsByRule: byRule,
+      };
+
+      return {
+        status: 'success',
+        tool: 'lint_openapi',
+        data: {
+          summary: this.generateSummary(findings),
+          findings,
+          suggestions: active
+            .filter((rule) => byRule[rule.id] > 0)
+            .map((rule) => this.getSuggestionForRule(rule.id)),
+          metrics,
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          duration: Date.now() - startTime,
+          filesAnalyzed: 1,
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        status: 'error',
+        tool: 'lint_openapi',
+        data: {
+          summary: `Error linting specification: ${errorMessage}`,
+          findings: [],
+          suggestions: [],
+          metrics: {},
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          duration: Date.now() - startTime,
+          filesAnalyzed: 0,
+        },
+      };
+    }
+  }
+
+  /**
+   * Rules left on, with configured severities, at or above the minimum severity
+   */
+  private activeRules(options: LintOptions): LintRule[] {
+    const minimum = SEVERITY_LEVELS.indexOf(options.severity || 'low');
+    const rules: LintRule[] = [];
+
+    for (const rule of LINT_RULES) {
+      const configured = options.rules?.[rule.id];
+      if (configured === 'off') {
+        continue;
+      }
+      const severity = configured || rule.severity;
+      if (!SEVERITY_LEVELS.includes(severity)) {
+        throw new Error(`Invalid severity '${severity}' for lint rule ${rule.id}`);
+      }
+      if (SEVERITY_LEVELS.indexOf(severity) >= minimum) {
+        rules.push({ ...rule, severity });
+      }
+    }
+
+    return rules;
+  }
+
+  private runRule(id: LintRuleId, specification: OpenAPISpecification, report: Report): void {
+    switch (id) {
+      case 'MISSING_OPERATION_ID':
+        return this.checkOperationIds(specification.endpoints, report);
+      case 'DUPLICATE_OPERATION_ID':
+        return this.checkDuplicateOperationIds(specification.endpoints, report);
+      case 'UNDOCUMENTED_ERROR_RESPONSES':
+        return this.checkErrorResponses(specification.endpoints, report);
+      case 'UNDECLARED_PATH_PARAMETER':
+        return this.checkPathParameters(specification.endpoints, report);
+      case 'UNUSED_COMPONENT':
+        return this.checkUnusedComponents(specification.bundled ?? specification.raw, report);
+      case 'MISSING_EXAMPLE':
+        return this.checkExamples(specification, report);
+      case 'INCONSISTENT_CASING':
+        return this.checkCasing(specification, report);
+      case 'MISSING_DESCRIPTION':
+        return this.checkDescriptions(specification, report);
+    }
+  }
+
+  private checkOperationIds(endpoints: Endpoint[], report: Report): void {
+    for (const endpoint of endpoints) {
+      if (!endpoint.operationId) {
+        report(`${endpointName(endpoint)} has no operationId`, operationPointer(endpoint));
+      }
+    }
+  }
+
+  private checkDuplicateOperationIds(endpoints: Endpoint[], report: Report): void {
+    const seen = new Map<string, Endpoint>();
+    for (const endpoint of endpoints) {
+      if (!endpoint.operationId) {
+        continue;
+      }
+      const first = seen.get(endpoint.operationId);
+      if (first) {
+        report(
+          `operationId '${endpoint.operationId}' of ${endpointName(endpoint)} is already used by ${endpointName(first)}`,
+          `${operationPointer(endpoint)}/operationId`
+        );
+      } else {
+        seen.set(endpoint.operationId, endpoint);
+      }
+    }
+  }
+
+  private checkErrorResponses(endpoints: Endpoint[], report: Report): void {
+    for (const endpoint of endpoints) {
+      const codes = endpoint.responses.map((response) => response.statusCode.toUpperCase());
+      if (codes.includes('DEFAULT')) {
+        continue;
+      }
+      const missing = ['4', '5'].filter((digit) => !codes.some((code) => code.startsWith(digit)));
+      if (missing.length > 0) {
+        report(
+          `${endpointName(endpoint)} documents no ${missing.map((digit) => `${digit}xx`).join(' or ')} responses`,
+          `${operationPointer(endpoint)}/responses`
+        );
+      }
+    }
+  }
+
+  private checkPathParameters(endpoints: Endpoint[], report: Report): void {
+    for (const endpoint of endpoints) {
+      const template = Array.from(endpoint.path.matchAll(/\{([^}]+)\}/g), (match) => match[1]);
+      const declared = endpoint.parameters
+        .filter((param) => param.in === 'path')
+        .map((param) => param.name);
+
+      for (const name of template.filter((name) => !declared.includes(name))) {
+        report(
+          `Path variable '{${name}}' of ${endpointName(endpoint)} has no path parameter`,
+          `${operationPointer(endpoint)}/parameters`
+        );
+      }
+      for (const name of declared.filter((name) => !template.includes(name))) {
+        report(
+          `Path parameter '${name}' of ${endpointName(endpoint)} does not appear in the path`,
+          `${operationPointer(endpoint)}/parameters`
+        );
+      }
+    }
+  }
+
+  /**
+   * Components no `$ref` points at, outside the component itself. Looks at the
+   * bundled document, since a dereferenced one has no `$ref`s left.
+   */
+  private checkUnusedComponents(document: any, report: Report): void {
+    const components = document?.components || {};
+    for (const section of COMPONENT_SECTIONS) {
+      for (const name of Object.keys(components[section] || {})) {
+        const pointer = `/components/${section}/${escapePointer(name)}`;
+        if (!isReferenced(document, `#${pointer}`, pointer)) {
+          report(`Component ${section}.${name} is never referenced`, pointer);
+        }
+      }
+    }
+  }
+
+  private checkExamples(specification: OpenAPISpecification, report: Report): void {
+    const components = specification.components;
+    const hasExample = (media: MediaType) =>
+      media.example !== undefined ||
+      Object.keys(media.examples || {}).length > 0 ||
+      schemaHasExample(media.schema, components);
+
+    for (const endpoint of specification.endpoints) {
+      const pointer = operationPointer(endpoint);
+      for (const media of endpoint.requestBody?.content || []) {
+        if (!hasExample(media)) {
+          report(
+            `Request body '${media.mimeType}' of ${endpointName(endpoint)} has no example`,
+            `${pointer}/requestBody/content/${escapePointer(media.mimeType)}`
+          );
+        }
+      }
+      for (const response of endpoint.responses.filter((r) => /^2/.test(r.statusCode))) {
+        for (const media of response.content || []) {
+          if (!hasExample(media)) {
+            report(
+              `Response ${response.statusCode} '${media.mimeType}' of ${endpointName(endpoint)} has no example`,
+              `${pointer}/responses/${response.statusCode}/content/${escapePointer(media.mimeType)}`
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Flag names that do not follow the most common multi-word casing style of their kind
+   */
+  private checkCasing(specification: OpenAPISpecification, report: Report): void {
+    const segments = new Map<string, string>();
+    const parameters = new Map<string, string>();
+    for (const endpoint of specification.endpoints) {
+      for (const segment of endpoint.path.split('/')) {
+        if (segment && !segment.startsWith('{') && !segments.has(segment)) {
+          segments.set(segment, `/paths/${escapePointer(endpoint.path)}`);
+        }
+      }
+      for (const param of endpoint.parameters) {
+        if ((param.in === 'query' || param.in === 'path') && !parameters.has(param.name)) {
+          parameters.set(param.name, `${operationPointer(endpoint)}/parameters`);
+        }
+      }
+    }
+
+    const properties = new Map<string, string>();
+    for (const [name, schema] of Object.entries(specification.components?.schemas || {})) {
+      for (const property of Object.keys(schema?.properties || {})) {
+        if (!properties.has(property)) {
+          properties.set(
+            property,
+            `/components/schemas/${escapePointer(name)}/properties/${escapePointer(property)}`
+          );
+        }
+      }
+    }
+
+    for (const [kind, names] of [
+      ['Path segment', segments],
+      ['Parameter', parameters],
+      ['Property', properties],
+    ] as const) {
+      const styles = new Map<string, number>();
+      for (const name of names.keys()) {
+        const style = casingOf(name);
+        if (style) {
+          styles.set(style, (styles.get(style) || 0) + 1);
+        }
+      }
+      const dominant = [...styles.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+      if (!dominant) {
+        continue;
+      }
+      for (const [name, pointer] of names) {
+        const style = casingOf(name);
+        if (style && style !== dominant) {
+          report(`${kind} '${name}' is ${style}; most are ${dominant}`, pointer);
+        }
+      }
+    }
+  }
+
+  private checkDescriptions(specification: OpenAPISpecification, report: Report): void {
+    if (!specification.info.description) {
+      report('The API has no description', '/info');
+    }
+    for (const endpoint of specification.endpoints) {
+      if (!endpoint.summary && !endpoint.description) {
+        report(
+          `${endpointName(endpoint)} has no summary or description`,
+          operationPointer(endpoint)
+        );
+      }
+      for (const param of endpoint.parameters) {
+        if (!param.description) {
+          report(
+            `${capitalize(param.in)} parameter '${param.name}' of ${endpointName(endpoint)} has no description`,
+            `${operationPointer(endpoint)}/parameters`
+          );
+        }
+      }
+    }
+  }
+
+  private getSuggestionForRule(id: LintRuleId): Suggestion {
+    switch (id) {
+      case 'MISSING_OPERATION_ID':
+        return {
+          type: 'ADD_OPERATION_IDS',
+          priority: 'medium',
+          description: 'Give every operation a unique, verb-first operationId',
+          example: 'get:\n  operationId: listUsers',
+          impact: 'Generated clients and tests get stable method names',
+        };
+      case 'DUPLICATE_OPERATION_ID':
+        return {
+          type: 'RENAME_DUPLICATE_OPERATION_IDS',
+          priority: 'high',
+          description: 'Rename operations that share an operationId',
+          impact: 'Avoids clashing methods in generated clients',
+        };
+      case 'UNDOCUMENTED_ERROR_RESPONSES':
+        return {
+          type: 'DOCUMENT_ERROR_RESPONSES',
+          priority: 'medium',
+          description: 'Document the error responses clients should handle',
+          example:
+            "responses:\n  '400':\n    $ref: '#/components/responses/BadRequest'\n  default:\n    $ref: '#/components/responses/Error'",
+          impact: 'Clients can handle failures without guessing their shape',
+        };
+      case 'UNDECLARED_PATH_PARAMETER':
+        return {
+          type: 'DECLARE_PATH_PARAMETERS',
+          priority: 'high',
+          description: 'Declare one required path parameter for each {variable} in the path',
+          example:
+            'parameters:\n  - name: id\n    in: path\n    required: true\n    schema:\n      type: string',
+          impact: 'Requests to the path cannot be built without it',
+        };
+      case 'UNUSED_COMPONENT':
+        return {
+          type: 'REMOVE_UNUSED_COMPONENTS',
+          priority: 'low',
+          description: 'Remove components nothing references, or reference them where intended',
+          impact: 'Keeps the specification small and accurate',
+        };
+      case 'MISSING_EXAMPLE':
+        return {
+          type: 'ADD_EXAMPLES',
+          priority: 'low',
+          description: 'Add examples to request bodies and success responses',
+          example: "content:\n  application/json:\n    example:\n      id: 42\n      name: 'Ada'",
+          impact: 'Improves documentation, mock servers and generated tests',
+        };
+      case 'INCONSISTENT_CASING':
+        return {
+          type: 'UNIFY_CASING',
+          priority: 'low',
+          description:
+            'Pick one casing style per kind of name (e.g. kebab-case paths, camelCase properties)',
+          impact: 'Makes the API predictable to consume',
+        };
+      case 'MISSING_DESCRIPTION':
+        return {
+          type: 'ADD_DESCRIPTIONS',
+          priority: 'low',
+          description: 'Describe the API, each operation and each parameter',
+          impact: 'Reviewers and consumers understand the API without reading its code',
+        };
+    }
+  }
+
+  private generateSummary(findings: Finding[]): string {
+    if (findings.length === 0) {
+      return 'No lint findings. The specification follows all enabled rules.';
+    }
+
+    const parts = [...SEVERITY_LEVELS]
+      .reverse()
+      .map((level) => [level, findings.filter((f) => f.severity === level).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([level, count]) => `${count} ${level}`);
+    return `Found ${findings.length} lint finding(s): ${parts.join(', ')}`;
+  }
+}
+
+/**
+ * Whether a document holds a `$ref` to `ref` (or below it) outside of `ownPointer`
+ */
+function isReferenced(document: any, ref: string, ownPointer: string): boolean {
+  const walk = (node: any, pointer: string): boolean => {
+    if (pointer === ownPointer || node === null || typeof node !== 'object') {
+      return false;
+    }
+    if (typeof node.$ref === 'string' && (node.$ref === ref || node.$ref.startsWith(`${ref}/`))) {
+      return true;
+    }
+    return Object.entries(node).some(([key, value]) =>
+      walk(value, `${pointer}/${escapePointer(key)}`)
+    );
+  };
+  return walk(document, '');
+}
+
+function schemaHasExample(schema: Schema | undefined, components: any, depth = 0): boolean {
+  if (!schema || depth > 8) {
+    return false;
+  }
+  if (schema.$ref) {
+    return schemaHasExample(resolveSchemaRef(schema.$ref, components), components, depth + 1);
+  }
+  return (
+    schema.example !== undefined || (Array.isArray(schema.examples) && schema.examples.length > 0)
+  );
+}
+
+/**
+ * Casing style of a multi-word name; single lowercase words fit every style
+ */
+function casingOf(name: string): string | undefined {
+  if (/^[a-z0-9]+$/.test(name)) {
+    return undefined;
+  }
+  return CASING_STYLES.find(([, pattern]) => pattern.test(name))?.[0] || 'mixed case';
+}
+
+function operationPointer(endpoint: Endpoint): string {
+  return `/paths/${escapePointer(endpoint.path)}/${endpoint.method.toLowerCase()}`;
+}
+
+function endpointName(endpoint: Endpoint): string {
+  return `${endpoint.method} ${endpoint.path}`;
+}
+
+function escapePointer(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -123,7 +123,7 @@ export class PerformanceAnalyzer {
 
       return {
         status: 'success',
-        tool: 'analyze_performance',
+        tool: 'analyze_code_performance',
         data: {
           summary: this.generateSummary(findings, metrics),
           findings,
@@ -142,7 +142,7 @@ export class PerformanceAnalyzer {
 
       return {
         status: 'error',
-        tool: 'analyze_performance',
+        tool: 'analyze_code_performance',
         data: {
           summary: `Error analyzing file: ${errorMessage}`,
           findings: [],
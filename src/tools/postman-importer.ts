@@ -0,0 +1,719 @@
+import * as fs from 'fs/promises';
+import axios from 'axios';
+import { AuthConfig, Environment, TestWorkflow, WorkflowStep } from '../types';
+import { Collection, SavedRequest } from './collections';
+import {
+  asArray,
+  asObject,
+  asString,
+  headerValue,
+  isPlainObject,
+  JsonObject,
+  setDefaultHeader,
+  slugify,
+  uniqueName,
+} from './helpers';
+import { RequestConfig } from './http-request';
+import { interpolate } from './template';
+import { Assertion } from './workflow-runner';
+
+/**
+ * Custom error types
+ */
+export class PostmanImportError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'PostmanImportError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export interface PostmanImportResult {
+  readonly collection: Collection;
+  /** Collection and folder variables */
+  readonly environment: Environment;
+  /** Requests in collection order, with translated test scripts as assertion steps */
+  readonly workflow: TestWorkflow;
+  /** Everything that could not be translated */
+  readonly warnings: string[];
+}
+
+interface ImportContext {
+  readonly warnings: string[];
+  readonly variables: Record<string, string>;
+  readonly requests: SavedRequest[];
+  readonly steps: WorkflowStep[];
+  readonly stepIds: Set<string>;
+  /** Variables set by test scripts, mapped to the step output they came from */
+  readonly captures: Record<string, string>;
+  collectionAuth?: AuthConfig;
+  previousStep?: string;
+}
+
+interface TranslatedTests {
+  readonly assertions: Assertion[];
+  readonly captures: Record<string, string>;
+  readonly untranslated: string[];
+}
+
+const SCHEMA_PATTERN = /schema\.getpostman\.com\/json\/collection\/v2\.[01]/;
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+const EQUALITY = '(?:eql|equal|equals|eq|deep\\.equal|be\\.equal)';
+
+const JSON_EXPRESSION =
+  'pm\\.response\\.json\\(\\)(?:\\.[\\w$]+|\\[\\d+\\]|\\[[\'"][^\'"]+[\'"]\\])*';
+
+/**
+ * Postman Importer - Converts Postman v2.0/v2.1 collections into request collections
+ * and test workflows
+ */
+export class PostmanImporter {
+  /**
+   * Import a Postman collection from a file
+   */
+  async importFromFile(filePath: string): Promise<PostmanImportResult> {
+    let document: unknown;
+    try {
+      document = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new PostmanImportError(
+        `Failed to read Postman collection from file: ${filePath}`,
+        error as Error
+      );
+    }
+    return this.import(document);
+  }
+
+  /**
+   * Import a Postman collection from a URL
+   */
+  async importFromUrl(url: string): Promise<PostmanImportResult> {
+    let document: unknown;
+    try {
+      document = (await axios.get(url)).data;
+    } catch (error) {
+      throw new PostmanImportError(
+        `Failed to fetch Postman collection from URL: ${url}`,
+        error as Error
+      );
+    }
+    return this.import(document);
+  }
+
+  /**
+   * Convert a parsed Postman collection
+   */
+  import(document: unknown): PostmanImportResult {
+    // Exports from the Postman API wrap the collection in { collection }
+    const wrapped = asObject(asObject(document).collection);
+    const source = isPlainObject(wrapped.info) ? wrapped : document;
+    if (!isPlainObject(source) || !isPlainObject(source.info) || !Array.isArray(source.item)) {
+      throw new PostmanImportError('Not a Postman collection: missing info or item');
+    }
+    const info = source.info;
+    if (info.schema && !SCHEMA_PATTERN.test(String(info.schema))) {
+      throw new PostmanImportError(`Unsupported Postman collection schema: ${info.schema}`);
+    }
+
+    const title = asString(info.name) || 'postman-collection';
+    const context: ImportContext = {
+      warnings: [],
+      variables: {},
+      requests: [],
+      steps: [],
+      stepIds: new Set(),
+      captures: {},
+    };
+
+    this.collectVariables(source.variable, context, 'collection');
+    context.collectionAuth = this.convertAuth(source.auth, context, 'collection') || undefined;
+    this.warnScripts(source.event, context, 'collection', ['prerequest', 'test']);
+    this.convertItems(source.item, [], undefined, context);
+
+    const environment: Environment = { name: title, baseUrl: '', variables: context.variables };
+
+    return {
+      collection: {
+        name: slugify(title, 'postman-collection'),
+        description: descriptionText(info.description),
+        auth: context.collectionAuth,
+        variables: context.variables,
+        requests: context.requests,
+      },
+      environment,
+      workflow: {
+        id: slugify(title, 'postman-collection'),
+        name: title,
+        description:
+          descriptionText(info.description) || `Imported from Postman collection ${title}`,
+        steps: context.steps,
+        environment,
+      },
+      warnings: context.warnings,
+    };
+  }
+
+  /**
+   * Walk items depth-first; folders contribute their path, variables and auth
+   */
+  private convertItems(
+    items: unknown[],
+    folder: string[],
+    inheritedAuth: AuthConfig | null | undefined,
+    context: ImportContext
+  ): void {
+    for (const item of items.map(asObject)) {
+      const location = [...folder, asString(item.name) || 'Untitled'].join('/');
+
+      if (Array.isArray(item.item)) {
+        this.collectVariables(item.variable, context, `folder '${location}'`);
+        this.warnScripts(item.event, context, `folder '${location}'`, ['prerequest', 'test']);
+        const auth = this.convertAuth(item.auth, context, `folder '${location}'`);
+        this.warnNoAuth(item.auth, context, `folder '${location}'`);
+        this.convertItems(
+          item.item,
+          [...folder, asString(item.name) || 'Untitled'],
+          auth === undefined ? inheritedAuth : auth,
+          context
+        );
+        continue;
+      }
+
+      this.convertRequest(item, folder, inheritedAuth, context);
+    }
+  }
+
+  /**
+   * Convert a request item into a saved request and workflow steps
+   */
+  private convertRequest(
+    item: JsonObject,
+    folder: string[],
+    inheritedAuth: AuthConfig | null | undefined,
+    context: ImportContext
+  ): void {
+    const name = asString(item.name) || 'Untitled';
+    const label = `request '${[...folder, name].join('/')}'`;
+    const request: JsonObject =
+      typeof item.request === 'string' ? { url: item.request } : asObject(item.request);
+    const method = String(request.method || 'GET').toUpperCase();
+
+    if (!METHODS.includes(method)) {
+      context.warnings.push(`Skipped ${label}: unsupported method ${method}`);
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const header of asArray(request.header).filter(isPlainObject)) {
+      if (!header.disabled && header.key) {
+        headers[String(header.key)] = String(header.value ?? '');
+      }
+    }
+
+    const data = this.convertBody(request.body, headers, context, label);
+    const ownAuth = this.convertAuth(request.auth, context, label);
+    this.warnNoAuth(request.auth, context, label);
+    const auth = ownAuth === undefined ? inheritedAuth : ownAuth;
+
+    const config: RequestConfig = {
+      method: method as RequestConfig['method'],
+      url: this.convertUrl(request.url, context, label),
+      ...(Object.keys(headers).length > 0 && { headers }),
+      ...(data !== undefined && { data }),
+      ...(auth && { auth }),
+    };
+
+    context.requests.push({
+      name: uniqueName(name, context.requests),
+      ...(folder.length > 0 && { folder: folder.join('/') }),
+      ...(descriptionText(request.description) && {
+        description: descriptionText(request.description),
+      }),
+      ...config,
+    });
+
+    this.warnScripts(item.event, context, label, ['prerequest']);
+    // Workflows have no collection defaults, so the collection auth is inlined
+    const stepAuth = auth === null ? undefined : (config.auth ?? context.collectionAuth);
+    this.addSteps(item, name, label, { ...config, ...(stepAuth && { auth: stepAuth }) }, context);
+  }
+
+  /**
+   * Add the request step and, when its test script translates, an assertion step
+   */
+  private addSteps(
+    item: JsonObject,
+    name: string,
+    label: string,
+    config: RequestConfig,
+    context: ImportContext
+  ): void {
+    const id = uniqueId(slugify(name, 'postman-collection'), context.stepIds);
+    const captured = context.captures;
+    const stepConfig = interpolate(config, (expression) =>
+      captured[expression] ? `{{${captured[expression]}}}` : undefined
+    );
+
+    context.steps.push({
+      id,
+      type: 'request',
+      config: stepConfig,
+      ...(context.previousStep && { dependsOn: [context.previousStep] }),
+    });
+    context.previousStep = id;
+
+    const script = scriptLines(item.event, 'test');
+    if (script.length === 0) {
+      return;
+    }
+
+    const tests = translateTests(script, id);
+    Object.assign(context.captures, tests.captures);
+    for (const line of tests.untranslated) {
+      context.warnings.push(`Untranslated test script line in ${label}: ${line}`);
+    }
+    if (tests.assertions.length > 0) {
+      context.steps.push({
+        id: uniqueId(`${id}-tests`, context.stepIds),
+        type: 'assertion',
+        config: { assertions: tests.assertions },
+        dependsOn: [id],
+      });
+    }
+  }
+
+  /**
+   * Use the raw URL, substituting `:name` path variables
+   */
+  private convertUrl(url: unknown, context: ImportContext, label: string): string {
+    if (typeof url === 'string') {
+      return url;
+    }
+    if (!isPlainObject(url)) {
+      context.warnings.push(`${capitalize(label)} has no URL`);
+      return '';
+    }
+
+    let raw = asString(url.raw);
+    if (!raw) {
+      const host = Array.isArray(url.host) ? url.host.join('.') : url.host || '';
+      const path = Array.isArray(url.path) ? url.path.join('/') : url.path || '';
+      const query = asArray(url.query)
+        .filter(isPlainObject)
+        .filter((param) => !param.disabled)
+        .map((param) => `${param.key}=${param.value ?? ''}`)
+        .join('&');
+      raw = `${url.protocol ? `${url.protocol}://` : ''}${host}${path ? `/${path}` : ''}${query ? `?${query}` : ''}`;
+    }
+
+    for (const variable of asArray(url.variable).filter(isPlainObject)) {
+      const key = asString(variable.key);
+      if (key) {
+        const value =
+          variable.value !== undefined && variable.value !== ''
+            ? String(variable.value)
+            : `{{${key}}}`;
+        raw = raw.replace(new RegExp(`:${escapeRegExp(key)}(?=/|\\?|#|$)`, 'g'), value);
+      }
+    }
+    return raw;
+  }
+
+  /**
+   * Convert raw, urlencoded, form-data and GraphQL bodies
+   */
+  private convertBody(
+    body: unknown,
+    headers: Record<string, string>,
+    context: ImportContext,
+    label: string
+  ): unknown {
+    if (!isPlainObject(body) || !body.mode || body.disabled) {
+      return undefined;
+    }
+
+    const fields = (list: unknown) =>
+      Object.fromEntries(
+        asArray(list)
+          .filter(isPlainObject)
+          .filter((field) => !field.disabled && field.key)
+          .map((field) => [String(field.key), String(field.value ?? '')])
+      );
+
+    switch (body.mode) {
+      case 'raw': {
+        const raw = String(body.raw ?? '');
+        const isJson =
+          asObject(asObject(body.options).raw).language === 'json' ||
+          headerValue(headers, 'content-type')?.includes('json') === true;
+        if (!isJson) {
+          return raw;
+        }
+        setDefaultHeader(headers, 'Content-Type', 'application/json');
+        try {
+          return JSON.parse(raw);
+        } catch {
+          // Bodies with unquoted {{placeholders}} are not valid JSON until interpolated
+          return raw;
+        }
+      }
+
+      case 'urlencoded':
+        setDefaultHeader(headers, 'Content-Type', 'application/x-www-form-urlencoded');
+        return fields(body.urlencoded);
+
+      case 'formdata': {
+        const formdata = asArray(body.formdata).filter(isPlainObject);
+        const files = formdata.filter((field) => field.type === 'file');
+        if (files.length > 0) {
+          context.warnings.push(
+            `${capitalize(label)} uploads files (${files.map((f) => f.key).join(', ')}); file fields were dropped`
+          );
+        }
+        setDefaultHeader(headers, 'Content-Type', 'multipart/form-data');
+        return fields(formdata.filter((field) => field.type !== 'file'));
+      }
+
+      case 'graphql': {
+        setDefaultHeader(headers, 'Content-Type', 'application/json');
+        const graphql = asObject(body.graphql);
+        let variables: unknown;
+        try {
+          variables = graphql.variables ? JSON.parse(String(graphql.variables)) : undefined;
+        } catch {
+          context.warnings.push(
+            `${capitalize(label)} has GraphQL variables that are not valid JSON`
+          );
+        }
+        return { query: graphql.query ?? '', ...(variables ? { variables } : {}) };
+      }
+
+      default:
+        context.warnings.push(`${capitalize(label)} uses unsupported body mode '${body.mode}'`);
+        return undefined;
+    }
+  }
+
+  /**
+   * Saved requests fall back to the collection auth, which a disabled auth cannot express
+   */
+  private warnNoAuth(auth: unknown, context: ImportContext, label: string): void {
+    if (asObject(auth).type === 'noauth' && context.collectionAuth) {
+      context.warnings.push(
+        `${capitalize(label)} disables auth, but the collection auth still applies when it is run from the collection`
+      );
+    }
+  }
+
+  /**
+   * Convert a Postman auth block; null means auth is disabled or untranslatable
+   * and undefined means it is inherited
+   */
+  private convertAuth(
+    auth: unknown,
+    context: ImportContext,
+    label: string
+  ): AuthConfig | null | undefined {
+    if (!isPlainObject(auth) || !auth.type || auth.type === 'inherit') {
+      return undefined;
+    }
+    if (auth.type === 'noauth') {
+      return null;
+    }
+
+    const values = attributes(auth[String(auth.type)]);
+
+    switch (auth.type) {
+      case 'bearer':
+        return { type: 'bearer', credentials: { token: values.token ?? '' } };
+
+      case 'basic':
+        return {
+          type: 'basic',
+          credentials: { username: values.username ?? '', password: values.password ?? '' },
+        };
+
+      case 'apikey':
+        return {
+          type: 'apiKey',
+          credentials: {
+            name: values.key || 'X-API-Key',
+            key: values.value ?? '',
+            in: values.in === 'query' ? 'query' : 'header',
+          },
+        };
+
+      case 'oauth2': {
+        const grantType = values.grant_type || 'authorization_code';
+        if (grantType === 'client_credentials' && values.accessTokenUrl) {
+          return {
+            type: 'oauth2',
+            credentials: {
+              tokenUrl: values.accessTokenUrl,
+              ...(values.clientId && { clientId: values.clientId }),
+              ...(values.clientSecret && { clientSecret: values.clientSecret }),
+              ...(values.scope && { scope: values.scope }),
+              ...(values.client_authentication === 'header' && { clientAuth: 'basic' }),
+            },
+          };
+        }
+        if (values.accessToken) {
+          if (grantType !== 'client_credentials') {
+            context.warnings.push(
+              `OAuth2 grant '${grantType}' on ${label} cannot be automated; using its saved access token`
+            );
+          }
+          return {
+            type: 'oauth2',
+            credentials: {
+              accessToken: values.accessToken,
+              ...(values.headerPrefix && { tokenType: values.headerPrefix }),
+            },
+          };
+        }
+        context.warnings.push(`OAuth2 grant '${grantType}' on ${label} cannot be translated`);
+        return undefined;
+      }
+
+      default:
+        context.warnings.push(`Unsupported auth type '${auth.type}' on ${label}`);
+        return null;
+    }
+  }
+
+  /**
+   * Merge variables into the environment; later definitions win
+   */
+  private collectVariables(variables: unknown, context: ImportContext, label: string): void {
+    for (const variable of asArray(variables).filter(isPlainObject)) {
+      const key = asString(variable.key);
+      if (!key || variable.disabled) {
+        continue;
+      }
+      const value = String(variable.value ?? '');
+      if (key in context.variables && context.variables[key] !== value) {
+        context.warnings.push(`Variable '${key}' from ${label} overrides an earlier value`);
+      }
+      context.variables[key] = value;
+    }
+  }
+
+  private warnScripts(
+    events: unknown,
+    context: ImportContext,
+    label: string,
+    listens: string[]
+  ): void {
+    for (const listen of listens) {
+      if (scriptLines(events, listen).length > 0) {
+        const kind = listen === 'prerequest' ? 'Pre-request' : 'Test';
+        context.warnings.push(`${kind} script on ${label} was not translated`);
+      }
+    }
+  }
+}
+
+/**
+ * Translate common `pm.*` test assertions and variable captures; anything else
+ * is reported as untranslated
+ */
+export function translateTests(lines: string[], stepId: string): TranslatedTests {
+  const assertions: Assertion[] = [];
+  const captures: Record<string, string> = {};
+  const untranslated: string[] = [];
+  const aliases: string[] = [];
+  const output = `steps.${stepId}`;
+
+  for (const original of lines) {
+    let line = original.trim().replace(/;$/, '');
+    if (
+      !line ||
+      line.startsWith('//') ||
+      /^pm\.test\(.*(function\s*\(\)|=>)\s*\{$/.test(line) ||
+      /^\}\)*$/.test(line)
+    ) {
+      continue;
+    }
+
+    const alias = /^(?:var|let|const)\s+(\w+)\s*=\s*pm\.response\.json\(\)$/.exec(line);
+    if (alias) {
+      aliases.push(alias[1]);
+      continue;
+    }
+    for (const name of aliases) {
+      line = line.replace(new RegExp(`\\b${name}(?=[.\\[)])`, 'g'), 'pm.response.json()');
+    }
+    // Single-line pm.test("...", () => { ... }) wrappers
+    line = line.replace(/^pm\.test\(.*?(?:function\s*\(\)|=>)\s*\{\s*(.*?)\s*;?\s*\}\)$/, '$1');
+
+    let match: RegExpExecArray | null;
+    if ((match = /^pm\.response\.to\.have\.status\((\d+)\)$/.exec(line))) {
+      assertions.push(assertion(`${output}.status`, 'equals', Number(match[1]), original));
+    } else if (/^pm\.response\.to\.be\.ok$/.test(line)) {
+      assertions.push(assertion(`${output}.status`, 'equals', 200, original));
+    } else if (/^pm\.response\.to\.be\.success$/.test(line)) {
+      assertions.push(assertion(`${output}.status`, 'greaterThan', 199, original));
+      assertions.push(assertion(`${output}.status`, 'lessThan', 300, original));
+    } else if ((match = /^pm\.response\.to\.have\.header\((['"])(.+?)\1\)$/.exec(line))) {
+      assertions.push(
+        assertion(`${output}.headers.${match[2].toLowerCase()}`, 'exists', undefined, original)
+      );
+    } else if (
+      (match = new RegExp(
+        `^pm\\.expect\\(pm\\.response\\.code\\)\\.to\\.${EQUALITY}\\((\\d+)\\)$`
+      ).exec(line))
+    ) {
+      assertions.push(assertion(`${output}.status`, 'equals', Number(match[1]), original));
+    } else if (
+      (match = new RegExp(`^pm\\.expect\\((${JSON_EXPRESSION})\\)\\.to\\.(.+)$`).exec(line))
+    ) {
+      const translated = translateExpectation(
+        `${output}.data${jsonPath(match[1])}`,
+        match[2],
+        original
+      );
+      if (translated) {
+        assertions.push(...translated);
+      } else {
+        untranslated.push(original.trim());
+      }
+    } else if (
+      (match = new RegExp(
+        `^pm\\.(?:environment|collectionVariables|globals|variables)\\.set\\((['"])([^'"]+)\\1\\s*,\\s*(${JSON_EXPRESSION})\\)$`
+      ).exec(line))
+    ) {
+      captures[match[2]] = `${output}.data${jsonPath(match[3])}`;
+    } else if (
+      (match =
+        /^pm\.(?:environment|collectionVariables|globals|variables)\.set\((['"])([^'"]+)\1\s*,\s*pm\.response\.headers\.get\((['"])(.+?)\3\)\)$/.exec(
+          line
+        ))
+    ) {
+      captures[match[2]] = `${output}.headers.${match[4].toLowerCase()}`;
+    } else {
+      untranslated.push(original.trim());
+    }
+  }
+
+  return { assertions, captures, untranslated };
+}
+
+function translateExpectation(
+  path: string,
+  chain: string,
+  source: string
+): Assertion[] | undefined {
+  let match: RegExpExecArray | null;
+  if ((match = new RegExp(`^${EQUALITY}\\((.+)\\)$`).exec(chain))) {
+    const expected = parseLiteral(match[1]);
+    return expected.ok ? [assertion(path, 'equals', expected.value, source)] : undefined;
+  }
+  if ((match = /^(?:include|contain|includes|contains)\((.+)\)$/.exec(chain))) {
+    const expected = parseLiteral(match[1]);
+    return expected.ok ? [assertion(path, 'contains', expected.value, source)] : undefined;
+  }
+  if ((match = /^(?:be\.)?(above|greaterThan|gt|below|lessThan|lt)\((-?[\d.]+)\)$/.exec(chain))) {
+    const operator = ['above', 'greaterThan', 'gt'].includes(match[1]) ? 'greaterThan' : 'lessThan';
+    return [assertion(path, operator, Number(match[2]), source)];
+  }
+  if ((match = /^match\(\/(.+)\/\)$/.exec(chain))) {
+    return [assertion(path, 'matches', match[1], source)];
+  }
+  if (/^(?:exist|be\.ok|not\.be\.undefined|not\.be\.null)$/.test(chain)) {
+    return [assertion(path, 'exists', undefined, source)];
+  }
+  if (/^(?:not\.exist|be\.undefined)$/.test(chain)) {
+    return [assertion(path, 'notExists', undefined, source)];
+  }
+  return undefined;
+}
+
+function assertion(
+  path: string,
+  operator: Assertion['operator'],
+  expected: unknown,
+  source: string
+): Assertion {
+  return {
+    actual: `{{${path}}}`,
+    operator,
+    ...(expected !== undefined && { expected }),
+    message: `Postman test failed: ${source.trim()}`,
+  };
+}
+
+/**
+ * Turn `pm.response.json().items[0]["id"]` into `.items.0.id`
+ */
+function jsonPath(expression: string): string {
+  return expression
+    .replace(/^pm\.response\.json\(\)/, '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .replace(/\[['"]([^'"]+)['"]\]/g, '.$1');
+}
+
+function parseLiteral(text: string): { ok: boolean; value?: unknown } {
+  const trimmed = text.trim();
+  const normalized = /^'.*'$/.test(trimmed) ? JSON.stringify(trimmed.slice(1, -1)) : trimmed;
+  try {
+    return { ok: true, value: JSON.parse(normalized) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+function scriptLines(events: unknown, listen: string): string[] {
+  const lines: string[] = [];
+  for (const event of asArray(events).filter(isPlainObject)) {
+    if (event.listen === listen && !event.disabled) {
+      const exec = asObject(event.script).exec;
+      const source = Array.isArray(exec) ? exec.join('\n') : String(exec ?? '');
+      lines.push(...source.split('\n'));
+    }
+  }
+  return lines.some((line) => line.trim() && !line.trim().startsWith('//')) ? lines : [];
+}
+
+function attributes(list: unknown): Record<string, string> {
+  if (Array.isArray(list)) {
+    return Object.fromEntries(
+      list
+        .filter(isPlainObject)
+        .filter((entry) => entry.key)
+        .map((entry) => [String(entry.key), String(entry.value ?? '')])
+    );
+  }
+  // Postman v2.0 stores auth attributes as a plain object
+  return isPlainObject(list) ? (list as Record<string, string>) : {};
+}
+
+function descriptionText(description: unknown): string | undefined {
+  if (!description) {
+    return undefined;
+  }
+  return typeof description === 'string' ? description : asString(asObject(description).content);
+}
+
+function uniqueId(base: string, used: Set<string>): string {
+  let candidate = base || 'step';
+  for (let i = 2; used.has(candidate); i++) {
+    candidate = `${base}-${i}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,270 @@
+import * as path from 'path';
+import { isPlainObject, JsonObject } from './helpers';
+
+/**
+ * Custom error types
+ */
+export class RefResolutionError extends Error {
+  constructor(
+    message: string,
+    public readonly ref?: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'RefResolutionError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+
+/** Load and parse the document at an absolute file path or URL */
+export type DocumentLoader = (uri: string) => Promise<unknown>;
+
+export interface DereferenceResult {
+  readonly document: unknown;
+  /** References left in place because they point back into their own definition */
+  readonly circular: string[];
+}
+
+const SCHEMA_COMPONENT_PREFIX = '#/components/schemas/';
+
+/**
+ * Pull every external reference (relative file or URL) into a single document.
+ *
+ * External targets are inlined; targets that refer back to themselves are moved
+ * to the schemas section (`components.schemas`, or `definitions` for Swagger 2.0)
+ * so the cycle can be expressed as an internal reference. Internal references of
+ * the root document are left as they are.
+ */
+export async function bundleDocument(
+  document: unknown,
+  baseUri: string,
+  loader: DocumentLoader,
+  schemasPath: string[] = ['components', 'schemas']
+): Promise<unknown> {
+  const documents = new Map<string, Promise<unknown>>([[baseUri, Promise.resolve(document)]]);
+  const hoisted = new Map<string, string>();
+  const schemas: JsonObject = {};
+  const taken = new Set(Object.keys(getIn(document, schemasPath)));
+  const prefix = `#/${schemasPath.join('/')}/`;
+
+  const load = (uri: string): Promise<unknown> => {
+    let loaded = documents.get(uri);
+    if (!loaded) {
+      loaded = loader(uri).catch((error) => {
+        throw new RefResolutionError(
+          `Failed to load referenced document ${uri}: ${error instanceof Error ? error.message : error}`,
+          uri,
+          error as Error
+        );
+      });
+      documents.set(uri, loaded);
+    }
+    return loaded;
+  };
+
+  const walk = async (node: unknown, uri: string, stack: string[]): Promise<unknown> => {
+    if (Array.isArray(node)) {
+      const items: unknown[] = [];
+      for (const item of node) {
+        items.push(await walk(item, uri, stack));
+      }
+      return items;
+    }
+    if (!isPlainObject(node)) {
+      return node;
+    }
+
+    if (typeof node.$ref === 'string') {
+      const target = splitRef(node.$ref, uri);
+      if (target.uri === baseUri) {
+        return uri === baseUri ? node : { ...node, $ref: `#${target.pointer}` };
+      }
+
+      const key = `${target.uri}#${target.pointer}`;
+      if (stack.includes(key)) {
+        return { $ref: `${prefix}${hoist(key)}` };
+      }
+
+      const value = resolvePointer(await load(target.uri), target.pointer, node.$ref);
+      const resolved = withSiblings(await walk(value, target.uri, [...stack, key]), node);
+      if (hoisted.has(key)) {
+        schemas[hoisted.get(key)!] = resolved;
+        return { $ref: `${prefix}${hoisted.get(key)}` };
+      }
+      return resolved;
+    }
+
+    const result: JsonObject = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = await walk(value, uri, stack);
+    }
+    return result;
+  };
+
+  const hoist = (key: string): string => {
+    let name = hoisted.get(key);
+    if (!name) {
+      const base = componentName(key);
+      name = base;
+      for (let i = 2; taken.has(name); i++) {
+        name = `${base}${i}`;
+      }
+      taken.add(name);
+      hoisted.set(key, name);
+    }
+    return name;
+  };
+
+  const bundled = await walk(document, baseUri, []);
+  if (Object.keys(schemas).length === 0) {
+    return bundled;
+  }
+  return setIn(bundled, schemasPath, { ...getIn(bundled, schemasPath), ...schemas });
+}
+
+/**
+ * Replace internal references with their targets.
+ *
+ * References for which `keep` returns true are checked and left in place. A
+ * reference met again while its own target is being expanded is circular; it is
+ * left in place so the result stays a finite tree that serializes to JSON.
+ */
+export function dereferenceDocument(
+  document: unknown,
+  keep: (ref: string) => boolean = () => false
+): DereferenceResult {
+  const circular = new Set<string>();
+
+  const walk = (node: unknown, stack: string[]): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item) => walk(item, stack));
+    }
+    if (!isPlainObject(node)) {
+      return node;
+    }
+
+    if (typeof node.$ref === 'string') {
+      const ref: string = node.$ref;
+      if (!ref.startsWith('#')) {
+        throw new RefResolutionError(`Unbundled external reference: ${ref}`, ref);
+      }
+      const value = resolvePointer(document, ref.slice(1), ref);
+      if (keep(ref)) {
+        return node;
+      }
+      if (stack.includes(ref)) {
+        circular.add(ref);
+        return node;
+      }
+      return withSiblings(walk(value, [...stack, ref]), node);
+    }
+
+    const result: JsonObject = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = walk(value, stack);
+    }
+    return result;
+  };
+
+  return { document: walk(document, []), circular: Array.from(circular).sort() };
+}
+
+/**
+ * Whether a reference points at a reusable schema, which schema consumers resolve themselves
+ */
+export function isSchemaComponentRef(ref: string): boolean {
+  return ref.startsWith(SCHEMA_COMPONENT_PREFIX);
+}
+
+/**
+ * Look up a JSON Pointer (RFC 6901) in a document
+ */
+export function resolvePointer(document: unknown, pointer: string, ref = `#${pointer}`): unknown {
+  let value = document;
+  if (pointer) {
+    for (const segment of pointer.replace(/^\//, '').split('/')) {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      if (isPlainObject(value)) {
+        value = value[key];
+      } else if (Array.isArray(value)) {
+        value = value[Number(key)];
+      } else {
+        value = undefined;
+        break;
+      }
+    }
+  }
+  if (value === undefined) {
+    throw new RefResolutionError(`Unresolved reference: ${ref}`, ref);
+  }
+  return value;
+}
+
+/**
+ * Split a reference into the absolute URI of its document and a JSON Pointer
+ */
+function splitRef(ref: string, baseUri: string): { uri: string; pointer: string } {
+  const hash = ref.indexOf('#');
+  const target = hash === -1 ? ref : ref.slice(0, hash);
+  const pointer = hash === -1 ? '' : ref.slice(hash + 1);
+  return { uri: target ? resolveUri(target, baseUri) : baseUri, pointer };
+}
+
+function resolveUri(target: string, baseUri: string): string {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(target)) {
+    return target;
+  }
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(baseUri)) {
+    return new URL(target, baseUri).href;
+  }
+  return path.resolve(path.dirname(baseUri), target);
+}
+
+/**
+ * Name for a hoisted schema: the last pointer segment, or the file name without extension
+ */
+function componentName(key: string): string {
+  const [uri, pointer] = key.split('#');
+  const segment = pointer ? pointer.split('/').pop() : path.basename(uri).replace(/\.[^.]*$/, '');
+  return (segment || 'Schema').replace(/[^\w.-]/g, '_');
+}
+
+/**
+ * Keep keywords written next to `$ref` (e.g. `description`), which override the target's
+ */
+function withSiblings(resolved: unknown, node: JsonObject): unknown {
+  const siblings = Object.keys(node).filter((key) => key !== '$ref');
+  if (siblings.length === 0 || !isPlainObject(resolved)) {
+    return resolved;
+  }
+  return {
+    ...resolved,
+    ...Object.fromEntries(siblings.map((key) => [key, node[key]])),
+  };
+}
+
+/**
+ * Copy of `node` with the value at `keys` replaced
+ */
+function setIn(node: unknown, keys: string[], value: unknown): unknown {
+  if (keys.length === 0) {
+    return value;
+  }
+  const [key, ...rest] = keys;
+  const object = isPlainObject(node) ? node : {};
+  return { ...object, [key]: setIn(object[key], rest, value) };
+}
+
+/**
+ * The object at `keys`, or an empty object when there is none
+ */
+function getIn(node: unknown, keys: string[]): JsonObject {
+  const value = keys.reduce<unknown>(
+    (current, key) => (isPlainObject(current) ? current[key] : undefined),
+    node
+  );
+  return isPlainObject(value) ? value : {};
+}
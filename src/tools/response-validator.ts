@@ -0,0 +1,461 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import Ajv2019 from 'ajv/dist/2019';
+import Ajv2020 from 'ajv/dist/2020';
+import { asObject, asString, headerValue, isPlainObject, JsonObject } from './helpers';
+import { Response } from './http-request';
+import {
+  Components,
+  Endpoint,
+  MediaType,
+  ResponseHeader,
+  ResponseSchema,
+} from './openapi-importer';
+
+/**
+ * Custom error types
+ */
+export class ResponseValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export type ViolationLocation = 'status' | 'headers' | 'body';
+
+export interface Violation {
+  readonly location: ViolationLocation;
+  /** JSON Pointer into the response, e.g. `/body/items/0/id` */
+  readonly path: string;
+  readonly keyword: string;
+  readonly message: string;
+  readonly expected?: unknown;
+  readonly actual?: unknown;
+}
+
+export interface ResponseValidationResult {
+  readonly valid: boolean;
+  readonly violations: Violation[];
+  /** Status code entry of the endpoint the response was matched against */
+  readonly matchedStatusCode?: string;
+  /** Media type of the endpoint the body was validated against */
+  readonly matchedMediaType?: string;
+}
+
+export interface ValidateResponseOptions {
+  /** Explicit JSON Schema for the response body */
+  readonly schema?: JsonObject;
+  /** Endpoint from OpenAPIImporter whose declared responses are used */
+  readonly endpoint?: Endpoint;
+  /** Expected status code; selects the endpoint response entry when given */
+  readonly statusCode?: number | string;
+  /** Expected headers, merged over those declared by the endpoint response */
+  readonly headers?: Record<string, ResponseHeader>;
+  /** Components used to resolve `#/components/...` references */
+  readonly components?: Components;
+  /**
+   * JSON Schema dialect of the schemas (`jsonSchemaDialect` of an OpenAPI 3.1
+   * specification). Defaults to the schema's `$schema`, then draft-07 with
+   * OpenAPI 3.0 `nullable` support.
+   */
+  readonly dialect?: string;
+}
+
+type Draft = 'draft-07' | '2019-09' | '2020-12';
+
+const DIALECT_DRAFTS: Record<string, Draft> = {
+  'http://json-schema.org/draft-07/schema': 'draft-07',
+  'https://json-schema.org/draft/2019-09/schema': '2019-09',
+  'https://json-schema.org/draft/2020-12/schema': '2020-12',
+  'https://spec.openapis.org/oas/3.1/dialect/base': '2020-12',
+};
+
+/**
+ * Response Validator - Checks responses against JSON Schema and OpenAPI responses
+ */
+export class ResponseValidator {
+  /** Body and header (type-coercing) validators, created per draft on first use */
+  private readonly validators = new Map<Draft, { body: Ajv; headers: Ajv }>();
+  /** Compiled schemas per Ajv instance, keyed by the components and then the schema object */
+  private readonly compiled = new WeakMap<
+    Ajv,
+    WeakMap<object, WeakMap<object, ValidateFunction>>
+  >();
+
+  /**
+   * Validate a response from executeRequest()
+   */
+  validate(response: Response, options: ValidateResponseOptions): ResponseValidationResult {
+    if (!options.schema && !options.endpoint) {
+      throw new ResponseValidationError('Either a schema or an endpoint is required');
+    }
+
+    const violations: Violation[] = [];
+    const expectedStatus =
+      options.statusCode !== undefined ? String(options.statusCode) : undefined;
+
+    if (expectedStatus !== undefined && !this.statusMatches(expectedStatus, response.status)) {
+      violations.push({
+        location: 'status',
+        path: '/status',
+        keyword: 'status',
+        message: `Expected status ${expectedStatus} but received ${response.status}`,
+        expected: expectedStatus,
+        actual: response.status,
+      });
+    }
+
+    let declared: ResponseSchema | undefined;
+    let bodySchema = options.schema;
+    let mediaType: MediaType | undefined;
+
+    if (options.endpoint) {
+      declared = this.findResponse(options.endpoint, expectedStatus ?? String(response.status));
+
+      if (!declared) {
+        violations.push({
+          location: 'status',
+          path: '/status',
+          keyword: 'status',
+          message: `Status ${response.status} is not declared for ${options.endpoint.method} ${options.endpoint.path}`,
+          expected: options.endpoint.responses.map((r) => r.statusCode),
+          actual: response.status,
+        });
+      } else if (declared.content && declared.content.length > 0) {
+        const contentType = headerValue(response.headers, 'content-type');
+        mediaType = this.findMediaType(declared.content, contentType);
+
+        if (!mediaType) {
+          violations.push({
+            location: 'headers',
+            path: '/headers/content-type',
+            keyword: 'contentType',
+            message: `Content type '${contentType ?? ''}' is not declared for status ${declared.statusCode}`,
+            expected: declared.content.map((m) => m.mimeType),
+            actual: contentType,
+          });
+        } else if (!bodySchema) {
+          bodySchema = mediaType.schema;
+        }
+      }
+    }
+
+    const draft = this.resolveDraft(options.dialect ?? asString(bodySchema?.$schema));
+    const { body, headers } = this.getValidators(draft);
+
+    const expectedHeaders = { ...(declared?.headers || {}), ...(options.headers || {}) };
+    violations.push(
+      ...this.validateHeaders(headers, response.headers, expectedHeaders, options.components)
+    );
+
+    if (bodySchema) {
+      violations.push(...this.validateBody(body, response.data, bodySchema, options.components));
+    }
+
+    return {
+      valid: violations.length === 0,
+      violations,
+      matchedStatusCode: declared?.statusCode,
+      matchedMediaType: mediaType?.mimeType,
+    };
+  }
+
+  /**
+   * Map a dialect URI to the JSON Schema draft used to validate
+   */
+  private resolveDraft(dialect?: string): Draft {
+    if (!dialect) {
+      return 'draft-07';
+    }
+    const draft = DIALECT_DRAFTS[dialect.replace(/#$/, '')];
+    if (!draft) {
+      throw new ResponseValidationError(`Unsupported JSON Schema dialect: ${dialect}`);
+    }
+    return draft;
+  }
+
+  private getValidators(draft: Draft): { body: Ajv; headers: Ajv } {
+    let validators = this.validators.get(draft);
+    if (!validators) {
+      validators = { body: this.createAjv(draft, false), headers: this.createAjv(draft, true) };
+      this.validators.set(draft, validators);
+    }
+    return validators;
+  }
+
+  /**
+   * Create an Ajv instance for a draft, tolerant of OpenAPI-specific keywords
+   */
+  private createAjv(draft: Draft, coerceTypes: boolean): Ajv {
+    const AjvClass = draft === '2020-12' ? Ajv2020 : draft === '2019-09' ? Ajv2019 : Ajv;
+    const ajv = new AjvClass({ allErrors: true, strict: false, coerceTypes, logger: false });
+    ajv.addFormat('date-time', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i);
+    ajv.addFormat('date', /^\d{4}-\d{2}-\d{2}$/);
+    ajv.addFormat('email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/);
+    ajv.addFormat('uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i);
+    ajv.addFormat('uri', /^[a-z][a-z0-9+.-]*:[^\s]*$/i);
+    return ajv;
+  }
+
+  /**
+   * Check a status code against an OpenAPI status key ("200", "2XX", "default")
+   */
+  private statusMatches(statusKey: string, status: number): boolean {
+    if (statusKey === 'default') {
+      return true;
+    }
+    if (/^[1-5]XX$/i.test(statusKey)) {
+      return Math.floor(status / 100) === Number(statusKey[0]);
+    }
+    return Number(statusKey) === status;
+  }
+
+  /**
+   * Find the declared response for a status, preferring exact codes over ranges over default
+   */
+  private findResponse(endpoint: Endpoint, statusKey: string): ResponseSchema | undefined {
+    const responses = endpoint.responses;
+    const exact = responses.find((r) => r.statusCode === statusKey);
+    if (exact) {
+      return exact;
+    }
+
+    const status = Number(statusKey);
+    if (Number.isNaN(status)) {
+      return undefined;
+    }
+
+    return (
+      responses.find(
+        (r) => /^[1-5]XX$/i.test(r.statusCode) && this.statusMatches(r.statusCode, status)
+      ) || responses.find((r) => r.statusCode === 'default')
+    );
+  }
+
+  /**
+   * Find the declared media type matching a Content-Type header
+   */
+  private findMediaType(content: MediaType[], contentType?: string): MediaType | undefined {
+    if (!contentType) {
+      return content.length === 1 ? content[0] : undefined;
+    }
+
+    const [type] = contentType.split(';').map((part) => part.trim().toLowerCase());
+    const [major] = type.split('/');
+
+    return (
+      content.find((m) => m.mimeType.toLowerCase() === type) ||
+      content.find((m) => m.mimeType.toLowerCase() === `${major}/*`) ||
+      content.find((m) => m.mimeType === '*/*')
+    );
+  }
+
+  /**
+   * Validate response headers
+   */
+  private validateHeaders(
+    ajv: Ajv,
+    actual: JsonObject,
+    expected: Record<string, ResponseHeader>,
+    components?: Components
+  ): Violation[] {
+    const violations: Violation[] = [];
+
+    for (const [name, header] of Object.entries(expected)) {
+      const path = `/headers/${this.escapePointer(name.toLowerCase())}`;
+      const value = headerValue(actual, name);
+
+      if (value === undefined) {
+        if (header.required) {
+          violations.push({
+            location: 'headers',
+            path,
+            keyword: 'required',
+            message: `Missing required header '${name}'`,
+          });
+        }
+        continue;
+      }
+
+      const wrapper = { type: 'object', properties: { value: header.schema } };
+      const validateFn = this.compile(ajv, wrapper, components, header.schema);
+      if (!validateFn({ value })) {
+        for (const error of validateFn.errors || []) {
+          violations.push(
+            this.toViolation('headers', path, error, error.instancePath.replace(/^\/value/, ''))
+          );
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Validate response body against a schema
+   */
+  private validateBody(
+    ajv: Ajv,
+    data: unknown,
+    schema: JsonObject,
+    components?: Components
+  ): Violation[] {
+    const validateFn = this.compile(ajv, schema, components);
+    if (validateFn(data)) {
+      return [];
+    }
+
+    return (validateFn.errors || []).map((error) =>
+      this.toViolation('body', '/body', error, error.instancePath)
+    );
+  }
+
+  /**
+   * Compile a schema, attaching components so that `#/components/...` references resolve.
+   * Validators are reused for the same schema object (`key`, default the schema itself)
+   * and components, and dropped with them.
+   */
+  private compile(
+    ajv: Ajv,
+    schema: object,
+    components: Components | undefined,
+    key: object = schema
+  ): ValidateFunction {
+    let bySpec = this.compiled.get(ajv);
+    if (!bySpec) {
+      bySpec = new WeakMap();
+      this.compiled.set(ajv, bySpec);
+    }
+    let cache = bySpec.get(components || NO_COMPONENTS);
+    if (!cache) {
+      cache = new WeakMap();
+      bySpec.set(components || NO_COMPONENTS, cache);
+    }
+    const cached = cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    // The draft is already chosen; `$schema` may name a dialect Ajv has no meta-schema for
+    const root = asObject(normalizeSchema(schema));
+    delete root.$schema;
+    if (components?.schemas) {
+      root.components = {
+        ...components,
+        schemas: Object.fromEntries(
+          Object.entries(components.schemas).map(([name, sub]) => [name, normalizeSchema(sub)])
+        ),
+      };
+    }
+
+    try {
+      // Ajv rejects a second schema with the same `$id`, e.g. from a re-imported specification
+      if (typeof root.$id === 'string' && ajv.getSchema(root.$id)) {
+        ajv.removeSchema(root.$id);
+      }
+      const validateFn = ajv.compile(root);
+      cache.set(key, validateFn);
+      return validateFn;
+    } catch (error) {
+      throw new ResponseValidationError('Failed to compile response schema', error as Error);
+    }
+  }
+
+  /**
+   * Convert an Ajv error into a violation
+   */
+  private toViolation(
+    location: ViolationLocation,
+    prefix: string,
+    error: ErrorObject,
+    instancePath: string
+  ): Violation {
+    let path = `${prefix}${instancePath}`;
+    if (error.keyword === 'required') {
+      path += `/${this.escapePointer(error.params.missingProperty)}`;
+    } else if (error.keyword === 'additionalProperties') {
+      path += `/${this.escapePointer(error.params.additionalProperty)}`;
+    }
+
+    return {
+      location,
+      path,
+      keyword: error.keyword,
+      message: error.message || 'is invalid',
+      expected: error.params,
+      actual: error.data,
+    };
+  }
+
+  /**
+   * Escape a JSON Pointer reference token
+   */
+  private escapePointer(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+}
+
+/** Cache key for schemas validated without components */
+const NO_COMPONENTS = {};
+
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', 'definitions', '$defs'];
+const SCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+const SCHEMA_KEYWORDS = [
+  'items',
+  'additionalProperties',
+  'not',
+  'if',
+  'then',
+  'else',
+  'contains',
+  'propertyNames',
+  'unevaluatedProperties',
+  'unevaluatedItems',
+];
+const OPENAPI_ONLY_KEYWORDS = ['nullable', 'example', 'discriminator', 'xml', 'externalDocs'];
+
+/**
+ * Convert OpenAPI 3.0 schema extensions (such as `nullable`) into plain JSON Schema
+ */
+export function normalizeSchema(schema: unknown): unknown {
+  if (!isPlainObject(schema)) {
+    return schema;
+  }
+
+  const result: JsonObject = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (OPENAPI_ONLY_KEYWORDS.includes(key)) {
+      continue;
+    }
+    if (SCHEMA_MAP_KEYWORDS.includes(key) && value && typeof value === 'object') {
+      result[key] = Object.fromEntries(
+        Object.entries(value).map(([name, sub]) => [name, normalizeSchema(sub)])
+      );
+    } else if (SCHEMA_LIST_KEYWORDS.includes(key) && Array.isArray(value)) {
+      result[key] = value.map((sub) => normalizeSchema(sub));
+    } else if (SCHEMA_KEYWORDS.includes(key)) {
+      result[key] = Array.isArray(value)
+        ? value.map((sub) => normalizeSchema(sub))
+        : normalizeSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  if (schema.nullable === true) {
+    if (typeof result.type === 'string') {
+      result.type = [result.type, 'null'];
+    }
+    if (Array.isArray(result.enum) && !result.enum.includes(null)) {
+      result.enum = [...result.enum, null];
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,114 @@
+import { headerValue } from './helpers';
+
+/**
+ * Type definitions
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one (default 3) */
+  readonly maxAttempts?: number;
+  /** Delay before the first retry in milliseconds; doubles on every retry (default 200) */
+  readonly baseDelay?: number;
+  /** Upper bound for the exponential backoff delay in milliseconds (default 5000) */
+  readonly maxDelay?: number;
+  /** Share of each delay that is randomized, between 0 and 1 (default 0.5) */
+  readonly jitter?: number;
+  /** Status codes that trigger a retry */
+  readonly retryOnStatus?: number[];
+  /** Network error codes (e.g. ECONNRESET) that trigger a retry */
+  readonly retryOnErrors?: string[];
+  /** Retry POST and PATCH requests too (default false) */
+  readonly retryNonIdempotent?: boolean;
+  /** Give up instead of waiting when Retry-After asks for longer than this (default 60000) */
+  readonly maxRetryAfter?: number;
+}
+
+export interface RetryAttempt {
+  readonly attempt: number;
+  readonly duration: number;
+  readonly status?: number;
+  readonly error?: string;
+  readonly code?: string;
+  /** Milliseconds waited before the next attempt, when one followed */
+  delay?: number;
+}
+
+export const DEFAULT_RETRY_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+export const DEFAULT_RETRY_ERRORS = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+];
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'];
+
+/** Statuses whose Retry-After header is honoured */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Decide whether a failed attempt should be retried
+ */
+export function isRetryable(
+  policy: RetryPolicy,
+  method: string | undefined,
+  outcome: { status?: number; code?: string }
+): boolean {
+  if (!policy.retryNonIdempotent && !IDEMPOTENT_METHODS.includes((method || 'GET').toUpperCase())) {
+    return false;
+  }
+  if (outcome.status !== undefined) {
+    return (policy.retryOnStatus || DEFAULT_RETRY_STATUSES).includes(outcome.status);
+  }
+  return (
+    outcome.code !== undefined &&
+    (policy.retryOnErrors || DEFAULT_RETRY_ERRORS).includes(outcome.code)
+  );
+}
+
+/**
+ * Compute the wait before the next attempt; `attempt` is the 1-based attempt that just failed.
+ *
+ * Returns undefined when Retry-After asks for longer than the policy allows.
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  status?: number,
+  headers?: Record<string, any>,
+  random: () => number = Math.random
+): number | undefined {
+  if (status !== undefined && RETRY_AFTER_STATUSES.includes(status)) {
+    const retryAfter = parseRetryAfter(headerValue(headers, 'retry-after'));
+    if (retryAfter !== undefined) {
+      return retryAfter <= (policy.maxRetryAfter ?? 60000) ? retryAfter : undefined;
+    }
+  }
+
+  const base = policy.baseDelay ?? 200;
+  const backoff = Math.min(policy.maxDelay ?? 5000, base * 2 ** (attempt - 1));
+  const jitter = Math.min(1, Math.max(0, policy.jitter ?? 0.5));
+  return Math.round(backoff * (1 - jitter * random()));
+}
+
+/**
+ * Parse a Retry-After header given as delta-seconds or an HTTP date into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (value === undefined || value === null || String(value).trim() === '') {
+    return undefined;
+  }
+
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(Number(text) * 1000);
+  }
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,150 @@
+import { isPlainObject, JsonObject } from './helpers';
+import { Components, MediaType, Schema, schemaTypes } from './openapi-importer';
+
+const MAX_DEPTH = 8;
+
+/**
+ * Build an example value for a schema, following `#/components/schemas/...` references
+ */
+export function sampleSchema(
+  schema: Schema | undefined,
+  components?: Components,
+  depth = 0
+): unknown {
+  if (!schema || typeof schema !== 'object' || depth > MAX_DEPTH) {
+    return undefined;
+  }
+
+  if (schema.$ref) {
+    return sampleSchema(resolveSchemaRef(schema.$ref, components), components, depth + 1);
+  }
+  if (schema.example !== undefined) {
+    return schema.example;
+  }
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+    return schema.examples[0];
+  }
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.reduce((merged: unknown, part: Schema) => {
+      const value = sampleSchema(part, components, depth + 1);
+      return isPlainObject(merged) && isPlainObject(value) ? { ...merged, ...value } : value;
+    }, undefined);
+  }
+  if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+    return sampleSchema((schema.oneOf || schema.anyOf)[0], components, depth + 1);
+  }
+
+  const types = schemaTypes(schema);
+  const type =
+    types.find((t) => t !== 'null') ??
+    types[0] ??
+    (schema.properties ? 'object' : schema.prefixItems ? 'array' : undefined);
+
+  switch (type) {
+    case 'object': {
+      const result: JsonObject = {};
+      for (const [name, property] of Object.entries(schema.properties || {})) {
+        const value = sampleSchema(property, components, depth + 1);
+        if (value !== undefined) {
+          result[name] = value;
+        }
+      }
+      return result;
+    }
+    case 'array': {
+      const prefix = (schema.prefixItems || []).map((part) =>
+        sampleSchema(part, components, depth + 1)
+      );
+      const item = sampleSchema(schema.items, components, depth + 1);
+      const count = Math.max(schema.minItems || 0, item === undefined ? 0 : 1) - prefix.length;
+      return [...prefix, ...Array.from({ length: Math.max(count, 0) }, () => item)];
+    }
+    case 'string':
+      return sampleString(schema);
+    case 'integer':
+      return sampleNumber(schema, true);
+    case 'number':
+      return sampleNumber(schema, false);
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Pick the example body for a media type: explicit example, first named example, then schema
+ */
+export function sampleMediaType(mediaType: MediaType, components?: Components): unknown {
+  if (mediaType.example !== undefined) {
+    return mediaType.example;
+  }
+  const examples = Object.values(mediaType.examples || {}).filter((value) => value !== undefined);
+  if (examples.length > 0) {
+    return examples[0];
+  }
+  return sampleSchema(mediaType.schema, components);
+}
+
+/**
+ * Resolve a local component schema reference
+ */
+export function resolveSchemaRef(ref: string, components?: Components): Schema | undefined {
+  const match = /^#\/components\/schemas\/(.+)$/.exec(ref);
+  if (!match || !components?.schemas) {
+    return undefined;
+  }
+  return components.schemas[decodeURIComponent(match[1]).replace(/~1/g, '/').replace(/~0/g, '~')];
+}
+
+function sampleString(schema: Schema): string {
+  switch (schema.format) {
+    case 'date-time':
+      return '2024-01-01T00:00:00Z';
+    case 'date':
+      return '2024-01-01';
+    case 'email':
+      return 'user@example.com';
+    case 'uuid':
+      return '00000000-0000-4000-8000-000000000000';
+    case 'uri':
+    case 'url':
+      return 'https://example.com';
+    case 'ipv4':
+      return '192.0.2.1';
+    case 'byte':
+      return 'c3RyaW5n';
+  }
+
+  const value = 'string';
+  if (schema.minLength && value.length < schema.minLength) {
+    return value.padEnd(schema.minLength, 'x');
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    return value.slice(0, schema.maxLength);
+  }
+  return value;
+}
+
+function sampleNumber(schema: Schema, integer: boolean): number {
+  let value = 0;
+  if (schema.minimum !== undefined) {
+    value = schema.minimum;
+  } else if (schema.exclusiveMinimum !== undefined && typeof schema.exclusiveMinimum === 'number') {
+    value = schema.exclusiveMinimum + 1;
+  } else if (schema.maximum !== undefined && schema.maximum < 0) {
+    value = schema.maximum;
+  }
+  return integer ? Math.ceil(value) : value;
+}
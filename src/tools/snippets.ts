@@ -0,0 +1,590 @@
+import { applyAuth } from './auth';
+import { toCurl } from './curl';
+import { deleteHeader, headerValue, isPlainObject, withParams } from './helpers';
+import { RequestConfig } from './http-request';
+
+/**
+ * Custom error types
+ */
+export class SnippetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnippetError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export type SnippetLanguage = 'curl' | 'fetch' | 'axios' | 'python' | 'go' | 'java';
+
+export const SNIPPET_LANGUAGES: SnippetLanguage[] = [
+  'curl',
+  'fetch',
+  'axios',
+  'python',
+  'go',
+  'java',
+];
+
+export interface SnippetSet {
+  readonly snippets: Partial<Record<SnippetLanguage, string>>;
+  /** Why a language could not render the request */
+  readonly unsupported: string[];
+}
+
+type Body =
+  | { readonly kind: 'none' }
+  | { readonly kind: 'json'; readonly value: any }
+  | { readonly kind: 'text'; readonly value: string }
+  | { readonly kind: 'form'; readonly fields: Record<string, string> }
+  | { readonly kind: 'multipart'; readonly fields: Record<string, string> };
+
+/** A request with auth applied and its body classified */
+interface SnippetRequest {
+  readonly method: string;
+  readonly url: string;
+  readonly params: Record<string, string>;
+  readonly headers: Record<string, string>;
+  /** Basic credentials, for languages with a dedicated idiom; otherwise in `headers` */
+  readonly basic?: { readonly username: string; readonly password: string };
+  readonly body: Body;
+  readonly timeout?: number;
+  readonly insecure: boolean;
+}
+
+/**
+ * Render a request as client code in the given language.
+ *
+ * Auth is applied as the headers or query parameters it produces, so OAuth2
+ * credentials must already hold an access token.
+ */
+export function generateSnippet(config: RequestConfig, language: SnippetLanguage): string {
+  if (!config.method || !config.url) {
+    throw new SnippetError('Requests require method and url');
+  }
+
+  switch (language) {
+    case 'curl':
+      return toCurl(config);
+    case 'fetch':
+      return renderFetch(prepare(config, false));
+    case 'axios':
+      return renderAxios(prepare(config, true));
+    case 'python':
+      return renderPython(prepare(config, true));
+    case 'go':
+      return renderGo(prepare(config, false));
+    case 'java':
+      return renderJava(prepare(config, false));
+    default:
+      throw new SnippetError(
+        `Unsupported language: ${language} (use ${SNIPPET_LANGUAGES.join(', ')})`
+      );
+  }
+}
+
+/**
+ * Render a request in every supported language
+ */
+export function generateSnippets(config: RequestConfig): SnippetSet {
+  if (!config.method || !config.url) {
+    throw new SnippetError('Requests require method and url');
+  }
+
+  const snippets: Partial<Record<SnippetLanguage, string>> = {};
+  const unsupported: string[] = [];
+  for (const language of SNIPPET_LANGUAGES) {
+    try {
+      snippets[language] = generateSnippet(config, language);
+    } catch (error) {
+      if (!(error instanceof SnippetError)) {
+        throw error;
+      }
+      unsupported.push(error.message);
+    }
+  }
+  return { snippets, unsupported };
+}
+
+function prepare(config: RequestConfig, keepBasic: boolean): SnippetRequest {
+  const basic =
+    keepBasic && config.auth?.type === 'basic'
+      ? {
+          username: config.auth.credentials.username,
+          password: config.auth.credentials.password || '',
+        }
+      : undefined;
+  const authorized =
+    config.auth && !basic
+      ? applyAuth({ headers: config.headers, params: config.params }, config.auth)
+      : { headers: config.headers, params: config.params };
+
+  const headers: Record<string, string> = Object.fromEntries(
+    Object.entries(authorized.headers || {}).map(([name, value]) => [name, String(value)])
+  );
+  const params: Record<string, string> = Object.fromEntries(
+    Object.entries(authorized.params || {})
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([name, value]) => [name, String(value)])
+  );
+
+  const contentType = headerValue(headers, 'content-type') || '';
+  const data = config.data;
+  let body: Body;
+  if (data === undefined || data === null || data === '') {
+    body = { kind: 'none' };
+  } else if (typeof data === 'string') {
+    body = { kind: 'text', value: data };
+  } else if (contentType.startsWith('multipart/form-data') && isPlainObject(data)) {
+    // The client sets the content type with its own boundary
+    deleteHeader(headers, 'content-type');
+    body = { kind: 'multipart', fields: stringFields(data) };
+  } else if (contentType.startsWith('application/x-www-form-urlencoded') && isPlainObject(data)) {
+    body = { kind: 'form', fields: stringFields(data) };
+  } else {
+    if (!contentType) {
+      headers['Content-Type'] = 'application/json';
+    }
+    body = { kind: 'json', value: data };
+  }
+
+  return {
+    method: String(config.method).toUpperCase(),
+    url: config.url,
+    params,
+    headers,
+    basic,
+    body,
+    timeout: config.timeout,
+    insecure: Boolean(config.insecure),
+  };
+}
+
+function renderFetch(request: SnippetRequest): string {
+  const lines: string[] = [];
+  if (request.insecure) {
+    lines.push(
+      '// fetch cannot skip certificate verification per request; for local testing only,',
+      '// run with NODE_TLS_REJECT_UNAUTHORIZED=0'
+    );
+  }
+  if (request.body.kind === 'multipart') {
+    lines.push('const form = new FormData();');
+    for (const [name, value] of Object.entries(request.body.fields)) {
+      lines.push(`form.append(${tsString(name)}, ${tsString(value)});`);
+    }
+    lines.push('');
+  }
+
+  const options: string[] = [`method: ${tsString(request.method)}`];
+  if (Object.keys(request.headers).length > 0) {
+    options.push(`headers: ${tsLiteral(request.headers, 1)}`);
+  }
+  switch (request.body.kind) {
+    case 'json':
+      options.push(`body: JSON.stringify(${tsLiteral(request.body.value, 1)})`);
+      break;
+    case 'text':
+      options.push(`body: ${tsString(request.body.value)}`);
+      break;
+    case 'form':
+      options.push(`body: new URLSearchParams(${tsLiteral(request.body.fields, 1)})`);
+      break;
+    case 'multipart':
+      options.push('body: form');
+      break;
+  }
+  if (request.timeout) {
+    options.push(`signal: AbortSignal.timeout(${request.timeout})`);
+  }
+
+  lines.push(
+    `const response = await fetch(${tsString(withParams(request.url, request.params))}, {`,
+    ...options.map((option) => `  ${option},`),
+    '});',
+    '',
+    'console.log(response.status);',
+    'console.log(await response.text());'
+  );
+  return lines.join('\n');
+}
+
+function renderAxios(request: SnippetRequest): string {
+  const lines = ["import axios from 'axios';"];
+  if (request.insecure) {
+    lines.push("import * as https from 'https';");
+  }
+
+  const options: string[] = [
+    `method: ${tsString(request.method)}`,
+    `url: ${tsString(request.url)}`,
+  ];
+  if (Object.keys(request.params).length > 0) {
+    options.push(`params: ${tsLiteral(request.params, 1)}`);
+  }
+  const headers =
+    request.body.kind === 'multipart'
+      ? { ...request.headers, 'Content-Type': 'multipart/form-data' }
+      : request.headers;
+  if (Object.keys(headers).length > 0) {
+    options.push(`headers: ${tsLiteral(headers, 1)}`);
+  }
+  if (request.basic) {
+    options.push(`auth: ${tsLiteral(request.basic, 1)}`);
+  }
+  switch (request.body.kind) {
+    case 'json':
+      options.push(`data: ${tsLiteral(request.body.value, 1)}`);
+      break;
+    case 'text':
+      options.push(`data: ${tsString(request.body.value)}`);
+      break;
+    case 'form':
+    case 'multipart':
+      // axios serializes plain objects according to the Content-Type header
+      options.push(`data: ${tsLiteral(request.body.fields, 1)}`);
+      break;
+  }
+  if (request.timeout) {
+    options.push(`timeout: ${request.timeout}`);
+  }
+  if (request.insecure) {
+    options.push('httpsAgent: new https.Agent({ rejectUnauthorized: false })');
+  }
+
+  lines.push(
+    '',
+    'const response = await axios.request({',
+    ...options.map((option) => `  ${option},`),
+    '});',
+    '',
+    'console.log(response.status);',
+    'console.log(response.data);'
+  );
+  return lines.join('\n');
+}
+
+function renderPython(request: SnippetRequest): string {
+  const methods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+  const call = methods.includes(request.method)
+    ? `requests.${request.method.toLowerCase()}(`
+    : `requests.request(${pyLiteral(request.method, 1)}, `;
+
+  const args: string[] = [pyLiteral(request.url, 1)];
+  if (Object.keys(request.params).length > 0) {
+    args.push(`params=${pyLiteral(request.params, 1)}`);
+  }
+  if (Object.keys(request.headers).length > 0) {
+    const headers =
+      request.body.kind === 'json'
+        ? withoutHeader(request.headers, 'content-type', 'application/json')
+        : request.headers;
+    if (Object.keys(headers).length > 0) {
+      args.push(`headers=${pyLiteral(headers, 1)}`);
+    }
+  }
+  if (request.basic) {
+    args.push(
+      `auth=(${pyLiteral(request.basic.username, 1)}, ${pyLiteral(request.basic.password, 1)})`
+    );
+  }
+  switch (request.body.kind) {
+    case 'json':
+      args.push(`json=${pyLiteral(request.body.value, 1)}`);
+      break;
+    case 'text':
+      args.push(`data=${pyLiteral(request.body.value, 1)}`);
+      break;
+    case 'form':
+      args.push(`data=${pyLiteral(request.body.fields, 1)}`);
+      break;
+    case 'multipart': {
+      // A (None, value) tuple sends a plain form field rather than a file
+      const fields = Object.entries(request.body.fields).map(
+        ([name, value]) => `        ${pyLiteral(name, 2)}: (None, ${pyLiteral(value, 2)}),`
+      );
+      args.push(`files={\n${fields.join('\n')}\n    }`);
+      break;
+    }
+  }
+  if (request.timeout) {
+    args.push(`timeout=${request.timeout / 1000}`);
+  }
+  if (request.insecure) {
+    args.push('verify=False');
+  }
+
+  return [
+    'import requests',
+    '',
+    `response = ${call}`,
+    ...args.map((arg) => `    ${arg},`),
+    ')',
+    '',
+    'print(response.status_code)',
+    'print(response.text)',
+  ].join('\n');
+}
+
+function renderGo(request: SnippetRequest): string {
+  if (request.body.kind === 'multipart') {
+    throw new SnippetError('Multipart bodies are not supported for go');
+  }
+
+  const imports = new Set(['fmt', 'io', 'net/http']);
+  const body: string[] = [];
+  let reader = 'nil';
+  if (request.body.kind === 'form') {
+    imports.add('net/url').add('strings');
+    body.push('\tform := url.Values{}');
+    for (const [name, value] of Object.entries(request.body.fields)) {
+      body.push(`\tform.Set(${goString(name)}, ${goString(value)})`);
+    }
+    reader = 'strings.NewReader(form.Encode())';
+  } else if (request.body.kind !== 'none') {
+    imports.add('strings');
+    const text =
+      request.body.kind === 'json'
+        ? JSON.stringify(request.body.value, null, 2)
+        : request.body.value;
+    body.push(`\tbody := strings.NewReader(${goRawString(text)})`);
+    reader = 'body';
+  }
+  if (body.length > 0) {
+    body.push('');
+  }
+
+  const client: string[] = [];
+  if (request.timeout) {
+    imports.add('time');
+    client.push(
+      request.timeout % 1000 === 0
+        ? `\t\tTimeout: ${request.timeout / 1000} * time.Second,`
+        : `\t\tTimeout: ${request.timeout} * time.Millisecond,`
+    );
+  }
+  if (request.insecure) {
+    imports.add('crypto/tls');
+    client.push(
+      '\t\tTransport: &http.Transport{TLSClientConfig: &tls.Config{InsecureSkipVerify: true}},'
+    );
+  }
+
+  return [
+    'package main',
+    '',
+    'import (',
+    ...Array.from(imports)
+      .sort()
+      .map((name) => `\t"${name}"`),
+    ')',
+    '',
+    'func main() {',
+    ...body,
+    `\treq, err := http.NewRequest(${goString(request.method)}, ${goString(
+      withParams(request.url, request.params)
+    )}, ${reader})`,
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    ...Object.entries(request.headers).map(
+      ([name, value]) => `\treq.Header.Set(${goString(name)}, ${goString(value)})`
+    ),
+    '',
+    client.length > 0
+      ? `\tclient := &http.Client{\n${client.join('\n')}\n\t}`
+      : '\tclient := &http.Client{}',
+    '\tresp, err := client.Do(req)',
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    '\tdefer resp.Body.Close()',
+    '',
+    '\tdata, err := io.ReadAll(resp.Body)',
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    '\tfmt.Println(resp.Status)',
+    '\tfmt.Println(string(data))',
+    '}',
+  ].join('\n');
+}
+
+/** Headers java.net.http.HttpClient refuses to set */
+const JAVA_RESTRICTED_HEADERS = ['connection', 'content-length', 'expect', 'host', 'upgrade'];
+
+function renderJava(request: SnippetRequest): string {
+  if (request.body.kind === 'multipart') {
+    throw new SnippetError('Multipart bodies are not supported for java');
+  }
+
+  let publisher = 'HttpRequest.BodyPublishers.noBody()';
+  if (request.body.kind === 'form') {
+    publisher = `HttpRequest.BodyPublishers.ofString(${javaString(
+      new URLSearchParams(request.body.fields).toString()
+    )})`;
+  } else if (request.body.kind !== 'none') {
+    const text =
+      request.body.kind === 'json' ? JSON.stringify(request.body.value) : request.body.value;
+    publisher = `HttpRequest.BodyPublishers.ofString(${javaString(text)})`;
+  }
+
+  const builder = [`.uri(URI.create(${javaString(withParams(request.url, request.params))}))`];
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (!JAVA_RESTRICTED_HEADERS.includes(name.toLowerCase())) {
+      builder.push(`.header(${javaString(name)}, ${javaString(value)})`);
+    }
+  }
+  if (request.timeout) {
+    builder.push(`.timeout(Duration.ofMillis(${request.timeout}))`);
+  }
+  if (request.method === 'GET' && request.body.kind === 'none') {
+    builder.push('.GET()');
+  } else if (request.method === 'DELETE' && request.body.kind === 'none') {
+    builder.push('.DELETE()');
+  } else {
+    builder.push(`.method(${javaString(request.method)}, ${publisher})`);
+  }
+  builder.push('.build();');
+
+  return [
+    'import java.net.URI;',
+    'import java.net.http.HttpClient;',
+    'import java.net.http.HttpRequest;',
+    'import java.net.http.HttpResponse;',
+    ...(request.timeout ? ['import java.time.Duration;'] : []),
+    '',
+    'public class Main {',
+    '    public static void main(String[] args) throws Exception {',
+    ...(request.insecure
+      ? [
+          '        // Skipping certificate verification needs an SSLContext with a trust-all',
+          '        // TrustManager passed to HttpClient.newBuilder().sslContext(...)',
+        ]
+      : []),
+    '        HttpClient client = HttpClient.newHttpClient();',
+    '        HttpRequest request = HttpRequest.newBuilder()',
+    ...builder.map((line) => `            ${line}`),
+    '',
+    '        HttpResponse<String> response =',
+    '            client.send(request, HttpResponse.BodyHandlers.ofString());',
+    '        System.out.println(response.statusCode());',
+    '        System.out.println(response.body());',
+    '    }',
+    '}',
+  ].join('\n');
+}
+
+function tsString(value: string): string {
+  return `'${value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')}'`;
+}
+
+/**
+ * Format a JSON value as a TypeScript literal, indented by `depth` levels of two spaces
+ */
+function tsLiteral(value: any, depth: number): string {
+  return formatLiteral(value, depth, '  ', {
+    string: tsString,
+    key: (key) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : tsString(key)),
+    null: 'null',
+    true: 'true',
+    false: 'false',
+  });
+}
+
+/**
+ * Format a JSON value as a Python literal, indented by `depth` levels of four spaces
+ */
+function pyLiteral(value: any, depth: number): string {
+  return formatLiteral(value, depth, '    ', {
+    string: (text) => JSON.stringify(text),
+    key: (key) => JSON.stringify(key),
+    null: 'None',
+    true: 'True',
+    false: 'False',
+  });
+}
+
+interface LiteralSyntax {
+  readonly string: (value: string) => string;
+  readonly key: (key: string) => string;
+  readonly null: string;
+  readonly true: string;
+  readonly false: string;
+}
+
+function formatLiteral(value: any, depth: number, unit: string, syntax: LiteralSyntax): string {
+  const indent = unit.repeat(depth);
+  if (value === null || value === undefined) {
+    return syntax.null;
+  }
+  if (typeof value === 'string') {
+    return syntax.string(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? syntax.true : syntax.false;
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    if (value.every((item) => item === null || typeof item !== 'object')) {
+      return `[${value.map((item) => formatLiteral(item, depth, unit, syntax)).join(', ')}]`;
+    }
+    const items = value.map(
+      (item) => `${indent}${unit}${formatLiteral(item, depth + 1, unit, syntax)},`
+    );
+    return `[\n${items.join('\n')}\n${indent}]`;
+  }
+
+  const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+  if (entries.length === 0) {
+    return '{}';
+  }
+  const items = entries.map(
+    ([key, item]) =>
+      `${indent}${unit}${syntax.key(key)}: ${formatLiteral(item, depth + 1, unit, syntax)},`
+  );
+  return `{\n${items.join('\n')}\n${indent}}`;
+}
+
+function goString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function goRawString(value: string): string {
+  return value.includes('`') ? goString(value) : `\`${value}\``;
+}
+
+function javaString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function stringFields(data: Record<string, any>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(data)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([name, value]) => [name, typeof value === 'string' ? value : JSON.stringify(value)])
+  );
+}
+
+/**
+ * Headers without `name` when it has the given value, for clients that set it themselves
+ */
+function withoutHeader(
+  headers: Record<string, string>,
+  name: string,
+  value: string
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(
+      ([header, headerValue]) => header.toLowerCase() !== name || headerValue !== value
+    )
+  );
+}
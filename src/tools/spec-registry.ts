@@ -0,0 +1,272 @@
+import * as fs from 'fs/promises';
+import axios from 'axios';
+import { OpenAPIImporter, OpenAPIImportOptions, OpenAPISpecification } from './openapi-importer';
+
+/**
+ * Custom error types
+ */
+export class SpecRegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'SpecRegistryError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export type SpecSourceType = 'file' | 'url';
+
+export interface SpecRegistryOptions extends OpenAPIImportOptions {
+  /** ID to register the specification under (default `spec-<n>`) */
+  readonly id?: string;
+  /** Where the source lives (default: `url` for http(s) sources, otherwise `file`) */
+  readonly sourceType?: SpecSourceType;
+}
+
+export interface RegisteredSpec {
+  readonly id: string;
+  readonly source: string;
+  readonly sourceType: SpecSourceType;
+  readonly dereference: boolean;
+  readonly title: string;
+  readonly version: string;
+  readonly endpoints: number;
+  readonly webhooks: number;
+  readonly importedAt: string;
+  readonly checkedAt: string;
+  /** Outcome of the last check: first import, source unchanged, or re-imported */
+  readonly lastCheck: 'imported' | 'unchanged' | 'changed';
+  readonly etag?: string;
+  readonly lastModified?: string;
+  /** Modification time of a file source */
+  readonly modifiedAt?: string;
+}
+
+interface SpecEntry {
+  readonly id: string;
+  readonly source: string;
+  readonly sourceType: SpecSourceType;
+  readonly dereference: boolean;
+  readonly specification: OpenAPISpecification;
+  readonly importedAt: string;
+  readonly checkedAt: string;
+  readonly lastCheck: RegisteredSpec['lastCheck'];
+  readonly etag?: string;
+  readonly lastModified?: string;
+  /** Modification times of a file source and the files it references */
+  readonly mtimes?: Record<string, number>;
+}
+
+/**
+ * Spec Registry - Keeps imported specifications by ID and re-imports them only
+ * when their source changes. Files pulled in by a file source's `$ref`s are
+ * checked too; documents referenced by URL are not re-fetched.
+ */
+export class SpecRegistry {
+  private readonly entries = new Map<string, SpecEntry>();
+  private nextId = 1;
+
+  constructor(private readonly importer: OpenAPIImporter) {}
+
+  /**
+   * Import a specification and register it. Importing a registered source (or ID)
+   * again revalidates the existing entry instead of starting over.
+   */
+  async import(source: string, options: SpecRegistryOptions = {}): Promise<RegisteredSpec> {
+    const sourceType = options.sourceType || (isUrl(source) ? 'url' : 'file');
+    const dereference = options.dereference === true;
+    const existing = options.id
+      ? this.entries.get(options.id)
+      : Array.from(this.entries.values()).find(
+          (entry) => entry.source === source && entry.dereference === dereference
+        );
+    const matches =
+      existing !== undefined &&
+      existing.source === source &&
+      existing.sourceType === sourceType &&
+      existing.dereference === dereference;
+
+    const id = existing?.id || options.id || this.generateId();
+    const entry = await this.load(
+      { id, source, sourceType, dereference },
+      matches ? existing : undefined
+    );
+    this.entries.set(id, entry);
+    return toRegisteredSpec(entry);
+  }
+
+  /**
+   * Get a registered specification by ID, revalidated against its source. Any
+   * other string is imported as a file path or URL.
+   */
+  async resolve(reference: string): Promise<OpenAPISpecification> {
+    const registered = this.entries.get(reference);
+    if (!registered) {
+      const { id } = await this.import(reference);
+      return this.get(id);
+    }
+
+    const entry = await this.load(registered, registered);
+    this.entries.set(entry.id, entry);
+    return entry.specification;
+  }
+
+  /**
+   * Get a registered specification by ID as last imported, without revalidating it
+   */
+  get(id: string): OpenAPISpecification {
+    return this.entry(id).specification;
+  }
+
+  /**
+   * List registered specifications
+   */
+  list(): RegisteredSpec[] {
+    return Array.from(this.entries.values()).map(toRegisteredSpec);
+  }
+
+  /**
+   * Remove a specification from the registry
+   */
+  remove(id: string): RegisteredSpec {
+    const entry = this.entry(id);
+    this.entries.delete(id);
+    return toRegisteredSpec(entry);
+  }
+
+  private entry(id: string): SpecEntry {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      throw new SpecRegistryError(`Specification not found: ${id}`);
+    }
+    return entry;
+  }
+
+  private generateId(): string {
+    let id: string;
+    do {
+      id = `spec-${this.nextId++}`;
+    } while (this.entries.has(id));
+    return id;
+  }
+
+  /**
+   * Import a source, or keep `previous` when the source reports it unchanged
+   */
+  private async load(
+    target: Pick<SpecEntry, 'id' | 'source' | 'sourceType' | 'dereference'>,
+    previous?: SpecEntry
+  ): Promise<SpecEntry> {
+    const checkedAt = new Date().toISOString();
+    const lastCheck = previous ? 'changed' : 'imported';
+    const options = { dereference: target.dereference };
+
+    if (target.sourceType === 'file') {
+      const mtimeMs = await this.modificationTime(target.source);
+      if (
+        previous?.mtimes?.[target.source] === mtimeMs &&
+        (await this.filesUnchanged(previous.mtimes))
+      ) {
+        return { ...previous, checkedAt, lastCheck: 'unchanged' };
+      }
+
+      const specification = await this.importer.importFromFile(target.source, options);
+      const mtimes: Record<string, number> = { [target.source]: mtimeMs };
+      for (const uri of specification.referencedDocuments || []) {
+        if (!isUrl(uri)) {
+          mtimes[uri] = await this.modificationTime(uri);
+        }
+      }
+      return { ...target, specification, importedAt: checkedAt, checkedAt, lastCheck, mtimes };
+    }
+
+    const headers: Record<string, string> = {};
+    if (previous?.etag) {
+      headers['If-None-Match'] = previous.etag;
+    }
+    if (previous?.lastModified) {
+      headers['If-Modified-Since'] = previous.lastModified;
+    }
+
+    let response;
+    try {
+      response = await axios.get(target.source, {
+        headers,
+        validateStatus: (status) => status === 304 || (status >= 200 && status < 300),
+      });
+    } catch (error) {
+      throw new SpecRegistryError(
+        `Failed to fetch OpenAPI spec from URL: ${target.source}`,
+        error as Error
+      );
+    }
+
+    if (previous && response.status === 304) {
+      return { ...previous, checkedAt, lastCheck: 'unchanged' };
+    }
+    const specification = await this.importer.importDocument(response.data, target.source, options);
+    return {
+      ...target,
+      specification,
+      importedAt: checkedAt,
+      checkedAt,
+      lastCheck,
+      etag: response.headers?.etag,
+      lastModified: response.headers?.['last-modified'],
+    };
+  }
+
+  /**
+   * Whether every file still has its recorded modification time; unreadable files count as changed
+   */
+  private async filesUnchanged(mtimes: Record<string, number>): Promise<boolean> {
+    for (const [filePath, mtimeMs] of Object.entries(mtimes)) {
+      const current = await fs.stat(filePath).then(
+        (stats) => stats.mtimeMs,
+        () => undefined
+      );
+      if (current !== mtimeMs) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private async modificationTime(filePath: string): Promise<number> {
+    try {
+      return (await fs.stat(filePath)).mtimeMs;
+    } catch (error) {
+      throw new SpecRegistryError(`Cannot read OpenAPI spec file: ${filePath}`, error as Error);
+    }
+  }
+}
+
+function toRegisteredSpec(entry: SpecEntry): RegisteredSpec {
+  return {
+    id: entry.id,
+    source: entry.source,
+    sourceType: entry.sourceType,
+    dereference: entry.dereference,
+    title: entry.specification.info.title,
+    version: entry.specification.info.version,
+    endpoints: entry.specification.endpoints.length,
+    webhooks: entry.specification.webhooks?.length || 0,
+    importedAt: entry.importedAt,
+    checkedAt: entry.checkedAt,
+    lastCheck: entry.lastCheck,
+    etag: entry.etag,
+    lastModified: entry.lastModified,
+    modifiedAt:
+      entry.mtimes?.[entry.source] !== undefined
+        ? new Date(entry.mtimes[entry.source]).toISOString()
+        : undefined,
+  };
+}
+
+function isUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
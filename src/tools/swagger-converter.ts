@@ -0,0 +1,457 @@
+import { asArray, asObject, isPlainObject, JsonObject } from './helpers';
+
+/**
+ * Type definitions
+ */
+interface ConversionContext {
+  readonly document: JsonObject;
+  readonly consumes: string[];
+  readonly produces: string[];
+}
+
+const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+const FORM_MIME_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data'];
+
+/** Keywords Swagger 2.0 allows on non-body parameters and headers that belong in `schema` */
+const SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'enum',
+  'multipleOf',
+];
+
+/**
+ * Whether a document is a Swagger 2.0 specification
+ */
+export function isSwagger2(document: unknown): boolean {
+  return isPlainObject(document) && typeof document.swagger === 'string';
+}
+
+/**
+ * Convert a bundled Swagger 2.0 document into an equivalent OpenAPI 3.0 document.
+ *
+ * `definitions` become `components.schemas`, body and formData parameters become
+ * request bodies, `consumes`/`produces` become media types and `host`,
+ * `basePath` and `schemes` become server URLs.
+ */
+export function convertSwagger2(document: JsonObject): JsonObject {
+  const context: ConversionContext = {
+    document,
+    consumes: mimeTypes(document.consumes) || ['application/json'],
+    produces: mimeTypes(document.produces) || ['application/json'],
+  };
+
+  const paths: JsonObject = {};
+  for (const [path, pathItem] of Object.entries(asObject(document.paths))) {
+    paths[path] = convertPathItem(asObject(pathItem), context);
+  }
+
+  const components = omitEmpty({
+    schemas: mapValues(document.definitions, convertSchema),
+    parameters: mapValues(
+      filterValues(
+        document.parameters,
+        (param) => !['body', 'formData'].includes(String(param.in))
+      ),
+      (param) => convertParameter(asObject(param))
+    ),
+    requestBodies: mapValues(
+      filterValues(document.parameters, (param) => param.in === 'body'),
+      (param) => convertBodyParameter(asObject(param), context.consumes)
+    ),
+    responses: mapValues(document.responses, (response) =>
+      convertResponse(asObject(response), context.produces)
+    ),
+    securitySchemes: mapValues(document.securityDefinitions, (scheme) =>
+      convertSecurityScheme(asObject(scheme))
+    ),
+  });
+
+  return rewriteRefs(
+    omitEmpty(
+      {
+        ...extensions(document),
+        openapi: '3.0.3',
+        info: document.info,
+        externalDocs: document.externalDocs,
+        servers: convertServers(document),
+        tags: document.tags,
+        security: document.security,
+        paths,
+        components,
+      },
+      ['security']
+    )
+  ) as JsonObject;
+}
+
+function convertServers(document: JsonObject): JsonObject[] {
+  const basePath =
+    typeof document.basePath === 'string' && document.basePath !== '/' ? document.basePath : '';
+  if (!document.host) {
+    return [{ url: basePath || '/' }];
+  }
+  const schemes = asArray(document.schemes).map(String);
+  return (schemes.length > 0 ? schemes : ['https']).map((scheme) => ({
+    url: `${scheme}://${document.host}${basePath}`,
+  }));
+}
+
+function convertPathItem(pathItem: JsonObject, context: ConversionContext): JsonObject {
+  if (pathItem.$ref) {
+    return pathItem;
+  }
+
+  const result: JsonObject = { ...extensions(pathItem) };
+  const pathParameters = asArray(pathItem.parameters).map(asObject);
+  const shared = pathParameters.filter(
+    (param) => !['body', 'formData'].includes(String(resolveParameter(param, context).in))
+  );
+  if (shared.length > 0) {
+    result.parameters = shared.map(convertParameterRef);
+  }
+
+  for (const method of METHODS) {
+    if (isPlainObject(pathItem[method])) {
+      result[method] = convertOperation(pathItem[method] as JsonObject, pathParameters, context);
+    }
+  }
+  return result;
+}
+
+function convertOperation(
+  operation: JsonObject,
+  pathParameters: JsonObject[],
+  context: ConversionContext
+): JsonObject {
+  const consumes = mimeTypes(operation.consumes) || context.consumes;
+  const produces = mimeTypes(operation.produces) || context.produces;
+
+  // Body and form parameters declared on the path apply to every operation
+  const inherited = pathParameters.filter((param) =>
+    ['body', 'formData'].includes(String(resolveParameter(param, context).in))
+  );
+  const declared = [...inherited, ...asArray(operation.parameters).map(asObject)];
+
+  const parameters: JsonObject[] = [];
+  const formFields: JsonObject[] = [];
+  let requestBody: JsonObject | undefined;
+  for (const param of declared) {
+    const resolved = resolveParameter(param, context);
+    if (resolved.in === 'body') {
+      requestBody =
+        typeof param.$ref === 'string'
+          ? { $ref: param.$ref.replace('#/parameters/', '#/components/requestBodies/') }
+          : convertBodyParameter(param, consumes);
+    } else if (resolved.in === 'formData') {
+      formFields.push(resolved);
+    } else {
+      parameters.push(convertParameterRef(param));
+    }
+  }
+  if (formFields.length > 0) {
+    requestBody = convertFormParameters(formFields, consumes);
+  }
+
+  return omitEmpty(
+    {
+      ...extensions(operation),
+      tags: operation.tags,
+      summary: operation.summary,
+      description: operation.description,
+      externalDocs: operation.externalDocs,
+      operationId: operation.operationId,
+      parameters,
+      requestBody,
+      responses: mapValues(operation.responses, (response) =>
+        convertResponse(asObject(response), produces)
+      ),
+      deprecated: operation.deprecated,
+      security: operation.security,
+    },
+    ['security']
+  );
+}
+
+/**
+ * Parameter definition, following a `#/parameters/...` reference
+ */
+function resolveParameter(param: JsonObject, context: ConversionContext): JsonObject {
+  if (typeof param.$ref === 'string' && param.$ref.startsWith('#/parameters/')) {
+    const name = decodePointerSegment(param.$ref.slice('#/parameters/'.length));
+    return asObject(asObject(context.document.parameters)[name]);
+  }
+  return param;
+}
+
+function convertParameterRef(param: JsonObject): JsonObject {
+  return param.$ref ? param : convertParameter(param);
+}
+
+function convertParameter(param: JsonObject): JsonObject {
+  const style = collectionStyle(param);
+  return omitEmpty({
+    ...extensions(param),
+    name: param.name,
+    in: param.in,
+    description: param.description,
+    required: param.in === 'path' ? true : param.required,
+    allowEmptyValue: param.allowEmptyValue,
+    ...style,
+    schema: toSchema(param),
+  });
+}
+
+/**
+ * Map `collectionFormat` to the OpenAPI 3 `style` and `explode` serialization
+ */
+function collectionStyle(param: JsonObject): JsonObject {
+  if (param.type !== 'array') {
+    return {};
+  }
+  switch (param.collectionFormat) {
+    case 'multi':
+      return { style: 'form', explode: true };
+    case 'ssv':
+      return { style: 'spaceDelimited', explode: false };
+    case 'pipes':
+      return { style: 'pipeDelimited', explode: false };
+    case 'tsv':
+      return { style: 'tabDelimited', explode: false };
+    default:
+      return {
+        style: param.in === 'query' || param.in === 'formData' ? 'form' : 'simple',
+        explode: false,
+      };
+  }
+}
+
+function convertBodyParameter(param: JsonObject, consumes: string[]): JsonObject {
+  return omitEmpty({
+    description: param.description,
+    required: param.required,
+    content: Object.fromEntries(
+      consumes.map((mimeType) => [
+        mimeType,
+        omitEmpty({ schema: convertSchema(param.schema || {}), example: param['x-example'] }),
+      ])
+    ),
+  });
+}
+
+function convertFormParameters(fields: JsonObject[], consumes: string[]): JsonObject {
+  const hasFile = fields.some((field) => field.type === 'file');
+  const formTypes = consumes.filter((mimeType) => FORM_MIME_TYPES.includes(mimeType));
+  const mimeTypes =
+    formTypes.length > 0
+      ? formTypes
+      : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+
+  const schema = omitEmpty({
+    type: 'object',
+    properties: Object.fromEntries(
+      fields.map((field) => [
+        field.name,
+        omitEmpty({ ...toSchema(field), description: field.description }),
+      ])
+    ),
+    required: fields.filter((field) => field.required).map((field) => field.name),
+  });
+
+  return {
+    required: fields.some((field) => field.required),
+    content: Object.fromEntries(mimeTypes.map((mimeType) => [mimeType, { schema }])),
+  };
+}
+
+function convertResponse(response: JsonObject, produces: string[]): JsonObject {
+  if (response.$ref) {
+    return response;
+  }
+
+  const examples = asObject(response.examples);
+  const content = response.schema
+    ? Object.fromEntries(
+        produces.map((mimeType) => [
+          mimeType,
+          omitEmpty({ schema: convertSchema(response.schema), example: examples[mimeType] }),
+        ])
+      )
+    : undefined;
+
+  return omitEmpty({
+    ...extensions(response),
+    description: response.description || '',
+    headers: mapValues(response.headers, (header) => {
+      const definition = asObject(header);
+      return omitEmpty({ description: definition.description, schema: toSchema(definition) });
+    }),
+    content,
+  });
+}
+
+function convertSecurityScheme(scheme: JsonObject): JsonObject {
+  switch (scheme.type) {
+    case 'basic':
+      return omitEmpty({ type: 'http', scheme: 'basic', description: scheme.description });
+    case 'apiKey':
+      return omitEmpty({
+        type: 'apiKey',
+        name: scheme.name,
+        in: scheme.in,
+        description: scheme.description,
+      });
+    case 'oauth2': {
+      const flowName: Record<string, string> = {
+        implicit: 'implicit',
+        password: 'password',
+        application: 'clientCredentials',
+        accessCode: 'authorizationCode',
+      };
+      const flow = String(scheme.flow);
+      return omitEmpty({
+        type: 'oauth2',
+        description: scheme.description,
+        flows: {
+          // OpenAPI 3 requires `scopes`, even when there are none
+          [flowName[flow] || flow]: {
+            ...omitEmpty({
+              authorizationUrl: scheme.authorizationUrl,
+              tokenUrl: scheme.tokenUrl,
+            }),
+            scopes: scheme.scopes || {},
+          },
+        },
+      });
+    }
+    default:
+      return scheme;
+  }
+}
+
+/**
+ * Schema for a non-body parameter or header, whose type keywords sit on the object itself
+ */
+function toSchema(definition: JsonObject): JsonObject {
+  const schema = Object.fromEntries(
+    SCHEMA_KEYWORDS.filter((key) => definition[key] !== undefined).map((key) => [
+      key,
+      definition[key],
+    ])
+  );
+  return asObject(convertSchema(Object.keys(schema).length > 0 ? schema : { type: 'string' }));
+}
+
+function convertSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(convertSchema);
+  }
+  if (!isPlainObject(schema)) {
+    return schema;
+  }
+
+  const result: JsonObject = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'x-nullable') {
+      result.nullable = value;
+    } else if (key === 'discriminator' && typeof value === 'string') {
+      result.discriminator = { propertyName: value };
+    } else if (key === 'type' && value === 'file') {
+      result.type = 'string';
+      result.format = 'binary';
+    } else if (key === 'properties' || key === 'patternProperties') {
+      result[key] = mapValues(value, convertSchema);
+    } else if (isPlainObject(value) || Array.isArray(value)) {
+      result[key] = key === 'enum' || key === 'example' ? value : convertSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Point references at the locations they were moved to
+ */
+function rewriteRefs(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(rewriteRefs);
+  }
+  if (!isPlainObject(node)) {
+    return node;
+  }
+
+  const result: JsonObject = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === '$ref' && typeof value === 'string') {
+      result[key] = value
+        .replace(/^#\/definitions\//, '#/components/schemas/')
+        .replace(/^#\/parameters\//, '#/components/parameters/')
+        .replace(/^#\/responses\//, '#/components/responses/');
+    } else {
+      result[key] = rewriteRefs(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * `consumes` or `produces` as a list of MIME types, when declared
+ */
+function mimeTypes(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.map(String) : undefined;
+}
+
+function extensions(node: JsonObject): JsonObject {
+  return Object.fromEntries(Object.entries(node).filter(([key]) => key.startsWith('x-')));
+}
+
+function mapValues(map: unknown, fn: (value: unknown) => unknown): JsonObject | undefined {
+  if (!isPlainObject(map)) {
+    return undefined;
+  }
+  return Object.fromEntries(Object.entries(map).map(([key, value]) => [key, fn(value)]));
+}
+
+function filterValues(
+  map: unknown,
+  predicate: (value: JsonObject) => boolean
+): JsonObject | undefined {
+  if (!isPlainObject(map)) {
+    return undefined;
+  }
+  return Object.fromEntries(Object.entries(map).filter(([, value]) => predicate(asObject(value))));
+}
+
+/**
+ * Drop undefined values, empty arrays and empty objects, except the empty values
+ * of `keep` (e.g. `security: []`, which disables the global security requirement)
+ */
+function omitEmpty(node: JsonObject, keep: string[] = []): JsonObject {
+  return Object.fromEntries(
+    Object.entries(node).filter(
+      ([key, value]) =>
+        value !== undefined &&
+        (keep.includes(key) ||
+          (!(Array.isArray(value) && value.length === 0) &&
+            !(isPlainObject(value) && Object.keys(value).length === 0)))
+    )
+  );
+}
+
+function decodePointerSegment(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+}
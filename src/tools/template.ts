@@ -0,0 +1,61 @@
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+
+/**
+ * Replace `{{expression}}` placeholders in strings, arrays and objects.
+ *
+ * A string that consists of a single placeholder takes the resolved value as-is
+ * (so numbers and objects keep their type); placeholders that resolve to
+ * `undefined` are left untouched.
+ */
+export function interpolate<T>(value: T, resolve: (expression: string) => any): T {
+  if (typeof value === 'string') {
+    const whole = WHOLE_TEMPLATE_PATTERN.exec(value);
+    if (whole) {
+      const resolved = resolve(whole[1]);
+      return (resolved === undefined ? value : resolved) as T;
+    }
+    return value.replace(TEMPLATE_PATTERN, (match, expression) => {
+      const resolved = resolve(expression);
+      if (resolved === undefined) {
+        return match;
+      }
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolate(item, resolve)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolate(item, resolve)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Find placeholders that are still present after interpolation
+ */
+export function findPlaceholders(value: any): string[] {
+  if (typeof value === 'string') {
+    return Array.from(value.matchAll(TEMPLATE_PATTERN), (match) => match[1]);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => findPlaceholders(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap((item) => findPlaceholders(item));
+  }
+  return [];
+}
+
+/**
+ * Read a dotted path such as `data.items.0.id` from a value
+ */
+export function getPath(value: any, path: string): any {
+  return path
+    .split('.')
+    .filter((segment) => segment.length > 0)
+    .reduce((current, segment) => (current == null ? undefined : current[segment]), value);
+}
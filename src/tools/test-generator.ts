@@ -0,0 +1,559 @@
+import { isPlainObject, JsonObject, slugify } from './helpers';
+import {
+  Components,
+  Endpoint,
+  OpenAPISpecification,
+  Parameter,
+  resolveServerUrl,
+  Schema,
+  schemaTypes,
+} from './openapi-importer';
+import { resolveSchemaRef, sampleMediaType, sampleSchema } from './schema-sampler';
+
+/**
+ * Custom error types
+ */
+export class TestGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TestGenerationError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export type TestFramework = 'jest' | 'vitest' | 'mocha';
+export type TestCoverage = 'basic' | 'comprehensive' | 'exhaustive';
+
+export interface TestGenerationOptions {
+  readonly framework?: TestFramework;
+  readonly coverage?: TestCoverage;
+  /** Base URL used when API_BASE_URL is not set; defaults to the first server in the spec */
+  readonly baseUrl?: string;
+}
+
+export interface GeneratedFile {
+  readonly path: string;
+  readonly content: string;
+}
+
+export interface GeneratedTestSuite {
+  readonly framework: TestFramework;
+  readonly coverage: TestCoverage;
+  readonly testCount: number;
+  readonly files: GeneratedFile[];
+}
+
+/** Expected status: an exact list of codes or a status class such as 2 for 2xx */
+type ExpectedStatus = { codes: number[] } | { range: number };
+
+interface TestCase {
+  readonly name: string;
+  readonly method: string;
+  readonly path: string;
+  readonly params: JsonObject;
+  readonly headers: Record<string, string>;
+  readonly body?: unknown;
+  readonly expected: ExpectedStatus;
+}
+
+const FRAMEWORKS: TestFramework[] = ['jest', 'vitest', 'mocha'];
+const COVERAGE_LEVELS: TestCoverage[] = ['basic', 'comprehensive', 'exhaustive'];
+
+/** Mocha runs plain JavaScript without a loader, and the ES module syntax needs `.mjs` */
+const FILE_EXTENSIONS: Record<TestFramework, string> = { jest: 'ts', vitest: 'ts', mocha: 'mjs' };
+
+/**
+ * Test Suite Generator - Emits runnable API tests from an OpenAPI specification
+ */
+export class TestSuiteGenerator {
+  /**
+   * Generate a test suite for every endpoint in a specification
+   */
+  generate(
+    specification: OpenAPISpecification,
+    options: TestGenerationOptions = {}
+  ): GeneratedTestSuite {
+    const { framework = 'jest', coverage = 'comprehensive' } = options;
+
+    if (!FRAMEWORKS.includes(framework)) {
+      throw new TestGenerationError(`Unsupported test framework: ${framework}`);
+    }
+    if (!COVERAGE_LEVELS.includes(coverage)) {
+      throw new TestGenerationError(`Unsupported coverage level: ${coverage}`);
+    }
+    if (!specification || !Array.isArray(specification.endpoints)) {
+      throw new TestGenerationError('Specification must contain an endpoints array');
+    }
+
+    const server = specification.servers?.[0] ?? specification.raw?.servers?.[0];
+    const baseUrl =
+      options.baseUrl || (server ? resolveServerUrl(server) : 'http://localhost:3000');
+    const groups = specification.endpoints.map((endpoint) => ({
+      endpoint,
+      cases: this.buildCases(endpoint, coverage, specification.components),
+    }));
+
+    const title = specification.info?.title || 'API';
+    const content = this.render(framework, title, baseUrl, groups);
+
+    return {
+      framework,
+      coverage,
+      testCount: groups.reduce((count, group) => count + group.cases.length, 0),
+      files: [{ path: `${slugify(title, 'api')}.test.${FILE_EXTENSIONS[framework]}`, content }],
+    };
+  }
+
+  /**
+   * Build the test cases for an endpoint at a coverage level
+   */
+  private buildCases(
+    endpoint: Endpoint,
+    coverage: TestCoverage,
+    components?: Components
+  ): TestCase[] {
+    const happy = this.buildHappyPath(endpoint, components);
+    const cases: TestCase[] = [happy];
+
+    if (coverage === 'basic') {
+      return cases;
+    }
+
+    const clientErrors = this.clientErrorStatus(endpoint);
+
+    for (const param of endpoint.parameters) {
+      if (param.required && param.in !== 'path') {
+        cases.push({
+          ...happy,
+          name: `should reject a request without required ${param.in} parameter '${param.name}'`,
+          params: omit(happy.params, param.in === 'query' ? param.name : undefined),
+          headers:
+            param.in === 'cookie'
+              ? withoutCookie(happy.headers, param.name)
+              : omit(happy.headers, param.in === 'header' ? param.name : undefined),
+          expected: clientErrors,
+        });
+      }
+    }
+
+    if (endpoint.requestBody?.required) {
+      cases.push({
+        ...happy,
+        name: 'should reject a request without the required body',
+        body: undefined,
+        expected: clientErrors,
+      });
+    }
+
+    if (endpoint.responses.some((r) => r.statusCode === '404')) {
+      const pathParams = endpoint.parameters.filter((p) => p.in === 'path');
+      if (pathParams.length > 0) {
+        cases.push({
+          ...happy,
+          name: 'should return 404 for an unknown resource',
+          path: fillPath(
+            endpoint.path,
+            Object.fromEntries(pathParams.map((p) => [p.name, unknownValue(p.schema)]))
+          ),
+          expected: { codes: [404] },
+        });
+      }
+    }
+
+    if (coverage === 'exhaustive') {
+      cases.push(...this.buildBoundaryCases(endpoint, happy, clientErrors, components));
+    }
+
+    return cases;
+  }
+
+  /**
+   * Build a request that satisfies every required parameter and body
+   */
+  private buildHappyPath(endpoint: Endpoint, components?: Components): TestCase {
+    const pathValues: JsonObject = {};
+    const params: JsonObject = {};
+    const headers: Record<string, string> = {};
+    const cookies: string[] = [];
+
+    for (const param of endpoint.parameters) {
+      if (param.in === 'path') {
+        pathValues[param.name] = this.sampleParameter(param, components) ?? '1';
+      } else if (param.required && param.in === 'query') {
+        params[param.name] = this.sampleParameter(param, components);
+      } else if (param.required && param.in === 'header') {
+        headers[param.name] = String(this.sampleParameter(param, components));
+      } else if (param.required && param.in === 'cookie') {
+        cookies.push(`${param.name}=${this.sampleParameter(param, components)}`);
+      }
+    }
+    if (cookies.length > 0) {
+      headers['Cookie'] = cookies.join('; ');
+    }
+
+    let body: unknown;
+    const media = endpoint.requestBody?.content[0];
+    if (media) {
+      headers['Content-Type'] = media.mimeType;
+      body = sampleMediaType(media, components);
+    }
+
+    const success = endpoint.responses.find((r) => /^2(\d\d|XX)$/i.test(r.statusCode));
+    const expected: ExpectedStatus =
+      success && /^\d{3}$/.test(success.statusCode)
+        ? { codes: [Number(success.statusCode)] }
+        : { range: 2 };
+
+    return {
+      name: `should respond with ${describeStatus(expected)}`,
+      method: endpoint.method,
+      path: fillPath(endpoint.path, pathValues),
+      params,
+      headers,
+      body,
+      expected,
+    };
+  }
+
+  /**
+   * Build boundary (valid) and negative (invalid) cases from schema constraints
+   */
+  private buildBoundaryCases(
+    endpoint: Endpoint,
+    happy: TestCase,
+    clientErrors: ExpectedStatus,
+    components?: Components
+  ): TestCase[] {
+    const cases: TestCase[] = [];
+    const pathValues = Object.fromEntries(
+      endpoint.parameters
+        .filter((p) => p.in === 'path')
+        .map((p) => [p.name, this.sampleParameter(p, components) ?? '1'])
+    );
+
+    for (const param of endpoint.parameters) {
+      if (param.in !== 'query' && param.in !== 'path') {
+        continue;
+      }
+      const schema = this.resolve(param.schema, components);
+
+      const withValue = (value: unknown): Partial<TestCase> => {
+        if (param.in === 'query') {
+          return { params: { ...happy.params, [param.name]: value } };
+        }
+        return { path: fillPath(endpoint.path, { ...pathValues, [param.name]: value }) };
+      };
+
+      for (const { label, value } of boundaryValues(schema)) {
+        cases.push({
+          ...happy,
+          ...withValue(value),
+          name: `should accept ${param.in} parameter '${param.name}' at ${label}`,
+        });
+      }
+      for (const { label, value } of invalidValues(schema)) {
+        cases.push({
+          ...happy,
+          ...withValue(value),
+          name: `should reject ${param.in} parameter '${param.name}' ${label}`,
+          expected: param.in === 'path' ? { range: 4 } : clientErrors,
+        });
+      }
+    }
+
+    const bodySchema = this.resolve(endpoint.requestBody?.content[0]?.schema, components);
+    if (bodySchema?.properties && isPlainObject(happy.body)) {
+      for (const [name, propertySchema] of Object.entries(bodySchema.properties)) {
+        const schema = this.resolve(propertySchema, components);
+
+        if (bodySchema.required?.includes(name)) {
+          cases.push({
+            ...happy,
+            name: `should reject a body without required property '${name}'`,
+            body: omit(happy.body, name),
+            expected: clientErrors,
+          });
+        }
+        for (const { label, value } of boundaryValues(schema)) {
+          cases.push({
+            ...happy,
+            name: `should accept body property '${name}' at ${label}`,
+            body: { ...happy.body, [name]: value },
+          });
+        }
+        for (const { label, value } of invalidValues(schema)) {
+          cases.push({
+            ...happy,
+            name: `should reject body property '${name}' ${label}`,
+            body: { ...happy.body, [name]: value },
+            expected: clientErrors,
+          });
+        }
+      }
+    }
+
+    return cases;
+  }
+
+  /**
+   * Status expected for rejected requests: declared 400/422 codes, else any 4xx
+   */
+  private clientErrorStatus(endpoint: Endpoint): ExpectedStatus {
+    const codes = endpoint.responses
+      .map((r) => r.statusCode)
+      .filter((code) => code === '400' || code === '422')
+      .map(Number);
+    return codes.length > 0 ? { codes } : { range: 4 };
+  }
+
+  private sampleParameter(param: Parameter, components?: Components): unknown {
+    if (param.example !== undefined) {
+      return param.example;
+    }
+    const example = Object.values(param.examples || {}).find((value) => value !== undefined);
+    return example !== undefined ? example : sampleSchema(param.schema, components);
+  }
+
+  private resolve(schema: Schema | undefined, components?: Components): Schema | undefined {
+    let resolved = schema;
+    for (let depth = 0; resolved?.$ref && depth < 8; depth++) {
+      resolved = resolveSchemaRef(resolved.$ref, components);
+    }
+    return resolved;
+  }
+
+  /**
+   * Render test cases as source code for a framework
+   */
+  private render(
+    framework: TestFramework,
+    title: string,
+    baseUrl: string,
+    groups: { endpoint: Endpoint; cases: TestCase[] }[]
+  ): string {
+    const lines: string[] = [];
+
+    if (framework === 'vitest') {
+      lines.push("import { describe, it, expect } from 'vitest';");
+    } else if (framework === 'mocha') {
+      lines.push("import assert from 'node:assert/strict';");
+    }
+    lines.push("import axios from 'axios';");
+    lines.push('');
+    lines.push(`const BASE_URL = process.env.API_BASE_URL || ${JSON.stringify(baseUrl)};`);
+    lines.push('const client = axios.create({ baseURL: BASE_URL, validateStatus: () => true });');
+    lines.push('');
+    lines.push(`describe(${JSON.stringify(title)}, () => {`);
+
+    groups.forEach(({ endpoint, cases }, index) => {
+      if (index > 0) {
+        lines.push('');
+      }
+      lines.push(`  describe(${JSON.stringify(`${endpoint.method} ${endpoint.path}`)}, () => {`);
+      cases.forEach((testCase, caseIndex) => {
+        if (caseIndex > 0) {
+          lines.push('');
+        }
+        lines.push(`    it(${JSON.stringify(testCase.name)}, async () => {`);
+        lines.push('      const response = await client.request({');
+        lines.push(`        method: ${JSON.stringify(testCase.method)},`);
+        lines.push(`        url: ${JSON.stringify(testCase.path)},`);
+        if (Object.keys(testCase.params).length > 0) {
+          lines.push(`        params: ${JSON.stringify(testCase.params)},`);
+        }
+        if (Object.keys(testCase.headers).length > 0) {
+          lines.push(`        headers: ${JSON.stringify(testCase.headers)},`);
+        }
+        if (testCase.body !== undefined) {
+          lines.push(`        data: ${JSON.stringify(testCase.body)},`);
+        }
+        lines.push('      });');
+        lines.push('');
+        lines.push(...renderAssertion(framework, testCase.expected).map((line) => `      ${line}`));
+        lines.push('    });');
+      });
+      lines.push('  });');
+    });
+
+    lines.push('});');
+    lines.push('');
+    return lines.join('\n');
+  }
+}
+
+function renderAssertion(framework: TestFramework, expected: ExpectedStatus): string[] {
+  if (framework === 'mocha') {
+    if ('codes' in expected && expected.codes.length === 1) {
+      return [`assert.equal(response.status, ${expected.codes[0]});`];
+    }
+    if ('codes' in expected) {
+      return [`assert.ok(${JSON.stringify(expected.codes)}.includes(response.status));`];
+    }
+    return [
+      `assert.ok(response.status >= ${expected.range * 100} && response.status < ${(expected.range + 1) * 100});`,
+    ];
+  }
+
+  if ('codes' in expected && expected.codes.length === 1) {
+    return [`expect(response.status).toBe(${expected.codes[0]});`];
+  }
+  if ('codes' in expected) {
+    return [`expect(${JSON.stringify(expected.codes)}).toContain(response.status);`];
+  }
+  return [
+    `expect(response.status).toBeGreaterThanOrEqual(${expected.range * 100});`,
+    `expect(response.status).toBeLessThan(${(expected.range + 1) * 100});`,
+  ];
+}
+
+function describeStatus(expected: ExpectedStatus): string {
+  return 'codes' in expected ? expected.codes.join(' or ') : `${expected.range}xx`;
+}
+
+/**
+ * Valid values at the edges of a schema's constraints
+ */
+function boundaryValues(schema?: Schema): { label: string; value: unknown }[] {
+  const values: { label: string; value: unknown }[] = [];
+  if (!schema) {
+    return values;
+  }
+  const step = numericStep(schema);
+  const lower = numericBound(schema, 'minimum', 'exclusiveMinimum');
+  const upper = numericBound(schema, 'maximum', 'exclusiveMaximum');
+  if (lower) {
+    values.push(
+      lower.exclusive
+        ? { label: `just above exclusive minimum (${lower.value})`, value: lower.value + step }
+        : { label: `minimum (${lower.value})`, value: lower.value }
+    );
+  }
+  if (upper) {
+    values.push(
+      upper.exclusive
+        ? { label: `just below exclusive maximum (${upper.value})`, value: upper.value - step }
+        : { label: `maximum (${upper.value})`, value: upper.value }
+    );
+  }
+  if (typeof schema.minLength === 'number' && schema.minLength > 0) {
+    values.push({ label: `minLength (${schema.minLength})`, value: 'a'.repeat(schema.minLength) });
+  }
+  if (typeof schema.maxLength === 'number') {
+    values.push({ label: `maxLength (${schema.maxLength})`, value: 'a'.repeat(schema.maxLength) });
+  }
+  return values;
+}
+
+/**
+ * Values that violate a schema's constraints
+ */
+function invalidValues(schema?: Schema): { label: string; value: unknown }[] {
+  const values: { label: string; value: unknown }[] = [];
+  if (!schema) {
+    return values;
+  }
+  const types = schemaTypes(schema);
+  const step = numericStep(schema);
+  const lower = numericBound(schema, 'minimum', 'exclusiveMinimum');
+  const upper = numericBound(schema, 'maximum', 'exclusiveMaximum');
+  if (lower) {
+    values.push(
+      lower.exclusive
+        ? { label: 'at exclusive minimum', value: lower.value }
+        : { label: 'below minimum', value: lower.value - step }
+    );
+  }
+  if (upper) {
+    values.push(
+      upper.exclusive
+        ? { label: 'at exclusive maximum', value: upper.value }
+        : { label: 'above maximum', value: upper.value + step }
+    );
+  }
+  if (typeof schema.minLength === 'number' && schema.minLength > 0) {
+    values.push({ label: 'shorter than minLength', value: 'a'.repeat(schema.minLength - 1) });
+  }
+  if (typeof schema.maxLength === 'number') {
+    values.push({ label: 'longer than maxLength', value: 'a'.repeat(schema.maxLength + 1) });
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    values.push({ label: 'outside the enum', value: '__invalid_enum_value__' });
+  }
+  if (types.includes('integer') || types.includes('number')) {
+    values.push({ label: 'with a non-numeric value', value: 'not-a-number' });
+  } else if (types.includes('boolean')) {
+    values.push({ label: 'with a non-boolean value', value: 'not-a-boolean' });
+  }
+  return values;
+}
+
+/**
+ * A numeric limit and whether it is exclusive: OpenAPI 3.0 flags `minimum` with a boolean
+ * `exclusiveMinimum`, while 3.1 (JSON Schema 2020-12) gives the exclusive limit itself
+ */
+function numericBound(
+  schema: Schema,
+  inclusiveKey: 'minimum' | 'maximum',
+  exclusiveKey: 'exclusiveMinimum' | 'exclusiveMaximum'
+): { value: number; exclusive: boolean } | undefined {
+  const inclusive = schema[inclusiveKey];
+  const exclusive = schema[exclusiveKey];
+  if (typeof exclusive === 'number') {
+    const stricter =
+      typeof inclusive !== 'number' ||
+      (inclusiveKey === 'minimum' ? exclusive >= inclusive : exclusive <= inclusive);
+    return stricter
+      ? { value: exclusive, exclusive: true }
+      : { value: inclusive, exclusive: false };
+  }
+  if (typeof inclusive === 'number') {
+    return { value: inclusive, exclusive: exclusive === true };
+  }
+  return undefined;
+}
+
+function numericStep(schema: Schema): number {
+  return schemaTypes(schema).includes('integer') ? 1 : 0.01;
+}
+
+/**
+ * Drop one cookie from a request's `Cookie` header
+ */
+function withoutCookie(headers: Record<string, string>, name: string): Record<string, string> {
+  const cookies = (headers['Cookie'] || '')
+    .split('; ')
+    .filter((cookie) => cookie && !cookie.startsWith(`${name}=`));
+  const rest = omit(headers, 'Cookie');
+  return cookies.length > 0 ? { ...rest, Cookie: cookies.join('; ') } : rest;
+}
+
+/**
+ * A value for a path parameter that is unlikely to identify an existing resource
+ */
+function unknownValue(schema?: Schema): string | number {
+  const types = schemaTypes(schema);
+  if (types.includes('integer') || types.includes('number')) {
+    return 999999999;
+  }
+  if (schema?.format === 'uuid') {
+    return 'ffffffff-ffff-4fff-bfff-ffffffffffff';
+  }
+  return 'does-not-exist';
+}
+
+function fillPath(path: string, values: JsonObject): string {
+  return path.replace(/\{([^}]+)\}/g, (match, name) =>
+    values[name] === undefined ? match : encodeURIComponent(String(values[name]))
+  );
+}
+
+function omit<T extends JsonObject>(source: T, key?: string): T {
+  if (key === undefined) {
+    return source;
+  }
+  const rest = { ...source };
+  delete rest[key];
+  return rest;
+}
@@ -0,0 +1,142 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { performance } from 'perf_hooks';
+
+/**
+ * Type definitions
+ */
+export interface ResponseTiming {
+  /** DNS resolution (0 for IP literals and reused connections) */
+  readonly dnsLookup: number;
+  /** TCP connection establishment */
+  readonly tcpConnect: number;
+  /** TLS handshake (0 for plain HTTP) */
+  readonly tlsHandshake: number;
+  /** From the start of the request to the first response byte */
+  readonly timeToFirstByte: number;
+  /** From the first to the last response byte */
+  readonly contentTransfer: number;
+  readonly total: number;
+}
+
+export interface TransferInfo {
+  /** Bytes written to the socket, including the request line and headers */
+  readonly requestBytes: number;
+  /** Bytes read from the socket, including the status line and headers */
+  readonly responseBytes: number;
+  readonly remoteAddress?: string;
+  readonly remotePort?: number;
+}
+
+export interface RequestTimerOptions {
+  /** Verify TLS certificates (default true) */
+  readonly rejectUnauthorized?: boolean;
+}
+
+interface SocketEvents {
+  created: number;
+  lookup?: number;
+  connect?: number;
+  secureConnect?: number;
+  firstByte?: number;
+  remoteAddress?: string;
+  remotePort?: number;
+  socket: net.Socket;
+}
+
+/**
+ * Request Timer - Hands out dedicated agents for one request and reads the phase
+ * timings off the sockets they open
+ */
+export class RequestTimer {
+  readonly httpAgent: http.Agent;
+  readonly httpsAgent: https.Agent;
+  private readonly sockets: SocketEvents[] = [];
+  private readonly start = performance.now();
+
+  constructor(options: RequestTimerOptions = {}) {
+    this.httpAgent = this.instrument(new http.Agent({ keepAlive: false }));
+    this.httpsAgent = this.instrument(
+      new https.Agent({ keepAlive: false, rejectUnauthorized: options.rejectUnauthorized ?? true })
+    );
+  }
+
+  /**
+   * Compute timings once the response body has been received; redirects are
+   * summed into the transfer sizes and the last connection's phases are reported
+   */
+  finish(): { timing: ResponseTiming; transfer: TransferInfo } {
+    const end = performance.now();
+    const last = this.sockets[this.sockets.length - 1];
+    this.httpAgent.destroy();
+    this.httpsAgent.destroy();
+
+    if (!last) {
+      const total = round(end - this.start);
+      return {
+        timing: {
+          dnsLookup: 0,
+          tcpConnect: 0,
+          tlsHandshake: 0,
+          timeToFirstByte: total,
+          contentTransfer: 0,
+          total,
+        },
+        transfer: { requestBytes: 0, responseBytes: 0 },
+      };
+    }
+
+    const lookup = last.lookup ?? last.created;
+    const connect = last.connect ?? lookup;
+    const ready = last.secureConnect ?? connect;
+    const firstByte = last.firstByte ?? end;
+
+    return {
+      timing: {
+        dnsLookup: round(lookup - last.created),
+        tcpConnect: round(connect - lookup),
+        tlsHandshake: round(ready - connect),
+        timeToFirstByte: round(firstByte - this.start),
+        contentTransfer: round(end - firstByte),
+        total: round(end - this.start),
+      },
+      transfer: {
+        requestBytes: this.sockets.reduce((sum, s) => sum + s.socket.bytesWritten, 0),
+        responseBytes: this.sockets.reduce((sum, s) => sum + s.socket.bytesRead, 0),
+        remoteAddress: last.remoteAddress,
+        remotePort: last.remotePort,
+      },
+    };
+  }
+
+  /**
+   * Wrap the agent's socket factory to timestamp connection events
+   */
+  private instrument<T extends http.Agent>(agent: T): T {
+    const createConnection = (agent as any).createConnection.bind(agent);
+
+    (agent as any).createConnection = (...args: any[]) => {
+      const socket: net.Socket = createConnection(...args);
+      const events: SocketEvents = { created: performance.now(), socket };
+      this.sockets.push(events);
+
+      socket.once('lookup', () => (events.lookup = performance.now()));
+      socket.once('connect', () => {
+        events.connect = performance.now();
+        // Read now; the peer address is unavailable once the socket is closed
+        events.remoteAddress = socket.remoteAddress;
+        events.remotePort = socket.remotePort;
+      });
+      socket.once('secureConnect', () => (events.secureConnect = performance.now()));
+      socket.once('data', () => (events.firstByte = performance.now()));
+      return socket;
+    };
+
+    return agent;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
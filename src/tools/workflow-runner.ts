@@ -0,0 +1,478 @@
+import { TestFailure, TestResult, TestWorkflow, WorkflowStep } from '../types';
+import { JsonObject } from './helpers';
+import {
+  createAuthenticatedRequest,
+  executeRequest,
+  RequestConfig,
+  Response,
+} from './http-request';
+import { applyEnvironment } from './environments';
+import {
+  ResponseValidationResult,
+  ResponseValidator,
+  ValidateResponseOptions,
+} from './response-validator';
+import { findPlaceholders, getPath, interpolate } from './template';
+
+/**
+ * Custom error types
+ */
+export class WorkflowError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[] = []
+  ) {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+/**
+ * Type definitions
+ */
+export type StepStatus = 'passed' | 'failed' | 'skipped';
+
+export type AssertionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'exists'
+  | 'notExists'
+  | 'contains'
+  | 'matches'
+  | 'greaterThan'
+  | 'lessThan';
+
+export interface Assertion {
+  readonly actual: unknown;
+  readonly operator?: AssertionOperator;
+  readonly expected?: unknown;
+  readonly message?: string;
+}
+
+export interface StepResult {
+  readonly id: string;
+  readonly type: WorkflowStep['type'];
+  readonly status: StepStatus;
+  readonly duration: number;
+  /** ISO 8601 time the step started */
+  readonly startedAt?: string;
+  /** Request sent by a request step, before credentials were applied */
+  readonly request?: Omit<RequestConfig, 'auth'>;
+  readonly output?: any;
+  readonly error?: string;
+}
+
+export interface WorkflowRunResult extends TestResult {
+  readonly workflowId: string;
+  readonly steps: StepResult[];
+}
+
+export interface WorkflowRunOptions {
+  readonly parallel?: boolean;
+}
+
+export interface WorkflowRunnerConfig {
+  readonly maxConcurrentRequests?: number;
+  readonly timeout?: number;
+}
+
+class StepFailure extends Error {
+  constructor(
+    message: string,
+    public readonly expected?: unknown,
+    public readonly actual?: unknown
+  ) {
+    super(message);
+    this.name = 'StepFailure';
+  }
+}
+
+/**
+ * Workflow Runner - Executes TestWorkflow steps as a dependency graph
+ */
+export class WorkflowRunner {
+  private readonly validator = new ResponseValidator();
+  private readonly maxConcurrentRequests: number;
+  private readonly timeout: number;
+
+  constructor(config: WorkflowRunnerConfig = {}) {
+    this.maxConcurrentRequests = Math.max(1, config.maxConcurrentRequests ?? 10);
+    this.timeout = config.timeout ?? 30000;
+  }
+
+  /**
+   * Run a workflow; independent steps run concurrently when `parallel` is set
+   */
+  async run(workflow: TestWorkflow, options: WorkflowRunOptions = {}): Promise<WorkflowRunResult> {
+    const order = this.topologicalSort(workflow.steps || []);
+    const limit = options.parallel ? this.maxConcurrentRequests : 1;
+    const startTime = Date.now();
+
+    const outputs: JsonObject = {};
+    const results = new Map<string, StepResult>();
+    const failures = new Map<string, TestFailure>();
+    const running = new Map<string, Promise<void>>();
+    const pending = [...order];
+
+    const settle = (step: WorkflowStep): Promise<void> =>
+      this.runStep(step, workflow, outputs, failures).then((result) => {
+        results.set(step.id, result);
+        if (result.status === 'passed') {
+          outputs[step.id] = result.output;
+        }
+        running.delete(step.id);
+      });
+
+    while (pending.length > 0 || running.size > 0) {
+      for (let i = 0; i < pending.length && running.size < limit; ) {
+        const step = pending[i];
+        const deps = step.dependsOn || [];
+
+        if (deps.some((dep) => results.has(dep) && results.get(dep)!.status !== 'passed')) {
+          pending.splice(i, 1);
+          results.set(step.id, {
+            id: step.id,
+            type: step.type,
+            status: 'skipped',
+            duration: 0,
+            error: 'Skipped because a dependency did not pass',
+          });
+          i = 0;
+          continue;
+        }
+
+        if (deps.every((dep) => results.has(dep))) {
+          pending.splice(i, 1);
+          running.set(step.id, settle(step));
+          continue;
+        }
+        i++;
+      }
+
+      if (running.size > 0) {
+        await Promise.race(running.values());
+      }
+    }
+
+    const steps = order.map((step) => results.get(step.id)!);
+
+    return {
+      workflowId: workflow.id,
+      passed: steps.filter((s) => s.status === 'passed').length,
+      failed: failures.size,
+      skipped: steps.filter((s) => s.status === 'skipped').length,
+      total: steps.length,
+      duration: Date.now() - startTime,
+      failures: order.filter((step) => failures.has(step.id)).map((step) => failures.get(step.id)!),
+      steps,
+    };
+  }
+
+  /**
+   * Order steps so that every step follows its dependencies
+   */
+  private topologicalSort(steps: WorkflowStep[]): WorkflowStep[] {
+    const errors: string[] = [];
+    const byId = new Map<string, WorkflowStep>();
+
+    for (const step of steps) {
+      if (byId.has(step.id)) {
+        errors.push(`Duplicate step id: ${step.id}`);
+      }
+      byId.set(step.id, step);
+    }
+    for (const step of steps) {
+      for (const dep of step.dependsOn || []) {
+        if (!byId.has(dep)) {
+          errors.push(`Step '${step.id}' depends on unknown step '${dep}'`);
+        }
+      }
+    }
+    if (errors.length > 0) {
+      throw new WorkflowError('Invalid workflow definition', errors);
+    }
+
+    const inDegree = new Map(steps.map((step) => [step.id, (step.dependsOn || []).length]));
+    const queue = steps.filter((step) => inDegree.get(step.id) === 0);
+    const order: WorkflowStep[] = [];
+
+    while (queue.length > 0) {
+      const step = queue.shift()!;
+      order.push(step);
+      for (const dependent of steps) {
+        if ((dependent.dependsOn || []).includes(step.id)) {
+          const remaining = inDegree.get(dependent.id)! - 1;
+          inDegree.set(dependent.id, remaining);
+          if (remaining === 0) {
+            queue.push(dependent);
+          }
+        }
+      }
+    }
+
+    if (order.length !== steps.length) {
+      const cyclic = steps.filter((step) => !order.includes(step)).map((step) => step.id);
+      throw new WorkflowError('Workflow contains a dependency cycle', [
+        `Steps involved: ${cyclic.join(', ')}`,
+      ]);
+    }
+
+    return order;
+  }
+
+  /**
+   * Run a single step, recording failures instead of throwing
+   */
+  private async runStep(
+    step: WorkflowStep,
+    workflow: TestWorkflow,
+    outputs: JsonObject,
+    failures: Map<string, TestFailure>
+  ): Promise<StepResult> {
+    const startTime = Date.now();
+    const startedAt = new Date(startTime).toISOString();
+    const resolve = (expression: string) => this.resolveExpression(expression, workflow, outputs);
+    let request: RequestConfig | undefined;
+
+    try {
+      const config: JsonObject = interpolate(step.config || {}, resolve);
+      let output: unknown;
+
+      switch (step.type) {
+        case 'request': {
+          request = this.buildRequest(config, workflow);
+          const response = await executeRequest(await createAuthenticatedRequest(request), {
+            throwHttpErrors: false,
+          });
+          this.checkStatus(step, config, workflow, response.status);
+          output = response;
+          break;
+        }
+        case 'validation':
+          output = this.runValidation(step, config, outputs);
+          break;
+        case 'assertion':
+          output = this.runAssertions(config);
+          break;
+        case 'delay':
+          await new Promise((resolveDelay) => setTimeout(resolveDelay, Number(config.ms) || 0));
+          break;
+        default:
+          throw new StepFailure(`Unknown step type: ${(step as WorkflowStep).type}`);
+      }
+
+      return {
+        id: step.id,
+        type: step.type,
+        status: 'passed',
+        duration: Date.now() - startTime,
+        startedAt,
+        ...(request && { request: withoutAuth(request) }),
+        output,
+      };
+    } catch (error) {
+      const failure =
+        error instanceof StepFailure
+          ? error
+          : new StepFailure(error instanceof Error ? error.message : String(error));
+      failures.set(step.id, {
+        testName: step.id,
+        error: failure.message,
+        expected: failure.expected,
+        actual: failure.actual,
+      });
+      return {
+        id: step.id,
+        type: step.type,
+        status: 'failed',
+        duration: Date.now() - startTime,
+        startedAt,
+        ...(request && { request: withoutAuth(request) }),
+        error: failure.message,
+      };
+    }
+  }
+
+  /**
+   * Build the request for a request step, applying the workflow environment
+   */
+  private buildRequest(config: JsonObject, workflow: TestWorkflow): RequestConfig {
+    const unresolved = findPlaceholders(config);
+    if (unresolved.length > 0) {
+      throw new StepFailure(`Unresolved placeholders: ${unresolved.join(', ')}`);
+    }
+    if (!config.method || !config.url) {
+      throw new StepFailure('Request steps require method and url');
+    }
+
+    const { method, url, headers, params, data, timeout, auth, retry, insecure } =
+      config as unknown as RequestConfig;
+    return applyEnvironment(
+      {
+        method: String(method).toUpperCase() as RequestConfig['method'],
+        url,
+        headers,
+        params,
+        data,
+        timeout: timeout ?? this.timeout,
+        auth,
+        retry,
+        insecure,
+      },
+      workflow.environment
+    );
+  }
+
+  /**
+   * Fail a request step on a status outside its `expectStatus`. Without one, any
+   * 2xx passes, and so does any status when a validation or assertion step checks
+   * the response.
+   */
+  private checkStatus(
+    step: WorkflowStep,
+    config: JsonObject,
+    workflow: TestWorkflow,
+    status: number
+  ): void {
+    if (config.expectStatus !== undefined) {
+      const expected: unknown[] = [config.expectStatus].flat();
+      if (!expected.some((key) => statusMatches(String(key), status))) {
+        throw new StepFailure(
+          `Expected status ${expected.join(' or ')} but received ${status}`,
+          config.expectStatus,
+          status
+        );
+      }
+      return;
+    }
+
+    const checked = workflow.steps.some(
+      (other) =>
+        (other.type === 'validation' || other.type === 'assertion') &&
+        ((other.dependsOn || []).includes(step.id) || other.config?.step === step.id)
+    );
+    if (!checked && !statusMatches('2xx', status)) {
+      throw new StepFailure(`Request failed with status ${status}`, '2xx', status);
+    }
+  }
+
+  /**
+   * Validate the response of an earlier request step
+   */
+  private runValidation(
+    step: WorkflowStep,
+    config: JsonObject,
+    outputs: JsonObject
+  ): ResponseValidationResult {
+    const source = String(config.step || (step.dependsOn || [])[0] || '');
+    const response = source ? (outputs[source] as Response | undefined) : undefined;
+    if (!response) {
+      throw new StepFailure(`Validation step '${step.id}' has no response to validate`);
+    }
+
+    const { schema, endpoint, statusCode, headers, components, dialect } =
+      config as ValidateResponseOptions;
+    const result = this.validator.validate(response, {
+      schema,
+      endpoint,
+      statusCode,
+      headers,
+      components,
+      dialect,
+    });
+
+    if (!result.valid) {
+      throw new StepFailure(
+        `Response from '${source}' failed validation with ${result.violations.length} violation(s)`,
+        schema || statusCode,
+        result.violations
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Evaluate assertions; config is a single assertion or `{ assertions: [...] }`
+   */
+  private runAssertions(config: JsonObject): { assertions: number } {
+    const assertions: Assertion[] = Array.isArray(config.assertions)
+      ? config.assertions
+      : [config as unknown as Assertion];
+
+    for (const assertion of assertions) {
+      const operator = assertion.operator || 'equals';
+      if (!evaluateAssertion(operator, assertion.actual, assertion.expected)) {
+        throw new StepFailure(
+          assertion.message ||
+            `Assertion failed: ${JSON.stringify(assertion.actual)} ${operator} ${JSON.stringify(assertion.expected)}`,
+          assertion.expected,
+          assertion.actual
+        );
+      }
+    }
+
+    return { assertions: assertions.length };
+  }
+
+  /**
+   * Resolve `steps.<id>.<path>` from earlier outputs, otherwise an environment variable
+   */
+  private resolveExpression(
+    expression: string,
+    workflow: TestWorkflow,
+    outputs: JsonObject
+  ): unknown {
+    if (expression.startsWith('steps.')) {
+      return getPath(outputs, expression.slice('steps.'.length));
+    }
+    return workflow.environment?.variables?.[expression];
+  }
+}
+
+/**
+ * Check a status against an exact code (404) or a class (`4xx`)
+ */
+function statusMatches(expected: string, status: number): boolean {
+  const key = expected.toLowerCase();
+  return /^[1-5]xx$/.test(key) ? String(status).startsWith(key[0]) : Number(key) === status;
+}
+
+function withoutAuth(request: RequestConfig): Omit<RequestConfig, 'auth'> {
+  const copy: Partial<RequestConfig> = { ...request };
+  delete copy.auth;
+  return copy as Omit<RequestConfig, 'auth'>;
+}
+
+function evaluateAssertion(
+  operator: AssertionOperator,
+  actual: unknown,
+  expected: unknown
+): boolean {
+  switch (operator) {
+    case 'equals':
+      return JSON.stringify(actual) === JSON.stringify(expected);
+    case 'notEquals':
+      return JSON.stringify(actual) !== JSON.stringify(expected);
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'notExists':
+      return actual === undefined || actual === null;
+    case 'contains':
+      if (typeof actual === 'string') {
+        return actual.includes(String(expected));
+      }
+      return (
+        Array.isArray(actual) &&
+        actual.some((item) => JSON.stringify(item) === JSON.stringify(expected))
+      );
+    case 'matches':
+      return typeof actual === 'string' && new RegExp(String(expected)).test(actual);
+    case 'greaterThan':
+      return Number(actual) > Number(expected);
+    case 'lessThan':
+      return Number(actual) < Number(expected);
+    default:
+      throw new StepFailure(`Unknown assertion operator: ${operator}`);
+  }
+}
@@ -6,6 +6,10 @@ export interface APIConsumerConfig {
   maxConcurrentRequests?: number;
   enableMockServer?: boolean;
   testFrameworks?: string[];
+  /** Directory where executed requests are recorded */
+  historyDir?: string;
+  /** Directory where request collections are stored */
+  collectionsDir?: string;
 }
 
 /**
@@ -98,6 +102,8 @@ export interface Finding {
     file: string;
     line?: number;
     column?: number;
+    /** JSON Pointer into a specification document */
+    pointer?: string;
   };
   message: string;
   code?: string;
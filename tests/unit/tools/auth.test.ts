@@ -0,0 +1,151 @@
+import { applyAuth, AuthError, OAuth2TokenManager } from '../../../src/tools/auth';
+import axios from 'axios';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('Auth', () => {
+  const request = { method: 'GET', url: 'https://api.example.com/users' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('applyAuth', () => {
+    it('should add a bearer Authorization header', () => {
+      const result = applyAuth(request, { type: 'bearer', credentials: { token: 'abc' } });
+
+      expect(result.headers).toEqual({ Authorization: 'Bearer abc' });
+    });
+
+    it('should base64-encode basic credentials', () => {
+      const result = applyAuth(request, {
+        type: 'basic',
+        credentials: { username: 'ada', password: 's3cret' },
+      });
+
+      expect(result.headers!.Authorization).toBe(
+        `Basic ${Buffer.from('ada:s3cret').toString('base64')}`
+      );
+    });
+
+    it('should place API keys in headers, query parameters or cookies', () => {
+      const header = applyAuth(request, { type: 'apiKey', credentials: { key: 'k1' } });
+      const query = applyAuth(
+        { ...request, params: { page: 1 } },
+        { type: 'apiKey', credentials: { key: 'k2', name: 'api_key', in: 'query' } }
+      );
+      const cookie = applyAuth(
+        { ...request, headers: { Cookie: 'theme=dark' } },
+        { type: 'apiKey', credentials: { key: 'k3', name: 'session', in: 'cookie' } }
+      );
+
+      expect(header.headers).toEqual({ 'X-API-Key': 'k1' });
+      expect(query.params).toEqual({ page: 1, api_key: 'k2' });
+      expect(cookie.headers!.Cookie).toBe('theme=dark; session=k3');
+    });
+
+    it('should throw AuthError for missing credentials', () => {
+      expect(() => applyAuth(request, { type: 'bearer', credentials: {} })).toThrow(AuthError);
+      expect(() => applyAuth(request, { type: 'oauth2', credentials: {} })).toThrow(AuthError);
+    });
+  });
+
+  describe('OAuth2TokenManager', () => {
+    let manager: OAuth2TokenManager;
+    const credentials = {
+      tokenUrl: 'https://auth.example.com/token',
+      clientId: 'client',
+      clientSecret: 'secret',
+      scope: 'read',
+    };
+
+    beforeEach(() => {
+      manager = new OAuth2TokenManager();
+    });
+
+    it('should fetch a client-credentials token and cache it', async () => {
+      // Arrange
+      mockedAxios.post.mockResolvedValue({
+        data: { access_token: 't1', token_type: 'bearer', expires_in: 3600 },
+      });
+
+      // Act
+      const first = await manager.resolve({ type: 'oauth2', credentials });
+      const second = await manager.resolve({ type: 'oauth2', credentials });
+
+      // Assert
+      expect(first.credentials.accessToken).toBe('t1');
+      expect(first.credentials.tokenType).toBe('Bearer');
+      expect(second.credentials.accessToken).toBe('t1');
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+
+      const body = new URLSearchParams(mockedAxios.post.mock.calls[0][1] as string);
+      expect(body.get('grant_type')).toBe('client_credentials');
+      expect(body.get('client_id')).toBe('client');
+      expect(body.get('scope')).toBe('read');
+    });
+
+    it('should refresh expired tokens with the returned refresh token', async () => {
+      // Arrange
+      mockedAxios.post
+        .mockResolvedValueOnce({
+          data: { access_token: 't1', expires_in: 10, refresh_token: 'r1' },
+        })
+        .mockResolvedValueOnce({ data: { access_token: 't2', expires_in: 3600 } });
+
+      // Act
+      await manager.getToken(credentials);
+      const refreshed = await manager.getToken(credentials);
+
+      // Assert
+      expect(refreshed.accessToken).toBe('t2');
+      const body = new URLSearchParams(mockedAxios.post.mock.calls[1][1] as string);
+      expect(body.get('grant_type')).toBe('refresh_token');
+      expect(body.get('refresh_token')).toBe('r1');
+    });
+
+    it('should use the refresh-token grant when a refresh token is configured', async () => {
+      // Arrange
+      mockedAxios.post.mockResolvedValue({ data: { access_token: 't3' } });
+
+      // Act
+      await manager.getToken({ ...credentials, refreshToken: 'r0', clientAuth: 'basic' });
+
+      // Assert
+      const [, body, config] = mockedAxios.post.mock.calls[0];
+      const params = new URLSearchParams(body as string);
+      expect(params.get('grant_type')).toBe('refresh_token');
+      expect(params.get('client_id')).toBeNull();
+      expect(config!.headers!.Authorization).toBe(
+        `Basic ${Buffer.from('client:secret').toString('base64')}`
+      );
+    });
+
+    it('should time out token requests and fetch a new token when the secret changes', async () => {
+      // Arrange
+      mockedAxios.post
+        .mockResolvedValueOnce({ data: { access_token: 't1', expires_in: 3600 } })
+        .mockResolvedValueOnce({ data: { access_token: 't2', expires_in: 3600 } });
+
+      // Act
+      const first = await manager.getToken(credentials);
+      const rotated = await manager.getToken({ ...credentials, clientSecret: 'rotated' });
+
+      // Assert
+      expect(first.accessToken).toBe('t1');
+      expect(rotated.accessToken).toBe('t2');
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        credentials.tokenUrl,
+        expect.any(String),
+        expect.objectContaining({ timeout: 30000 })
+      );
+    });
+
+    it('should throw AuthError when the token endpoint fails', async () => {
+      mockedAxios.post.mockRejectedValue(new Error('Request failed with status code 401'));
+
+      await expect(manager.getToken(credentials)).rejects.toThrow(AuthError);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  applyCollection,
+  Collection,
+  CollectionError,
+  CollectionStore,
+  requestsInFolder,
+} from '../../../src/tools/collections';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Collections', () => {
+  let directory: string;
+  let store: CollectionStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'api-consumer-collections-'));
+    store = new CollectionStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('CollectionStore', () => {
+    it('should create collections and save requests into folders', async () => {
+      // Arrange
+      await store.create('petstore', { headers: { Accept: 'application/json' } });
+
+      // Act
+      await store.addRequest('petstore', {
+        name: 'list pets',
+        method: 'GET',
+        url: '/pets',
+        folder: '/pets/',
+      });
+      await store.addRequest('petstore', { name: 'health', method: 'GET', url: '/health' });
+
+      // Assert
+      const collection = await store.get('petstore');
+      expect(collection.headers).toEqual({ Accept: 'application/json' });
+      expect(collection.requests.map((r) => [r.name, r.folder])).toEqual([
+        ['list pets', 'pets'],
+        ['health', undefined],
+      ]);
+      expect(await store.list()).toEqual([
+        { name: 'petstore', description: undefined, requests: 2, folders: ['pets'] },
+      ]);
+      const raw = JSON.parse(await fs.readFile(path.join(directory, 'petstore.json'), 'utf-8'));
+      expect(raw.name).toBe('petstore');
+    });
+
+    it('should update, rename and move saved requests', async () => {
+      // Arrange
+      await store.create('petstore');
+      await store.addRequest('petstore', { name: 'get pet', method: 'GET', url: '/pets/1' });
+
+      // Act
+      const updated = await store.updateRequest('petstore', 'get pet', {
+        name: 'get pet by id',
+        url: '/pets/{{petId}}',
+        folder: 'pets',
+      });
+
+      // Assert
+      expect(updated).toEqual({
+        name: 'get pet by id',
+        method: 'GET',
+        url: '/pets/{{petId}}',
+        folder: 'pets',
+      });
+      await expect(store.getRequest('petstore', 'get pet')).rejects.toThrow(CollectionError);
+    });
+
+    it('should update defaults without touching omitted fields', async () => {
+      // Arrange
+      await store.create('petstore', { description: 'Pets', variables: { petId: '1' } });
+
+      // Act
+      const updated = await store.updateDefaults('petstore', { variables: { petId: '2' } });
+
+      // Assert
+      expect(updated.description).toBe('Pets');
+      expect(updated.variables).toEqual({ petId: '2' });
+    });
+
+    it('should save complete collections unless one already exists', async () => {
+      // Arrange
+      const imported: Collection = {
+        name: 'imported',
+        variables: { baseUrl: 'https://api.example.com' },
+        requests: [{ name: 'health', method: 'GET', url: '{{baseUrl}}/health', folder: 'ops' }],
+      };
+
+      // Act
+      await store.save(imported);
+
+      // Assert
+      expect((await store.get('imported')).requests).toEqual(imported.requests);
+      await expect(store.save(imported)).rejects.toThrow('Collection already exists');
+      await expect(store.save({ ...imported, requests: [] }, true)).resolves.toBeDefined();
+    });
+
+    it('should reject duplicates, invalid names and unknown collections', async () => {
+      // Arrange
+      await store.create('petstore');
+      await store.addRequest('petstore', { name: 'health', method: 'GET', url: '/health' });
+
+      // Assert
+      await expect(store.create('petstore')).rejects.toThrow('Collection already exists');
+      await expect(store.create('../escape')).rejects.toThrow('Invalid collection name');
+      await expect(store.get('missing')).rejects.toThrow('Collection not found: missing');
+      await expect(
+        store.addRequest('petstore', { name: 'health', method: 'GET', url: '/health' })
+      ).rejects.toThrow("Request 'health' already exists");
+    });
+  });
+
+  describe('requestsInFolder', () => {
+    const collection: Collection = {
+      name: 'shop',
+      requests: [
+        { name: 'a', method: 'GET', url: '/a', folder: 'users' },
+        { name: 'b', method: 'GET', url: '/b', folder: 'users/admin' },
+        { name: 'c', method: 'GET', url: '/c', folder: 'usersettings' },
+        { name: 'd', method: 'GET', url: '/d' },
+      ],
+    };
+
+    it('should include subfolders but not sibling prefixes', () => {
+      expect(requestsInFolder(collection, 'users').map((r) => r.name)).toEqual(['a', 'b']);
+      expect(requestsInFolder(collection).map((r) => r.name)).toEqual(['a', 'b', 'c', 'd']);
+    });
+  });
+
+  describe('applyCollection', () => {
+    const collection: Collection = {
+      name: 'shop',
+      headers: { Accept: 'application/json', 'X-Client': 'collection' },
+      auth: { type: 'bearer', credentials: { token: '{{token}}' } },
+      variables: { token: 'collection-token', orderId: '1' },
+      requests: [],
+    };
+
+    it('should layer environment, collection and request settings', () => {
+      // Act
+      const request = applyCollection(
+        {
+          name: 'get order',
+          folder: 'orders',
+          method: 'GET',
+          url: '/orders/{{orderId}}',
+          headers: { 'X-Client': 'request' },
+        },
+        collection,
+        {
+          name: 'staging',
+          baseUrl: 'https://staging.example.com',
+          headers: { Accept: 'text/plain', 'X-Env': 'staging' },
+          variables: { orderId: '42' },
+        }
+      );
+
+      // Assert
+      expect(request.url).toBe('https://staging.example.com/orders/42');
+      expect(request.headers).toEqual({
+        Accept: 'application/json',
+        'X-Client': 'request',
+        'X-Env': 'staging',
+      });
+      expect(request.auth).toEqual({
+        type: 'bearer',
+        credentials: { token: 'collection-token' },
+      });
+      expect(request).not.toHaveProperty('name');
+    });
+
+    it('should resolve collection variables without an environment', () => {
+      const request = applyCollection(
+        { name: 'get order', method: 'GET', url: 'https://api.example.com/orders/{{orderId}}' },
+        collection
+      );
+
+      expect(request.url).toBe('https://api.example.com/orders/1');
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { CurlError, parseCurl, toCurl } from '../../../src/tools/curl';
+
+describe('cURL', () => {
+  describe('parseCurl', () => {
+    it('should parse method, headers and a JSON body', () => {
+      // Arrange
+      const command = `curl -X PUT 'https://api.example.com/users/1' \\
+  -H 'Content-Type: application/json' \\
+  -H "Authorization: Bearer abc" \\
+  --data-raw '{"name":"O'\\''Brien"}'`;
+
+      // Act
+      const { request, warnings } = parseCurl(command);
+
+      // Assert
+      expect(request).toEqual({
+        method: 'PUT',
+        url: 'https://api.example.com/users/1',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer abc' },
+        data: { name: "O'Brien" },
+      });
+      expect(warnings).toEqual([]);
+    });
+
+    it('should default to POST with a form-encoded body for -d', () => {
+      // Act
+      const { request } = parseCurl(
+        'curl https://api.example.com/login -d user=alice -d "pass=s3cr3t"'
+      );
+
+      // Assert
+      expect(request.method).toBe('POST');
+      expect(request.headers).toEqual({ 'Content-Type': 'application/x-www-form-urlencoded' });
+      expect(request.data).toBe('user=alice&pass=s3cr3t');
+    });
+
+    it('should map -u, -k, --compressed and combined short flags', () => {
+      // Act
+      const { request, warnings } = parseCurl(
+        'curl -sSLk --compressed -u admin:p@ss -XDELETE https://api.example.com/items/9'
+      );
+
+      // Assert
+      expect(request).toEqual({
+        method: 'DELETE',
+        url: 'https://api.example.com/items/9',
+        auth: { type: 'basic', credentials: { username: 'admin', password: 'p@ss' } },
+        insecure: true,
+      });
+      expect(warnings).toEqual([]);
+    });
+
+    it('should turn -F fields into multipart data and warn about files', () => {
+      // Act
+      const { request, warnings } = parseCurl(
+        "curl https://api.example.com/upload -F title=Report -F 'file=@report.pdf'"
+      );
+
+      // Assert
+      expect(request.method).toBe('POST');
+      expect(request.headers).toEqual({ 'Content-Type': 'multipart/form-data' });
+      expect(request.data).toEqual({ title: 'Report' });
+      expect(warnings).toEqual([
+        'Cannot attach file report.pdf for form field file; field omitted',
+      ]);
+    });
+
+    it('should move data into query parameters with -G', () => {
+      // Act
+      const { request } = parseCurl(
+        "curl -G https://api.example.com/search --data-urlencode 'q=red shoes' -d page=2"
+      );
+
+      // Assert
+      expect(request.method).toBe('GET');
+      expect(request.params).toEqual({ q: 'red shoes', page: '2' });
+      expect(request.data).toBeUndefined();
+    });
+
+    it('should decode $-quoted strings and warn about unsupported options', () => {
+      // Act
+      const { request, warnings } = parseCurl(
+        "curl --proxy http://proxy:8080 -H $'X-Note: line\\tone' example.com/ping"
+      );
+
+      // Assert
+      expect(request.url).toBe('http://example.com/ping');
+      expect(request.headers).toEqual({ 'X-Note': 'line\tone' });
+      expect(warnings).toEqual(['Ignored unsupported option --proxy']);
+    });
+
+    it('should reject commands that are not curl or have no URL', () => {
+      // Act & Assert
+      expect(() => parseCurl('wget https://example.com')).toThrow(CurlError);
+      expect(() => parseCurl('curl -X POST')).toThrow('curl command has no URL');
+      expect(() => parseCurl("curl 'https://example.com")).toThrow('Unterminated single quote');
+    });
+  });
+
+  describe('toCurl', () => {
+    it('should render method, headers, params and a JSON body', () => {
+      // Act
+      const command = toCurl({
+        method: 'PATCH',
+        url: 'https://api.example.com/users/1',
+        params: { notify: true },
+        headers: { 'X-Request-Id': 'abc' },
+        data: { name: "O'Brien" },
+        timeout: 5000,
+      });
+
+      // Assert
+      expect(command).toBe(
+        "curl -X PATCH 'https://api.example.com/users/1?notify=true' -H 'X-Request-Id: abc' " +
+          "-H 'Content-Type: application/json' --data-raw '{\"name\":\"O'\\''Brien\"}' --max-time 5"
+      );
+    });
+
+    it('should keep the method of bodied requests other than POST', () => {
+      // Act
+      const get = toCurl({ method: 'GET', url: 'https://api.example.com/search', data: 'q=ada' });
+      const post = toCurl({ method: 'POST', url: 'https://api.example.com/search' });
+
+      // Assert
+      expect(get).toBe('curl -X GET https://api.example.com/search --data-raw q=ada');
+      expect(post).toBe('curl -X POST https://api.example.com/search');
+      expect(parseCurl(get).request.method).toBe('GET');
+    });
+
+    it('should render auth, multipart forms and insecure requests', () => {
+      // Act
+      const basic = toCurl({
+        method: 'POST',
+        url: 'https://api.example.com/upload',
+        headers: { 'Content-Type': 'multipart/form-data' },
+        data: { title: 'Report' },
+        auth: { type: 'basic', credentials: { username: 'admin', password: 'secret' } },
+        insecure: true,
+      });
+      const apiKey = toCurl({
+        method: 'GET',
+        url: 'https://api.example.com/items',
+        auth: { type: 'apiKey', credentials: { key: 'k1', name: 'api_key', in: 'query' } },
+      });
+
+      // Assert
+      expect(basic).toBe(
+        'curl https://api.example.com/upload -u admin:secret --form-string title=Report -k'
+      );
+      expect(apiKey).toBe("curl 'https://api.example.com/items?api_key=k1'");
+    });
+
+    it('should round-trip through parseCurl', () => {
+      // Arrange
+      const original = {
+        method: 'POST' as const,
+        url: 'https://api.example.com/orders',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        data: { items: [{ sku: 'A-1', note: 'it\'s "fragile"' }] },
+        auth: { type: 'basic' as const, credentials: { username: 'u', password: 'p w' } },
+      };
+
+      // Act
+      const { request } = parseCurl(toCurl(original));
+
+      // Assert
+      expect(request).toEqual(original);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  EnvironmentManager,
+  EnvironmentError,
+  applyEnvironment,
+  joinUrl,
+} from '../../../src/tools/environments';
+import { Environment } from '../../../src/types';
+
+describe('Environments', () => {
+  let manager: EnvironmentManager;
+
+  const staging: Environment = {
+    name: 'staging',
+    baseUrl: 'https://staging.example.com/api/',
+    headers: { 'X-Env': 'staging', Accept: 'application/json' },
+    auth: { type: 'bearer', credentials: { token: '{{token}}' } },
+    variables: { token: 'stg-token', userId: '42', tenant: 'acme' },
+  };
+
+  beforeEach(() => {
+    manager = new EnvironmentManager();
+  });
+
+  describe('EnvironmentManager', () => {
+    it('should define, list and select environments', () => {
+      // Act
+      manager.define(staging);
+      manager.define({ name: 'prod', baseUrl: 'https://api.example.com' });
+      manager.select('prod');
+
+      // Assert
+      const list = manager.list();
+      expect(list.active).toBe('prod');
+      expect(list.environments.map((e) => e.name)).toEqual(['staging', 'prod']);
+    });
+
+    it('should clear the selection when the active environment is deleted', () => {
+      // Arrange
+      manager.define(staging);
+      manager.select('staging');
+
+      // Act
+      manager.delete('staging');
+
+      // Assert
+      expect(manager.list()).toEqual({ active: undefined, environments: [] });
+    });
+
+    it('should apply the active environment unless another is named', () => {
+      // Arrange
+      manager.define(staging);
+      manager.define({ name: 'prod', baseUrl: 'https://api.example.com' });
+      manager.select('staging');
+
+      // Act
+      const active = manager.resolve({ method: 'GET', url: '/users' });
+      const named = manager.resolve({ method: 'GET', url: '/users' }, 'prod');
+
+      // Assert
+      expect(active.url).toBe('https://staging.example.com/api/users');
+      expect(named.url).toBe('https://api.example.com/users');
+    });
+
+    it('should leave requests untouched without an environment', () => {
+      const request = { method: 'GET' as const, url: '/users/{{userId}}' };
+
+      expect(manager.resolve(request)).toBe(request);
+    });
+
+    it('should throw EnvironmentError for unknown or invalid environments', () => {
+      expect(() => manager.select('missing')).toThrow(EnvironmentError);
+      expect(() => manager.define({ name: '', baseUrl: '' })).toThrow(EnvironmentError);
+    });
+  });
+
+  describe('applyEnvironment', () => {
+    it('should resolve variables in url, headers, params, body and auth', () => {
+      // Act
+      const request = applyEnvironment(
+        {
+          method: 'POST',
+          url: '/users/{{userId}}',
+          headers: { 'X-Tenant': '{{tenant}}', Accept: 'text/plain' },
+          params: { tenant: '{{tenant}}' },
+          data: { owner: '{{userId}}', note: 'user {{userId}}' },
+        },
+        staging
+      );
+
+      // Assert
+      expect(request).toEqual({
+        method: 'POST',
+        url: 'https://staging.example.com/api/users/42',
+        headers: { 'X-Env': 'staging', Accept: 'text/plain', 'X-Tenant': 'acme' },
+        params: { tenant: 'acme' },
+        data: { owner: '42', note: 'user 42' },
+        auth: { type: 'bearer', credentials: { token: 'stg-token' } },
+      });
+    });
+
+    it('should keep absolute URLs and request auth', () => {
+      // Act
+      const request = applyEnvironment(
+        {
+          method: 'GET',
+          url: 'https://other.example.com/health',
+          auth: { type: 'basic', credentials: { username: 'ada' } },
+        },
+        staging
+      );
+
+      // Assert
+      expect(request.url).toBe('https://other.example.com/health');
+      expect(request.auth!.type).toBe('basic');
+    });
+
+    it('should throw EnvironmentError for unresolved variables', () => {
+      expect(() =>
+        applyEnvironment({ method: 'GET', url: '/orders/{{orderId}}' }, staging)
+      ).toThrow("Unresolved variables in environment 'staging': orderId");
+    });
+  });
+
+  describe('joinUrl', () => {
+    it('should join base and relative URLs with a single slash', () => {
+      expect(joinUrl('https://x.test/', '/a')).toBe('https://x.test/a');
+      expect(joinUrl('https://x.test', 'a')).toBe('https://x.test/a');
+      expect(joinUrl('https://x.test', 'http://y.test/a')).toBe('http://y.test/a');
+    });
+  });
+});
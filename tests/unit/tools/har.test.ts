@@ -0,0 +1,259 @@
+import {
+  exportHar,
+  fromHistoryEntry,
+  fromWorkflowRun,
+  HarError,
+  importHar,
+  importHarFile,
+} from '../../../src/tools/har';
+import { HistoryEntry } from '../../../src/tools/history';
+import { WorkflowRunResult } from '../../../src/tools/workflow-runner';
+import * as fs from 'fs/promises';
+
+jest.mock('fs/promises');
+
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('HAR', () => {
+  const capture = {
+    log: {
+      version: '1.2',
+      creator: { name: 'WebInspector', version: '537.36' },
+      entries: [
+        {
+          _resourceType: 'fetch',
+          request: {
+            method: 'POST',
+            url: 'https://api.example.com/users?invite=true',
+            headers: [
+              { name: ':authority', value: 'api.example.com' },
+              { name: 'Host', value: 'api.example.com' },
+              { name: 'Content-Type', value: 'application/json' },
+              { name: 'Content-Length', value: '17' },
+              { name: 'X-Request-Id', value: 'abc' },
+            ],
+            postData: { mimeType: 'application/json', text: '{"name":"Alice"}' },
+          },
+          response: { status: 201, content: { mimeType: 'application/json' } },
+        },
+        {
+          _resourceType: 'image',
+          request: { method: 'GET', url: 'https://cdn.example.com/logo.png', headers: [] },
+          response: { status: 200, content: { mimeType: 'image/png' } },
+        },
+        {
+          request: { method: 'GET', url: 'https://cdn.example.com/app.js', headers: [] },
+          response: { status: 200, content: { mimeType: 'application/javascript' } },
+        },
+        {
+          request: {
+            method: 'POST',
+            url: 'https://api.example.com/upload',
+            headers: [],
+            postData: {
+              mimeType: 'multipart/form-data',
+              params: [
+                { name: 'title', value: 'Report' },
+                { name: 'file', fileName: 'report.pdf', contentType: 'application/pdf' },
+              ],
+            },
+          },
+          response: { status: 200, content: { mimeType: 'application/json' } },
+        },
+        {
+          request: { method: 'GET', url: 'data:text/plain,hello', headers: [] },
+          response: { status: 200, content: { mimeType: 'text/plain' } },
+        },
+        {
+          request: { method: 'POST', url: 'https://api.example.com/users', headers: [] },
+          response: { status: 201, content: { mimeType: 'application/json' } },
+        },
+      ],
+    },
+  };
+
+  describe('importHar', () => {
+    it('should convert API calls into requests and skip static resources', () => {
+      // Act
+      const result = importHar(capture);
+
+      // Assert
+      expect(result.requests.map((r) => r.name)).toEqual([
+        'POST /users',
+        'POST /upload',
+        'POST /users (2)',
+      ]);
+      expect(result.skipped).toBe(3);
+      expect(result.requests[0]).toEqual({
+        name: 'POST /users',
+        method: 'POST',
+        url: 'https://api.example.com/users?invite=true',
+        headers: { 'Content-Type': 'application/json', 'X-Request-Id': 'abc' },
+        data: { name: 'Alice' },
+      });
+    });
+
+    it('should drop file parameters from form posts with a warning', () => {
+      // Act
+      const result = importHar(capture);
+
+      // Assert
+      expect(result.requests[1].data).toEqual({ title: 'Report' });
+      expect(result.warnings).toEqual([
+        'POST https://api.example.com/upload uploads files; file parameters were dropped',
+      ]);
+    });
+
+    it('should keep static resources and filter by URL when asked', () => {
+      // Act
+      const result = importHar(capture, { includeStatic: true, urlContains: 'cdn.example.com' });
+
+      // Assert
+      expect(result.requests.map((r) => r.url)).toEqual([
+        'https://cdn.example.com/logo.png',
+        'https://cdn.example.com/app.js',
+      ]);
+    });
+
+    it('should reject documents without entries', () => {
+      // Act & Assert
+      expect(() => importHar({ log: {} })).toThrow(HarError);
+    });
+
+    it('should report unreadable files as HarError', async () => {
+      // Arrange
+      mockedFs.readFile.mockResolvedValue('not json' as any);
+
+      // Act & Assert
+      await expect(importHarFile('capture.har')).rejects.toThrow(
+        /Failed to read HAR file capture.har/
+      );
+    });
+  });
+
+  describe('exportHar', () => {
+    const entry: HistoryEntry = {
+      id: '20241019T120000123Z-0001abcd',
+      timestamp: '2024-10-19T12:00:00.123Z',
+      request: {
+        method: 'GET',
+        url: '/users',
+        headers: { Authorization: '[REDACTED]' },
+        params: { page: 2 },
+      },
+      environment: 'staging',
+      url: 'https://api.example.com/users',
+      method: 'GET',
+      response: {
+        status: 200,
+        statusText: 'OK',
+        ok: true,
+        headers: { 'content-type': 'application/json' },
+        data: [{ id: 1 }],
+        metadata: {
+          attempts: [],
+          timing: {
+            dnsLookup: 2,
+            tcpConnect: 3,
+            tlsHandshake: 5,
+            timeToFirstByte: 30,
+            contentTransfer: 10,
+            total: 40,
+          },
+          transfer: { requestBytes: 120, responseBytes: 11, remoteAddress: '10.0.0.5' },
+        },
+      },
+      duration: 42,
+    };
+
+    it('should export history entries with timings', () => {
+      // Act
+      const har = exportHar([fromHistoryEntry(entry)], '1.2.3');
+
+      // Assert
+      const [exported] = har.log.entries;
+      expect(har.log.version).toBe('1.2');
+      expect(har.log.creator).toEqual({ name: 'api-consumer', version: '1.2.3' });
+      expect(exported.startedDateTime).toBe(entry.timestamp);
+      expect(exported.request.url).toBe('https://api.example.com/users?page=2');
+      expect(exported.request.queryString).toEqual([{ name: 'page', value: '2' }]);
+      expect(exported.request.headers).toEqual([{ name: 'Authorization', value: '[REDACTED]' }]);
+      expect(exported.response.content).toEqual({
+        size: 10,
+        mimeType: 'application/json',
+        text: '[{"id":1}]',
+      });
+      expect(exported.timings).toEqual({
+        blocked: -1,
+        dns: 2,
+        connect: 8,
+        ssl: 5,
+        send: 0,
+        wait: 20,
+        receive: 10,
+      });
+      expect(exported.time).toBe(40);
+      expect(exported.serverIPAddress).toBe('10.0.0.5');
+      expect(exported.comment).toBe(`history ${entry.id}`);
+    });
+
+    it('should export transport errors with status 0', () => {
+      // Arrange
+      const failed: HistoryEntry = {
+        ...entry,
+        response: undefined,
+        error: { code: 'CONNECTION_REFUSED', message: 'connect ECONNREFUSED' },
+      };
+
+      // Act
+      const [exported] = exportHar([fromHistoryEntry(failed)]).log.entries;
+
+      // Assert
+      expect(exported.response.status).toBe(0);
+      expect(exported.response._error).toBe('connect ECONNREFUSED');
+      expect(exported.timings.wait).toBe(42);
+    });
+
+    it('should export the request steps of a workflow run', () => {
+      // Arrange
+      const run: WorkflowRunResult = {
+        workflowId: 'signup',
+        passed: 1,
+        failed: 1,
+        skipped: 0,
+        total: 2,
+        duration: 60,
+        steps: [
+          {
+            id: 'create',
+            type: 'request',
+            status: 'passed',
+            duration: 40,
+            startedAt: '2024-10-19T12:00:00.000Z',
+            request: { method: 'POST', url: 'https://api.example.com/users', data: { a: 1 } },
+            output: { ...entry.response!, status: 201, statusText: 'Created' },
+          },
+          {
+            id: 'check',
+            type: 'assertion',
+            status: 'failed',
+            duration: 1,
+            error: 'expected 201',
+          },
+        ],
+      };
+
+      // Act
+      const har = exportHar(fromWorkflowRun(run));
+
+      // Assert
+      expect(har.log.entries).toHaveLength(1);
+      expect(har.log.entries[0].request.postData).toEqual({
+        mimeType: 'application/json',
+        text: '{"a":1}',
+      });
+      expect(har.log.entries[0].response.status).toBe(201);
+      expect(har.log.entries[0].comment).toBe('signup/create');
+    });
+  });
+});
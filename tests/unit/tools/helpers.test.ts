@@ -0,0 +1,47 @@
+import {
+  deleteHeader,
+  headerValue,
+  setDefaultHeader,
+  slugify,
+  uniqueName,
+  withParams,
+} from '../../../src/tools/helpers';
+
+describe('Helpers', () => {
+  it('should read, default and delete headers case-insensitively', () => {
+    // Arrange
+    const headers: Record<string, any> = {
+      'content-type': 'text/plain',
+      'Set-Cookie': ['a=1', 'b=2'],
+    };
+
+    // Act
+    setDefaultHeader(headers, 'Content-Type', 'application/json');
+    setDefaultHeader(headers, 'Accept', 'application/json');
+    const cookies = headerValue(headers, 'set-cookie');
+    deleteHeader(headers, 'CONTENT-TYPE');
+
+    // Assert
+    expect(cookies).toBe('a=1, b=2');
+    expect(headers).toEqual({ 'Set-Cookie': ['a=1', 'b=2'], Accept: 'application/json' });
+    expect(headerValue(headers, 'content-type')).toBeUndefined();
+    expect(headerValue(undefined, 'accept')).toBeUndefined();
+  });
+
+  it('should append encoded query parameters, skipping empty values', () => {
+    // Act & Assert
+    expect(withParams('https://x/search?page=2', { q: 'a b&c', limit: 10, skip: undefined })).toBe(
+      'https://x/search?page=2&q=a%20b%26c&limit=10'
+    );
+    expect(withParams('https://x/search', { skip: null })).toBe('https://x/search');
+  });
+
+  it('should number taken names and slugify with a fallback', () => {
+    // Act & Assert
+    expect(uniqueName('GET /users', [{ name: 'GET /users' }, { name: 'GET /users (2)' }])).toBe(
+      'GET /users (3)'
+    );
+    expect(slugify('  Pet Store API v2! ', 'api')).toBe('pet-store-api-v2');
+    expect(slugify('???', 'api')).toBe('api');
+  });
+});
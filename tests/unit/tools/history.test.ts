@@ -0,0 +1,169 @@
+import { HistoryError, HistoryStore, stripRedacted } from '../../../src/tools/history';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('History Store', () => {
+  let directory: string;
+  let store: HistoryStore;
+
+  const entry = (method: string, url: string, status?: number) => ({
+    request: { method, url },
+    method,
+    url,
+    response: status
+      ? { data: {}, ok: status < 300, status, statusText: '', headers: {} }
+      : undefined,
+    error: status ? undefined : { code: 'CONNECTION_REFUSED', message: 'connect ECONNREFUSED' },
+    duration: 12,
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'api-consumer-history-'));
+    store = new HistoryStore(directory, 3);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('record', () => {
+    it('should persist entries with credentials and sensitive headers redacted', async () => {
+      // Act
+      const recorded = await store.record({
+        ...entry('GET', '/users', 200),
+        request: {
+          method: 'GET',
+          url: '/users',
+          headers: { Authorization: 'Bearer abc', Accept: 'application/json' },
+          auth: { type: 'basic', credentials: { username: 'ada', password: 'secret' } },
+        },
+        environment: 'staging',
+      });
+
+      // Assert
+      const stored = await store.get(recorded.id);
+      expect(stored.environment).toBe('staging');
+      expect(stored.request.headers).toEqual({
+        Authorization: '[REDACTED]',
+        Accept: 'application/json',
+      });
+      expect(stored.request.auth.credentials).toEqual({
+        username: '[REDACTED]',
+        password: '[REDACTED]',
+      });
+      const raw = await fs.readFile(path.join(directory, `${recorded.id}.json`), 'utf-8');
+      expect(raw).not.toContain('secret');
+    });
+
+    it('should redact sensitive query parameters in params and URLs', async () => {
+      // Act
+      const recorded = await store.record({
+        ...entry('GET', 'https://api.example.com/users?api_key=abc123&page=2', 200),
+        request: {
+          method: 'GET',
+          url: '/users?api_key=abc123&page=2',
+          params: { access_token: 'xyz789', sort: 'name' },
+        },
+      });
+
+      // Assert
+      const stored = await store.get(recorded.id);
+      expect(stored.url).toBe('https://api.example.com/users?api_key=[REDACTED]&page=2');
+      expect(stored.request.url).toBe('/users?api_key=[REDACTED]&page=2');
+      expect(stored.request.params).toEqual({ access_token: '[REDACTED]', sort: 'name' });
+      const raw = await fs.readFile(path.join(directory, `${recorded.id}.json`), 'utf-8');
+      expect(raw).not.toContain('abc123');
+      expect(raw).not.toContain('xyz789');
+    });
+
+    it('should keep only the newest maxEntries entries', async () => {
+      // Act
+      for (const id of [1, 2, 3, 4]) {
+        await store.record(entry('GET', `/items/${id}`, 200));
+      }
+
+      // Assert
+      const urls = (await store.list()).map((summary) => summary.url);
+      expect(urls).toEqual(['/items/4', '/items/3', '/items/2']);
+    });
+  });
+
+  describe('list', () => {
+    beforeEach(async () => {
+      await store.record(entry('GET', '/users', 200));
+      await store.record(entry('POST', '/users', 422));
+      await store.record(entry('GET', '/orders/7', undefined));
+    });
+
+    it('should list summaries newest first', async () => {
+      // Act
+      const summaries = await store.list();
+
+      // Assert
+      expect(summaries).toEqual([
+        expect.objectContaining({ method: 'GET', url: '/orders/7', error: 'connect ECONNREFUSED' }),
+        expect.objectContaining({ method: 'POST', url: '/users', status: 422 }),
+        expect.objectContaining({ method: 'GET', url: '/users', status: 200 }),
+      ]);
+    });
+
+    it('should filter by text, method, status class and limit', async () => {
+      expect(await store.list({ query: 'users' })).toHaveLength(2);
+      expect(await store.list({ method: 'post' })).toHaveLength(1);
+      expect((await store.list({ status: '4xx' }))[0].status).toBe(422);
+      expect(await store.list({ status: 200 })).toHaveLength(1);
+      expect(await store.list({ limit: 1 })).toHaveLength(1);
+    });
+  });
+
+  describe('get and clear', () => {
+    it('should reject unknown and malformed ids', async () => {
+      await expect(store.get('../../etc/passwd')).rejects.toThrow(HistoryError);
+      await expect(store.get('20240101T000000000Z-0000abcd')).rejects.toThrow(
+        'History entry not found'
+      );
+    });
+
+    it('should remove every entry', async () => {
+      // Arrange
+      await store.record(entry('GET', '/users', 200));
+
+      // Act
+      const removed = await store.clear();
+
+      // Assert
+      expect(removed).toBe(1);
+      expect(await store.list()).toEqual([]);
+    });
+  });
+
+  describe('stripRedacted', () => {
+    it('should drop redacted headers and auth before replay', () => {
+      expect(
+        stripRedacted({
+          method: 'GET',
+          url: '/users',
+          headers: { Authorization: '[REDACTED]', Accept: 'application/json' },
+          auth: { type: 'bearer', credentials: { token: '[REDACTED]' } },
+        })
+      ).toEqual({
+        request: { method: 'GET', url: '/users', headers: { Accept: 'application/json' } },
+        dropped: ['header Authorization', 'auth'],
+      });
+    });
+
+    it('should drop redacted query parameters from params and the URL', () => {
+      expect(
+        stripRedacted({
+          method: 'GET',
+          url: '/users?api_key=[REDACTED]&page=2#top',
+          params: { token: '[REDACTED]', sort: 'name' },
+        })
+      ).toEqual({
+        request: { method: 'GET', url: '/users?page=2#top', params: { sort: 'name' } },
+        dropped: ['query token', 'query api_key'],
+      });
+    });
+  });
+});
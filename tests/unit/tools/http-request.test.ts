@@ -1,4 +1,11 @@
-import { createRequest, executeRequest } from '../../../src/tools/http-request';
+import {
+  classifyTransportError,
+  createAuthenticatedRequest,
+  createRequest,
+  executeRequest,
+  RequestError,
+} from '../../../src/tools/http-request';
+import { HTTPMethod } from '../../../src/tools/openapi-importer';
 import axios from 'axios';
 
 jest.mock('axios');
@@ -123,5 +130,213 @@ describe('HTTP Request Builder', () => {
       // Assert
       expect(request.timeout).toBe(5000);
     });
+
+    it('should accept every method an imported endpoint can have', () => {
+      // Arrange
+      const method: HTTPMethod = 'TRACE';
+
+      // Act
+      const request = createRequest({ method, url: 'https://api.example.com/test' });
+
+      // Assert
+      expect(request.method).toBe('TRACE');
+    });
+
+    it('should skip certificate verification for insecure requests', async () => {
+      // Arrange
+      mockedAxios.request.mockResolvedValue({
+        data: {},
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+      });
+
+      // Act
+      const request = createRequest({
+        method: 'GET',
+        url: 'https://self-signed.example.com',
+        insecure: true,
+      });
+      await executeRequest(request, { measureTiming: false });
+
+      // Assert
+      const sent = mockedAxios.request.mock.calls[0][0];
+      expect(sent).not.toHaveProperty('insecure');
+      expect(sent.httpsAgent.options.rejectUnauthorized).toBe(false);
+    });
+  });
+
+  describe('authentication', () => {
+    it('should inject credentials from an AuthConfig', () => {
+      // Arrange & Act
+      const request = createRequest({
+        method: 'GET',
+        url: 'https://api.example.com/test',
+        headers: { Accept: 'application/json' },
+        auth: { type: 'bearer', credentials: { token: 'token123' } },
+      });
+
+      // Assert
+      expect(request.headers).toEqual({
+        Accept: 'application/json',
+        Authorization: 'Bearer token123',
+      });
+      expect(request.auth).toBeUndefined();
+    });
+
+    it('should fetch OAuth2 tokens before building the request', async () => {
+      // Arrange
+      mockedAxios.post.mockResolvedValue({ data: { access_token: 'oauth-token' } });
+
+      // Act
+      const request = await createAuthenticatedRequest({
+        method: 'GET',
+        url: 'https://api.example.com/test',
+        auth: {
+          type: 'oauth2',
+          credentials: { tokenUrl: 'https://auth.example.com/token', clientId: 'c1' },
+        },
+      });
+
+      // Assert
+      expect(request.headers).toEqual({ Authorization: 'Bearer oauth-token' });
+    });
+  });
+
+  describe('retries', () => {
+    const unavailable = (headers: Record<string, string> = {}) =>
+      Object.assign(new Error('Request failed with status code 503'), {
+        response: { status: 503, headers },
+      });
+
+    it('should retry retryable failures and record every attempt', async () => {
+      // Arrange
+      mockedAxios.request
+        .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+        .mockRejectedValueOnce(unavailable({ 'retry-after': '0' }))
+        .mockResolvedValueOnce({ data: 'ok', status: 200, statusText: 'OK', headers: {} });
+
+      const request = createRequest({
+        method: 'GET',
+        url: 'https://api.example.com/flaky',
+        retry: { maxAttempts: 3, baseDelay: 1, jitter: 0 },
+      });
+
+      // Act
+      const response = await executeRequest(request);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockedAxios.request).toHaveBeenCalledTimes(3);
+      expect(mockedAxios.request.mock.calls[0][0]).not.toHaveProperty('retry');
+      expect(response.metadata!.attempts).toEqual([
+        expect.objectContaining({ attempt: 1, code: 'ECONNRESET', delay: 1 }),
+        expect.objectContaining({ attempt: 2, status: 503, delay: 0 }),
+        expect.objectContaining({ attempt: 3, status: 200 }),
+      ]);
+    });
+
+    it('should throw the last error with its attempts once attempts are exhausted', async () => {
+      // Arrange
+      mockedAxios.request.mockRejectedValue(unavailable());
+
+      // Act
+      const result = executeRequest({
+        method: 'GET',
+        url: 'https://api.example.com/down',
+        retry: { maxAttempts: 2, baseDelay: 1 },
+      });
+
+      // Assert
+      await expect(result).rejects.toMatchObject({
+        message: 'Request failed with status code 503',
+        attempts: [{ attempt: 1 }, { attempt: 2 }],
+      });
+      expect(mockedAxios.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry non-idempotent methods by default', async () => {
+      // Arrange
+      mockedAxios.request.mockRejectedValue(unavailable());
+
+      // Act
+      const result = executeRequest({
+        method: 'POST',
+        url: 'https://api.example.com/orders',
+        retry: { maxAttempts: 3, baseDelay: 1 },
+      });
+
+      // Assert
+      await expect(result).rejects.toThrow('503');
+      expect(mockedAxios.request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('error handling', () => {
+    it('should return non-2xx responses when throwHttpErrors is false', async () => {
+      // Arrange
+      mockedAxios.request.mockResolvedValue({
+        data: { error: 'not found' },
+        status: 404,
+        statusText: 'Not Found',
+        headers: { 'content-type': 'application/json' },
+      });
+
+      // Act
+      const response = await executeRequest(
+        { method: 'GET', url: 'https://api.example.com/users/999' },
+        { throwHttpErrors: false }
+      );
+
+      // Assert
+      expect(response).toMatchObject({ ok: false, status: 404, data: { error: 'not found' } });
+      const validateStatus = mockedAxios.request.mock.calls[0][0].validateStatus!;
+      expect(validateStatus(500)).toBe(true);
+    });
+
+    it('should retry retryable statuses when throwHttpErrors is false', async () => {
+      // Arrange
+      mockedAxios.request
+        .mockResolvedValueOnce({ data: '', status: 503, statusText: '', headers: {} })
+        .mockResolvedValueOnce({ data: '', status: 200, statusText: 'OK', headers: {} });
+
+      // Act
+      const response = await executeRequest(
+        { method: 'GET', url: 'https://api.example.com/flaky', retry: { baseDelay: 1 } },
+        { throwHttpErrors: false }
+      );
+
+      // Assert
+      expect(response.ok).toBe(true);
+      expect(response.metadata!.attempts.map((attempt) => attempt.status)).toEqual([503, 200]);
+    });
+
+    it('should throw a classified RequestError for transport failures', async () => {
+      // Arrange
+      mockedAxios.request.mockRejectedValue(
+        Object.assign(new Error('getaddrinfo ENOTFOUND nowhere.invalid'), { code: 'ENOTFOUND' })
+      );
+
+      // Act
+      const result = executeRequest(
+        { method: 'GET', url: 'https://nowhere.invalid' },
+        { throwHttpErrors: false }
+      );
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(RequestError);
+      await expect(result).rejects.toMatchObject({
+        code: 'DNS_LOOKUP_FAILED',
+        message: 'getaddrinfo ENOTFOUND nowhere.invalid',
+      });
+    });
+
+    it('should classify common transport error codes', () => {
+      expect(classifyTransportError({ code: 'ECONNREFUSED' })).toBe('CONNECTION_REFUSED');
+      expect(classifyTransportError({ code: 'ECONNABORTED' })).toBe('TIMEOUT');
+      expect(classifyTransportError({ code: 'DEPTH_ZERO_SELF_SIGNED_CERT' })).toBe('TLS_ERROR');
+      expect(classifyTransportError({ code: 'ERR_CANCELED' })).toBe('ABORTED');
+      expect(classifyTransportError(new Error('boom'))).toBe('NETWORK_ERROR');
+    });
   });
 });
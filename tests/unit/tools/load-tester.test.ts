@@ -0,0 +1,128 @@
+import {
+  LoadTester,
+  LoadTestError,
+  MAX_CONCURRENCY,
+  computeLatencyStats,
+} from '../../../src/tools/load-tester';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+describe('Load Tester', () => {
+  let tester: LoadTester;
+  let server: http.Server;
+  let baseUrl: string;
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      setTimeout(() => {
+        inFlight--;
+        res.statusCode = req.url === '/fail' ? 503 : 200;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ ok: res.statusCode === 200 }));
+      }, 5);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    tester = new LoadTester();
+    maxInFlight = 0;
+  });
+
+  describe('run', () => {
+    it('should report latency, throughput and status codes', async () => {
+      // Act
+      const report = await tester.run(
+        { method: 'GET', url: `${baseUrl}/ok` },
+        { iterations: 20, concurrency: 4 }
+      );
+
+      // Assert
+      expect(report.iterations).toBe(20);
+      expect(report.successful).toBe(20);
+      expect(report.errorRate).toBe(0);
+      expect(report.statusCodes).toEqual({ '200': 20 });
+      expect(report.throughput).toBeGreaterThan(0);
+      expect(report.latency.min).toBeGreaterThanOrEqual(4);
+      expect(report.latency.min).toBeLessThanOrEqual(report.latency.p50);
+      expect(report.latency.p50).toBeLessThanOrEqual(report.latency.p99);
+      expect(report.latency.p99).toBeLessThanOrEqual(report.latency.max);
+      expect(maxInFlight).toBe(4);
+    });
+
+    it('should count failed responses in the error rate', async () => {
+      // Act
+      const report = await tester.run(
+        { method: 'GET', url: `${baseUrl}/fail` },
+        { iterations: 5, concurrency: 5 }
+      );
+
+      // Assert
+      expect(report.failed).toBe(5);
+      expect(report.errorRate).toBe(1);
+      expect(report.statusCodes).toEqual({ '503': 5 });
+    });
+
+    it('should count transport errors separately', async () => {
+      // Act
+      const report = await tester.run(
+        { method: 'GET', url: 'http://127.0.0.1:1/unreachable', timeout: 1000 },
+        { iterations: 2, concurrency: 1 }
+      );
+
+      // Assert
+      expect(report.statusCodes).toEqual({ error: 2 });
+      expect(Object.values(report.errors)).toEqual([2]);
+    });
+
+    it('should cap concurrency at MAX_CONCURRENCY', async () => {
+      // Act
+      const report = await tester.run(
+        { method: 'GET', url: `${baseUrl}/ok` },
+        { iterations: 150, concurrency: 1000 }
+      );
+
+      // Assert
+      expect(report).toMatchObject({ iterations: 150, concurrency: MAX_CONCURRENCY });
+      expect(maxInFlight).toBeLessThanOrEqual(MAX_CONCURRENCY);
+    });
+
+    it('should throw LoadTestError for invalid options', async () => {
+      await expect(tester.run({ method: 'GET', url: baseUrl }, { iterations: 0 })).rejects.toThrow(
+        LoadTestError
+      );
+      await expect(
+        tester.run({ method: 'GET', url: baseUrl }, { concurrency: 1.5 })
+      ).rejects.toThrow(LoadTestError);
+    });
+  });
+
+  describe('computeLatencyStats', () => {
+    it('should compute nearest-rank percentiles', () => {
+      const latencies = Array.from({ length: 100 }, (_, i) => i + 1);
+
+      expect(computeLatencyStats(latencies)).toEqual({
+        min: 1,
+        max: 100,
+        mean: 50.5,
+        p50: 50,
+        p90: 90,
+        p95: 95,
+        p99: 99,
+      });
+    });
+
+    it('should return zeros for no samples', () => {
+      expect(computeLatencyStats([]).p99).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  MockServerManager,
+  MockServerError,
+  compilePathTemplate,
+} from '../../../src/tools/mock-server';
+import { OpenAPISpecification } from '../../../src/tools/openapi-importer';
+import axios from 'axios';
+
+describe('Mock Server', () => {
+  let manager: MockServerManager;
+
+  const specification: OpenAPISpecification = {
+    info: { title: 'Users API', version: '1.0.0' },
+    endpoints: [
+      {
+        path: '/users',
+        method: 'GET',
+        parameters: [],
+        responses: [
+          {
+            statusCode: '200',
+            description: 'Success',
+            content: [
+              {
+                mimeType: 'application/json',
+                example: [{ id: 1, name: 'Ada' }],
+              },
+            ],
+            headers: {
+              'X-Total-Count': { required: true, schema: { type: 'integer', minimum: 1 } },
+            },
+          },
+        ],
+      },
+      {
+        path: '/users/{id}',
+        method: 'GET',
+        parameters: [],
+        responses: [
+          { statusCode: '404', description: 'Not found' },
+          {
+            statusCode: '200',
+            description: 'Success',
+            content: [
+              {
+                mimeType: 'application/json',
+                schema: {
+                  type: 'object',
+                  properties: { user: { $ref: '#/components/schemas/User' } },
+                },
+              },
+            ],
+          },
+        ],
+      },
+      {
+        path: '/users/me',
+        method: 'GET',
+        parameters: [],
+        responses: [
+          {
+            statusCode: '200',
+            description: 'Current user',
+            content: [{ mimeType: 'application/json', examples: { me: { id: 0, name: 'Me' } } }],
+          },
+        ],
+      },
+      {
+        path: '/users/{id}',
+        method: 'DELETE',
+        parameters: [],
+        responses: [{ statusCode: '204', description: 'Deleted' }],
+      },
+    ],
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            email: { type: 'string', format: 'email' },
+          },
+        },
+      },
+    },
+    raw: {},
+  };
+
+  const client = axios.create({ validateStatus: () => true });
+
+  beforeEach(() => {
+    manager = new MockServerManager();
+  });
+
+  afterEach(async () => {
+    await manager.stopAll();
+  });
+
+  describe('start', () => {
+    it('should serve spec examples for the first 2xx response', async () => {
+      // Arrange
+      const info = await manager.start(specification, { port: 0 });
+
+      // Act
+      const response = await client.get(`${info.url}/users`);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.data).toEqual([{ id: 1, name: 'Ada' }]);
+      expect(response.headers['x-total-count']).toBe('1');
+    });
+
+    it('should synthesize bodies from schemas and match path templates', async () => {
+      // Arrange
+      const info = await manager.start(specification, { port: 0 });
+
+      // Act
+      const response = await client.get(`${info.url}/users/42`);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.data).toEqual({ user: { id: 0, email: 'user@example.com' } });
+    });
+
+    it('should prefer static paths over templated ones', async () => {
+      // Arrange
+      const info = await manager.start(specification, { port: 0 });
+
+      // Act
+      const response = await client.get(`${info.url}/users/me`);
+
+      // Assert
+      expect(response.data).toEqual({ id: 0, name: 'Me' });
+    });
+
+    it('should return empty bodies for 204 responses', async () => {
+      // Arrange
+      const info = await manager.start(specification, { port: 0 });
+
+      // Act
+      const response = await client.delete(`${info.url}/users/1`);
+
+      // Assert
+      expect(response.status).toBe(204);
+      expect(response.data).toBe('');
+    });
+
+    it('should return 404 and 405 for unknown routes and methods', async () => {
+      // Arrange
+      const info = await manager.start(specification, { port: 0 });
+
+      // Act
+      const notFound = await client.get(`${info.url}/orders`);
+      const notAllowed = await client.post(`${info.url}/users/1`);
+
+      // Assert
+      expect(notFound.status).toBe(404);
+      expect(notAllowed.status).toBe(405);
+      expect(notAllowed.headers['allow']).toBe('GET, DELETE');
+    });
+
+    it('should answer 500 when a response cannot be built', async () => {
+      // Arrange
+      const broken: OpenAPISpecification = {
+        ...specification,
+        endpoints: [
+          {
+            path: '/broken',
+            method: 'GET',
+            parameters: [],
+            responses: [
+              {
+                statusCode: '200',
+                description: 'OK',
+                headers: {
+                  'X-Note': { required: false, schema: { type: 'string', example: 'line\nbreak' } },
+                },
+              },
+            ],
+          },
+        ],
+      };
+      const info = await manager.start(broken, { port: 0 });
+
+      // Act
+      const response = await client.get(`${info.url}/broken`);
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect(response.data.error).toContain('Mock response failed');
+      expect((await client.get(`${info.url}/broken`)).status).toBe(500);
+    });
+
+    it('should honour responseDelay', async () => {
+      // Arrange
+      const info = await manager.start(specification, { port: 0, responseDelay: 100 });
+      const start = Date.now();
+
+      // Act
+      await client.get(`${info.url}/users`);
+
+      // Assert
+      expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+    });
+
+    it('should throw MockServerError when the port is in use', async () => {
+      // Arrange
+      const info = await manager.start(specification, { port: 0 });
+
+      // Act & Assert
+      await expect(manager.start(specification, { port: info.port })).rejects.toThrow(
+        MockServerError
+      );
+    });
+  });
+
+  describe('list and stop', () => {
+    it('should list running servers with request counts', async () => {
+      // Arrange
+      const info = await manager.start(specification, { port: 0 });
+      await client.get(`${info.url}/users`);
+
+      // Act
+      const servers = manager.list();
+
+      // Assert
+      expect(servers).toHaveLength(1);
+      expect(servers[0]).toMatchObject({ id: info.id, title: 'Users API', endpoints: 4 });
+      expect(servers[0].requestCount).toBe(1);
+    });
+
+    it('should stop a server', async () => {
+      // Arrange
+      const info = await manager.start(specification, { port: 0 });
+
+      // Act
+      await manager.stop(info.id);
+
+      // Assert
+      expect(manager.list()).toEqual([]);
+      await expect(client.get(`${info.url}/users`)).rejects.toThrow();
+    });
+
+    it('should throw MockServerError for unknown ids', async () => {
+      await expect(manager.stop('mock-999')).rejects.toThrow(MockServerError);
+    });
+  });
+
+  describe('compilePathTemplate', () => {
+    it('should extract parameter names', () => {
+      const { pattern, paramNames } = compilePathTemplate('/users/{userId}/posts/{postId}');
+
+      expect(paramNames).toEqual(['userId', 'postId']);
+      expect(pattern.test('/users/1/posts/2')).toBe(true);
+      expect(pattern.test('/users/1/posts')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import { diffSpecifications, OpenAPIDiffError } from '../../../src/tools/openapi-diff';
+import { Endpoint, OpenAPISpecification } from '../../../src/tools/openapi-importer';
+
+describe('OpenAPI Diff', () => {
+  const getUser: Endpoint = {
+    path: '/users/{id}',
+    method: 'GET',
+    parameters: [
+      { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+      { name: 'fields', in: 'query', required: false, schema: { type: 'string' } },
+    ],
+    responses: [
+      {
+        statusCode: '200',
+        description: 'OK',
+        content: [{ mimeType: 'application/json', schema: { $ref: '#/components/schemas/User' } }],
+      },
+      { statusCode: '404', description: 'Not found' },
+    ],
+  };
+
+  const createUser: Endpoint = {
+    path: '/users',
+    method: 'POST',
+    parameters: [],
+    requestBody: {
+      required: true,
+      content: [
+        {
+          mimeType: 'application/json',
+          schema: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string', maxLength: 100 },
+              role: { type: 'string', enum: ['admin', 'member', 'guest'] },
+            },
+          },
+        },
+      ],
+    },
+    responses: [{ statusCode: '201', description: 'Created' }],
+  };
+
+  const before: OpenAPISpecification = {
+    info: { title: 'Users', version: '1.0.0' },
+    endpoints: [
+      getUser,
+      createUser,
+      { path: '/health', method: 'GET', parameters: [], responses: [] },
+    ],
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          required: ['id', 'email'],
+          properties: {
+            id: { type: 'integer' },
+            email: { type: 'string' },
+            status: { type: 'string', enum: ['active', 'disabled'] },
+            manager: { $ref: '#/components/schemas/User' },
+          },
+        },
+      },
+    },
+    raw: {},
+  };
+
+  const changesOf = (after: OpenAPISpecification) =>
+    diffSpecifications(before, after).changes.map(
+      (change) => `${change.severity} ${change.type} ${change.endpoint} ${change.location}`
+    );
+
+  it('should report no changes for identical specifications', () => {
+    // Act
+    const diff = diffSpecifications(before, before);
+
+    // Assert
+    expect(diff).toEqual({
+      breaking: false,
+      summary: { breaking: 0, nonBreaking: 0 },
+      changes: [],
+    });
+  });
+
+  it('should report added and removed endpoints, ignoring path parameter names', () => {
+    // Arrange
+    const after: OpenAPISpecification = {
+      ...before,
+      endpoints: [
+        {
+          ...getUser,
+          path: '/users/{userId}',
+          parameters: [{ ...getUser.parameters[0], name: 'userId' }, getUser.parameters[1]],
+        },
+        createUser,
+        { path: '/users', method: 'GET', parameters: [], responses: [] },
+      ],
+    };
+
+    // Act & Assert
+    expect(changesOf(after)).toEqual([
+      'breaking endpoint-removed GET /health endpoint',
+      'non-breaking endpoint-added GET /users endpoint',
+    ]);
+  });
+
+  it('should classify parameter changes', () => {
+    // Arrange
+    const after: OpenAPISpecification = {
+      ...before,
+      endpoints: [
+        {
+          ...getUser,
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'fields', in: 'query', required: true, schema: { type: 'string' } },
+            { name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } },
+          ],
+        },
+        createUser,
+        before.endpoints[2],
+      ],
+    };
+
+    // Act
+    const diff = diffSpecifications(before, after);
+
+    // Assert
+    expect(diff.breaking).toBe(true);
+    expect(diff.changes.map((change) => `${change.type} ${change.location}`)).toEqual([
+      'type-changed request.path.id',
+      'parameter-required-changed request.query.fields',
+      'parameter-added request.header.X-Tenant',
+    ]);
+    expect(diff.changes[0].message).toBe('Type changed from integer to string');
+  });
+
+  it('should flag tightened request schemas and narrowed enums as breaking', () => {
+    // Arrange
+    const after: OpenAPISpecification = {
+      ...before,
+      endpoints: [
+        getUser,
+        {
+          ...createUser,
+          requestBody: {
+            required: true,
+            content: [
+              {
+                mimeType: 'application/json',
+                schema: {
+                  type: 'object',
+                  required: ['name', 'email'],
+                  properties: {
+                    name: { type: 'string', maxLength: 50 },
+                    email: { type: 'string' },
+                    role: { type: 'string', enum: ['admin', 'member', 'owner'] },
+                  },
+                },
+              },
+            ],
+          },
+        },
+        before.endpoints[2],
+      ],
+    };
+
+    // Act
+    const { changes } = diffSpecifications(before, after);
+
+    // Assert
+    expect(changes.map((change) => `${change.severity} ${change.type} ${change.location}`)).toEqual(
+      [
+        'breaking constraint-changed request.body.name',
+        'breaking property-added request.body.email',
+        'breaking enum-changed request.body.role',
+      ]
+    );
+    expect(changes[0].message).toBe('maxLength tightened from 100 to 50');
+    expect(changes[2].message).toBe('Enum changed: removed "guest"; added "owner"');
+  });
+
+  it('should flag removed response fields, widened enums and removed status codes', () => {
+    // Arrange
+    const after: OpenAPISpecification = {
+      ...before,
+      endpoints: [
+        {
+          ...getUser,
+          responses: [
+            {
+              ...getUser.responses[0],
+              content: [
+                ...getUser.responses[0].content!,
+                { mimeType: 'application/xml', schema: { type: 'string' } },
+              ],
+            },
+          ],
+        },
+        createUser,
+        before.endpoints[2],
+      ],
+      components: {
+        schemas: {
+          User: {
+            type: 'object',
+            required: ['id'],
+            properties: {
+              id: { type: 'integer' },
+              email: { type: 'string' },
+              status: { type: 'string', enum: ['active', 'disabled', 'pending'] },
+              manager: { $ref: '#/components/schemas/User' },
+              nickname: { type: 'string' },
+            },
+          },
+        },
+      },
+    };
+
+    // Act & Assert
+    expect(changesOf(after)).toEqual([
+      'breaking status-code-removed GET /users/{id} response.404',
+      'breaking property-required-changed GET /users/{id} response.200.body.email',
+      'breaking enum-changed GET /users/{id} response.200.body.status',
+      'non-breaking property-added GET /users/{id} response.200.body.nickname',
+      'non-breaking media-type-added GET /users/{id} response.200.body',
+    ]);
+  });
+
+  it('should treat loosened requests and narrowed responses as non-breaking', () => {
+    // Arrange
+    const after: OpenAPISpecification = {
+      ...before,
+      endpoints: [
+        { ...getUser, deprecated: true },
+        {
+          ...createUser,
+          requestBody: {
+            required: false,
+            content: [
+              {
+                mimeType: 'application/json',
+                schema: {
+                  type: 'object',
+                  properties: {
+                    name: { type: ['string', 'null'] },
+                    role: { type: 'string', enum: ['admin', 'member', 'guest', 'owner'] },
+                  },
+                },
+              },
+            ],
+          },
+        },
+        before.endpoints[2],
+      ],
+    };
+
+    // Act
+    const diff = diffSpecifications(before, after);
+
+    // Assert
+    expect(diff.breaking).toBe(false);
+    expect(diff.summary).toEqual({ breaking: 0, nonBreaking: 6 });
+  });
+
+  it('should compare boolean exclusive bounds and response constraints', () => {
+    // Arrange
+    const withUser = (id: object, email: object, idParameter: object): OpenAPISpecification => ({
+      ...before,
+      endpoints: [
+        {
+          ...getUser,
+          parameters: [{ ...getUser.parameters[0], schema: idParameter }, getUser.parameters[1]],
+        },
+      ],
+      components: {
+        schemas: {
+          User: { type: 'object', properties: { id, email } },
+        },
+      },
+    });
+    const previous = withUser(
+      { type: 'integer', maximum: 100 },
+      { type: 'string' },
+      { type: 'integer', minimum: 0, exclusiveMinimum: false }
+    );
+    const next = withUser(
+      { type: 'integer', maximum: 1000 },
+      { type: 'string', maxLength: 254 },
+      { type: 'integer', minimum: 0, exclusiveMinimum: true }
+    );
+
+    // Act
+    const { changes } = diffSpecifications(previous, next);
+
+    // Assert
+    expect(
+      changes.map((change) => `${change.severity} ${change.location}: ${change.message}`)
+    ).toEqual([
+      'breaking request.path.id: exclusiveMinimum tightened from false to true',
+      'breaking response.200.body.id: maximum loosened from 100 to 1000',
+      'non-breaking response.200.body.email: maxLength tightened from none to 254',
+    ]);
+  });
+
+  it('should reject objects that are not imported specifications', () => {
+    // Act & Assert
+    expect(() => diffSpecifications(before, { openapi: '3.0.0' } as any)).toThrow(OpenAPIDiffError);
+  });
+});
@@ -1,6 +1,7 @@
 import {
   OpenAPIImporter,
   OpenAPIImportError,
+  resolveServerUrl,
   ValidationError,
 } from '../../../src/tools/openapi-importer';
 import * as fs from 'fs/promises';
@@ -238,6 +239,89 @@ paths:
       expect(result.endpoints[0].parameters[0].in).toBe('query');
     });
 
+    it('should merge path-level parameters, letting the operation override by name and in', async () => {
+      // Arrange
+      const spec = JSON.stringify({
+        openapi: '3.0.3',
+        info: { title: 'API', version: '1.0.0' },
+        paths: {
+          '/users/{id}': {
+            parameters: [
+              { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+              { name: 'X-Trace', in: 'header', schema: { type: 'string' } },
+            ],
+            get: {
+              parameters: [
+                { name: 'X-Trace', in: 'header', required: true, schema: { type: 'string' } },
+              ],
+              responses: { '200': { description: 'OK' } },
+            },
+            trace: { responses: { '200': { description: 'Echo' } } },
+          },
+        },
+      });
+      mockedFs.readFile.mockResolvedValue(spec);
+
+      // Act
+      const result = await importer.importFromFile('/spec.json');
+
+      // Assert
+      const [get, trace] = result.endpoints;
+      expect(get.parameters.map((p) => `${p.in}:${p.name}:${p.required}`)).toEqual([
+        'path:id:true',
+        'header:X-Trace:true',
+      ]);
+      expect(trace.method).toBe('TRACE');
+      expect(trace.parameters.map((p) => p.name)).toEqual(['id', 'X-Trace']);
+    });
+
+    it('should extract serialization, content parameters and examples', async () => {
+      // Arrange
+      const filter = { type: 'object', properties: { status: { type: 'string' } } };
+      const spec = JSON.stringify({
+        openapi: '3.0.3',
+        info: { title: 'API', version: '1.0.0' },
+        paths: {
+          '/orders': {
+            get: {
+              parameters: [
+                {
+                  name: 'ids',
+                  in: 'query',
+                  style: 'pipeDelimited',
+                  explode: false,
+                  allowReserved: true,
+                  schema: { type: 'array', items: { type: 'integer' } },
+                  examples: { pair: { value: [1, 2] } },
+                },
+                {
+                  name: 'filter',
+                  in: 'query',
+                  content: { 'application/json': { schema: filter } },
+                },
+              ],
+              responses: { '200': { description: 'OK' } },
+            },
+          },
+        },
+      });
+      mockedFs.readFile.mockResolvedValue(spec);
+
+      // Act
+      const result = await importer.importFromFile('/spec.json');
+
+      // Assert
+      const [ids, filterParam] = result.endpoints[0].parameters;
+      expect(ids).toMatchObject({
+        style: 'pipeDelimited',
+        explode: false,
+        allowReserved: true,
+        examples: { pair: [1, 2] },
+      });
+      expect(filterParam.schema).toEqual(filter);
+      expect(filterParam.content).toEqual([{ mimeType: 'application/json', schema: filter }]);
+    });
+
     it('should extract request body information', async () => {
       // Arrange
       const spec = JSON.stringify({
@@ -318,5 +402,355 @@ paths:
       expect(endpoint.responses[0].description).toBe('Success');
       expect(endpoint.responses[1].statusCode).toBe('404');
     });
+
+    it('should extract response headers', async () => {
+      // Arrange
+      const spec = JSON.stringify({
+        openapi: '3.0.0',
+        info: { title: 'API', version: '1.0.0' },
+        paths: {
+          '/users': {
+            get: {
+              responses: {
+                '200': {
+                  description: 'Success',
+                  headers: {
+                    'X-Rate-Limit': { required: true, schema: { type: 'integer' } },
+                    'X-Request-Id': { description: 'Request id' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+      mockedFs.readFile.mockResolvedValue(spec);
+
+      // Act
+      const result = await importer.importFromFile('/spec.json');
+
+      // Assert
+      const headers = result.endpoints[0].responses[0].headers!;
+      expect(headers['X-Rate-Limit']).toEqual({
+        required: true,
+        schema: { type: 'integer' },
+        description: undefined,
+      });
+      expect(headers['X-Request-Id'].required).toBe(false);
+      expect(headers['X-Request-Id'].schema.type).toBe('string');
+    });
+  });
+
+  describe('$ref resolution', () => {
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 'API', version: '1.0.0' },
+      paths: {
+        '/users/{id}': {
+          put: {
+            parameters: [
+              { $ref: '#/components/parameters/UserId' },
+              { $ref: 'common.yaml#/parameters/Trace' },
+            ],
+            requestBody: { $ref: '#/components/requestBodies/User' },
+            responses: {
+              '200': { $ref: '#/components/responses/User' },
+            },
+          },
+        },
+      },
+      components: {
+        parameters: {
+          UserId: { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        },
+        requestBodies: {
+          User: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+          },
+        },
+        responses: {
+          User: {
+            description: 'The user',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+          },
+        },
+        schemas: {
+          User: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              manager: { $ref: '#/components/schemas/User' },
+            },
+          },
+        },
+      },
+    };
+    const common = 'parameters:\n  Trace:\n    name: X-Trace\n    in: header\n';
+
+    beforeEach(() => {
+      mockedFs.readFile.mockImplementation(async (file: any) =>
+        String(file).endsWith('common.yaml') ? common : JSON.stringify(spec)
+      );
+    });
+
+    it('should resolve parameter, request body and response references', async () => {
+      // Act
+      const result = await importer.importFromFile('/specs/openapi.json');
+
+      // Assert
+      const endpoint = result.endpoints[0];
+      expect(endpoint.parameters.map((p) => `${p.in}:${p.name}`)).toEqual([
+        'path:id',
+        'header:X-Trace',
+      ]);
+      expect(endpoint.requestBody!.required).toBe(true);
+      expect(endpoint.requestBody!.content[0].schema).toEqual({
+        $ref: '#/components/schemas/User',
+      });
+      expect(endpoint.responses[0].description).toBe('The user');
+      expect(mockedFs.readFile).toHaveBeenCalledWith('/specs/common.yaml', 'utf-8');
+      expect(result.circularRefs).toBeUndefined();
+    });
+
+    it('should dereference schemas on request and keep circular references', async () => {
+      // Act
+      const result = await importer.importFromFile('/specs/openapi.json', { dereference: true });
+
+      // Assert
+      const schema = result.endpoints[0].responses[0].content![0].schema!;
+      expect(schema.properties!.name).toEqual({ type: 'string' });
+      expect(schema.properties!.manager).toEqual({ $ref: '#/components/schemas/User' });
+      expect(result.circularRefs).toEqual(['#/components/schemas/User']);
+      expect(result.raw.paths['/users/{id}'].put.parameters[1].name).toBe('X-Trace');
+    });
+
+    it('should throw OpenAPIImportError for unresolved references', async () => {
+      // Arrange
+      mockedFs.readFile.mockResolvedValue(
+        JSON.stringify({
+          ...spec,
+          paths: { '/a': { get: { parameters: [{ $ref: '#/components/parameters/Nope' }] } } },
+        })
+      );
+
+      // Act & Assert
+      await expect(importer.importFromFile('/specs/openapi.json')).rejects.toThrow(
+        'Unresolved reference: #/components/parameters/Nope'
+      );
+    });
+  });
+  describe('specification metadata', () => {
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 'Shop', version: '2.0.0' },
+      servers: [
+        {
+          url: 'https://{region}.shop.example.com/{version}',
+          description: 'Production',
+          variables: {
+            region: { default: 'eu', enum: ['eu', 'us'] },
+            version: { default: 'v2' },
+          },
+        },
+      ],
+      security: [{ apiKey: [] }],
+      tags: [{ name: 'orders', description: 'Order management' }],
+      externalDocs: { url: 'https://docs.shop.example.com' },
+      paths: {
+        '/orders': {
+          servers: [{ url: 'https://orders.shop.example.com' }],
+          get: {
+            tags: ['orders'],
+            description: 'Lists orders, newest first',
+            deprecated: true,
+            responses: { '200': { description: 'OK' } },
+          },
+          post: {
+            tags: ['orders'],
+            security: [{ oauth: ['orders:write'] }, {}],
+            responses: { '201': { description: 'Created' } },
+          },
+        },
+        '/health': { get: { security: [], responses: { '200': { description: 'OK' } } } },
+      },
+      components: {
+        securitySchemes: {
+          apiKey: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+          oauth: {
+            type: 'oauth2',
+            flows: {
+              clientCredentials: {
+                tokenUrl: 'https://auth.shop.example.com/token',
+                scopes: { 'orders:write': 'Create orders' },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    beforeEach(() => {
+      mockedFs.readFile.mockResolvedValue(JSON.stringify(spec));
+    });
+
+    it('should capture servers, security, tags and external docs', async () => {
+      // Act
+      const result = await importer.importFromFile('/specs/shop.json');
+
+      // Assert
+      expect(result.servers).toEqual([
+        {
+          url: 'https://{region}.shop.example.com/{version}',
+          description: 'Production',
+          variables: {
+            region: { default: 'eu', enum: ['eu', 'us'] },
+            version: { default: 'v2' },
+          },
+        },
+      ]);
+      expect(resolveServerUrl(result.servers![0], { region: 'us' })).toBe(
+        'https://us.shop.example.com/v2'
+      );
+      expect(result.security).toEqual([{ apiKey: [] }]);
+      expect(result.tags).toEqual([{ name: 'orders', description: 'Order management' }]);
+      expect(result.externalDocs).toEqual({ url: 'https://docs.shop.example.com' });
+      expect(result.components!.securitySchemes!.oauth.flows!.clientCredentials.tokenUrl).toBe(
+        'https://auth.shop.example.com/token'
+      );
+    });
+
+    it('should capture operation metadata and the security each operation needs', async () => {
+      // Act
+      const result = await importer.importFromFile('/specs/shop.json');
+
+      // Assert
+      const [list, create, health] = result.endpoints;
+      expect(list).toMatchObject({
+        tags: ['orders'],
+        description: 'Lists orders, newest first',
+        deprecated: true,
+        security: [{ apiKey: [] }],
+        servers: [{ url: 'https://orders.shop.example.com' }],
+      });
+      expect(create.security).toEqual([{ oauth: ['orders:write'] }, {}]);
+      expect(create.deprecated).toBeUndefined();
+      expect(health.security).toEqual([]);
+      expect(health.servers).toBeUndefined();
+    });
+  });
+
+  describe('Swagger 2.0', () => {
+    it('should import Swagger 2.0 documents as OpenAPI 3', async () => {
+      // Arrange
+      mockedFs.readFile.mockResolvedValue(
+        JSON.stringify({
+          swagger: '2.0',
+          info: { title: 'Legacy API', version: '1.0.0' },
+          host: 'api.example.com',
+          basePath: '/v1',
+          paths: {
+            '/users': {
+              post: {
+                parameters: [{ name: 'user', in: 'body', schema: { $ref: '#/definitions/User' } }],
+                responses: {
+                  '201': { description: 'Created', schema: { $ref: '#/definitions/User' } },
+                },
+              },
+            },
+          },
+          definitions: { User: { type: 'object', properties: { name: { type: 'string' } } } },
+        })
+      );
+
+      // Act
+      const result = await importer.importFromFile('/specs/swagger.json');
+
+      // Assert
+      const endpoint = result.endpoints[0];
+      expect(endpoint.method).toBe('POST');
+      expect(endpoint.requestBody!.content[0].mimeType).toBe('application/json');
+      expect(endpoint.requestBody!.content[0].schema).toEqual({
+        $ref: '#/components/schemas/User',
+      });
+      expect(result.components!.schemas!.User.type).toBe('object');
+      expect(result.raw.openapi).toBe('3.0.3');
+      expect(result.raw.servers).toEqual([{ url: 'https://api.example.com/v1' }]);
+    });
+
+    it('should reject unsupported Swagger versions', async () => {
+      // Arrange
+      mockedFs.readFile.mockResolvedValue(
+        JSON.stringify({ swagger: '1.2', info: { title: 'Old', version: '1' }, paths: {} })
+      );
+
+      // Act & Assert
+      await expect(importer.importFromFile('/specs/swagger.json')).rejects.toMatchObject({
+        errors: ['Unsupported Swagger version: 1.2'],
+      });
+    });
+  });
+  describe('OpenAPI 3.1', () => {
+    it('should import webhooks, component path items and the schema dialect', async () => {
+      // Arrange
+      mockedFs.readFile.mockResolvedValue(
+        JSON.stringify({
+          openapi: '3.1.0',
+          info: { title: 'Events', version: '1.0.0' },
+          webhooks: { orderCreated: { $ref: '#/components/pathItems/OrderEvent' } },
+          components: {
+            pathItems: {
+              OrderEvent: {
+                post: {
+                  requestBody: {
+                    content: {
+                      'application/json': { schema: { $ref: '#/components/schemas/Order' } },
+                    },
+                  },
+                  responses: { '200': { description: 'Received' } },
+                },
+              },
+            },
+            schemas: {
+              Order: {
+                type: 'object',
+                properties: {
+                  note: { type: ['string', 'null'] },
+                  line: { $ref: '#/components/schemas/Order/$defs/Line' },
+                },
+                $defs: { Line: { prefixItems: [{ type: 'string' }, { type: 'integer' }] } },
+              },
+            },
+          },
+        })
+      );
+
+      // Act
+      const result = await importer.importFromFile('/specs/events.json');
+
+      // Assert
+      expect(result.openapi).toBe('3.1.0');
+      expect(result.endpoints).toEqual([]);
+      expect(result.webhooks).toHaveLength(1);
+      expect(result.webhooks![0]).toMatchObject({ path: 'orderCreated', method: 'POST' });
+      expect(result.webhooks![0].requestBody!.content[0].schema).toEqual({
+        $ref: '#/components/schemas/Order',
+      });
+      expect(result.components!.pathItems!.OrderEvent).toHaveProperty('post');
+      expect(result.components!.schemas!.Order.properties!.note.type).toEqual(['string', 'null']);
+      expect(result.jsonSchemaDialect).toBe('https://json-schema.org/draft/2020-12/schema');
+    });
+
+    it('should require paths only before 3.1', async () => {
+      // Arrange
+      mockedFs.readFile.mockResolvedValue(
+        JSON.stringify({ openapi: '3.1.0', info: { title: 'Empty', version: '1.0.0' } })
+      );
+
+      // Act & Assert
+      await expect(importer.importFromFile('/specs/empty.json')).rejects.toMatchObject({
+        errors: ['At least one of paths, webhooks or components is required'],
+      });
+    });
   });
 });
@@ -0,0 +1,220 @@
+import { OpenAPILinter } from '../../../src/tools/openapi-linter';
+import { OpenAPIImporter, OpenAPISpecification } from '../../../src/tools/openapi-importer';
+import * as fs from 'fs/promises';
+
+jest.mock('fs/promises');
+
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('OpenAPILinter', () => {
+  let linter: OpenAPILinter;
+
+  beforeEach(() => {
+    linter = new OpenAPILinter();
+  });
+
+  const userSchema = {
+    type: 'object',
+    properties: { id: { type: 'integer' }, displayName: { type: 'string' } },
+    example: { id: 1, displayName: 'Ada' },
+  };
+
+  const clean: OpenAPISpecification = {
+    info: { title: 'Users', version: '1.0.0', description: 'Manages users' },
+    endpoints: [
+      {
+        path: '/users/{id}',
+        method: 'GET',
+        operationId: 'getUser',
+        summary: 'Get a user',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            description: 'User ID',
+            schema: { type: 'integer' },
+          },
+        ],
+        responses: [
+          {
+            statusCode: '200',
+            description: 'OK',
+            content: [
+              { mimeType: 'application/json', schema: { $ref: '#/components/schemas/User' } },
+            ],
+          },
+          { statusCode: '404', description: 'Not found' },
+          { statusCode: '500', description: 'Server error' },
+        ],
+      },
+    ],
+    components: { schemas: { User: userSchema } },
+    raw: {
+      components: { schemas: { User: userSchema } },
+      paths: {
+        '/users/{id}': {
+          get: {
+            responses: {
+              '200': {
+                content: {
+                  'application/json': { schema: { $ref: '#/components/schemas/User' } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  const untidy: OpenAPISpecification = {
+    info: { title: 'Orders', version: '1.0.0' },
+    endpoints: [
+      {
+        path: '/orders/{orderId}',
+        method: 'GET',
+        operationId: 'getOrder',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: [
+          {
+            statusCode: '200',
+            description: 'OK',
+            content: [{ mimeType: 'application/json', schema: { type: 'object' } }],
+          },
+        ],
+      },
+      {
+        path: '/order-items',
+        method: 'POST',
+        operationId: 'getOrder',
+        summary: 'Add an item',
+        parameters: [],
+        responses: [{ statusCode: 'default', description: 'Error' }],
+      },
+      {
+        path: '/line_items',
+        method: 'DELETE',
+        summary: 'Clear items',
+        parameters: [],
+        responses: [{ statusCode: '204', description: 'Deleted' }, { statusCode: '400' } as any],
+      },
+    ],
+    components: {
+      schemas: {
+        Order: { type: 'object', properties: { orderId: {}, createdAt: {}, line_total: {} } },
+      },
+    },
+    raw: { components: { schemas: { Order: { type: 'object' } } }, paths: {} },
+  };
+
+  it('should report no findings for a specification that follows every rule', () => {
+    // Act
+    const result = linter.lint(clean);
+
+    // Assert
+    expect(result.status).toBe('success');
+    expect(result.tool).toBe('lint_openapi');
+    expect(result.data.findings).toEqual([]);
+    expect(result.data.summary).toContain('No lint findings');
+  });
+
+  it('should report each rule with a JSON Pointer to the offending location', () => {
+    // Act
+    const result = linter.lint(untidy, { source: 'orders.yaml' });
+
+    // Assert
+    const findings = result.data.findings.map(
+      (finding) => `${finding.type} ${finding.location.pointer}`
+    );
+    expect(findings).toEqual([
+      'MISSING_OPERATION_ID /paths/~1line_items/delete',
+      'DUPLICATE_OPERATION_ID /paths/~1order-items/post/operationId',
+      'UNDOCUMENTED_ERROR_RESPONSES /paths/~1orders~1{orderId}/get/responses',
+      'UNDOCUMENTED_ERROR_RESPONSES /paths/~1line_items/delete/responses',
+      'UNDECLARED_PATH_PARAMETER /paths/~1orders~1{orderId}/get/parameters',
+      'UNDECLARED_PATH_PARAMETER /paths/~1orders~1{orderId}/get/parameters',
+      'UNUSED_COMPONENT /components/schemas/Order',
+      'MISSING_EXAMPLE /paths/~1orders~1{orderId}/get/responses/200/content/application~1json',
+      'INCONSISTENT_CASING /paths/~1line_items',
+      'INCONSISTENT_CASING /components/schemas/Order/properties/line_total',
+      'MISSING_DESCRIPTION /info',
+      'MISSING_DESCRIPTION /paths/~1orders~1{orderId}/get',
+      'MISSING_DESCRIPTION /paths/~1orders~1{orderId}/get/parameters',
+    ]);
+    expect(result.data.findings[0].location.file).toBe('orders.yaml');
+    expect(result.data.findings[3].message).toBe('DELETE /line_items documents no 5xx responses');
+    expect(result.data.findings[8].message).toBe(
+      "Path segment 'line_items' is snake_case; most are kebab-case"
+    );
+    expect(result.data.metrics.findingsByRule.UNDECLARED_PATH_PARAMETER).toBe(2);
+    expect(result.data.suggestions).toHaveLength(8);
+  });
+
+  it('should apply configured severities, disabled rules and the minimum severity', () => {
+    // Act
+    const result = linter.lint(untidy, {
+      rules: { MISSING_DESCRIPTION: 'high', UNDECLARED_PATH_PARAMETER: 'off' },
+      severity: 'high',
+    });
+
+    // Assert
+    expect(result.data.findings.map((finding) => `${finding.severity} ${finding.type}`)).toEqual([
+      'high DUPLICATE_OPERATION_ID',
+      'high MISSING_DESCRIPTION',
+      'high MISSING_DESCRIPTION',
+      'high MISSING_DESCRIPTION',
+    ]);
+    expect(result.data.summary).toBe('Found 4 lint finding(s): 4 high');
+  });
+
+  it('should find component references in specifications imported with dereference', async () => {
+    // Arrange
+    mockedFs.readFile.mockResolvedValue(
+      JSON.stringify({
+        openapi: '3.0.0',
+        info: { title: 'A', version: '1.0.0' },
+        paths: {
+          '/a': {
+            get: {
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/json': { schema: { $ref: '#/components/schemas/A' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+        components: { schemas: { A: { type: 'object' }, B: { type: 'object' } } },
+      })
+    );
+    const specification = await new OpenAPIImporter().importFromFile('/specs/a.json', {
+      dereference: true,
+    });
+
+    // Act
+    const result = linter.lint(specification, {
+      rules: { UNUSED_COMPONENT: 'high' },
+      severity: 'high',
+    });
+
+    // Assert
+    expect(result.data.findings.map((finding) => finding.message)).toEqual([
+      'Component schemas.B is never referenced',
+    ]);
+  });
+
+  it('should return an error result for invalid input', () => {
+    // Act
+    const badSeverity = linter.lint(clean, { rules: { MISSING_EXAMPLE: 'urgent' as any } });
+    const badSpec = linter.lint({ openapi: '3.0.0' } as any);
+
+    // Assert
+    expect(badSeverity.status).toBe('error');
+    expect(badSeverity.data.summary).toContain("Invalid severity 'urgent'");
+    expect(badSpec.status).toBe('error');
+  });
+});
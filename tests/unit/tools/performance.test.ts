@@ -15,7 +15,7 @@ describe('PerformanceAnalyzer', () => {
 
       expect(result).toBeDefined();
       expect(result.status).toBe('success');
-      expect(result.tool).toBe('analyze_performance');
+      expect(result.tool).toBe('analyze_code_performance');
     });
 
     it('should return proper result structure', async () => {
@@ -0,0 +1,294 @@
+import {
+  PostmanImporter,
+  PostmanImportError,
+  translateTests,
+} from '../../../src/tools/postman-importer';
+import * as fs from 'fs/promises';
+
+jest.mock('fs/promises');
+
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('Postman Importer', () => {
+  let importer: PostmanImporter;
+
+  const collection = {
+    info: {
+      name: 'Pet Store',
+      schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
+    },
+    auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}', type: 'string' }] },
+    variable: [
+      { key: 'baseUrl', value: 'https://petstore.example.com' },
+      { key: 'token', value: 'secret' },
+    ],
+    item: [
+      {
+        name: 'Auth',
+        item: [
+          {
+            name: 'Login',
+            event: [
+              {
+                listen: 'test',
+                script: {
+                  exec: [
+                    'pm.test("Status code is 200", function () {',
+                    '    pm.response.to.have.status(200);',
+                    '});',
+                    'var jsonData = pm.response.json();',
+                    'pm.environment.set("sessionId", jsonData.session.id);',
+                    'pm.expect(jsonData.user["role"]).to.eql("admin");',
+                    'console.log(jsonData);',
+                  ],
+                },
+              },
+            ],
+            request: {
+              method: 'POST',
+              header: [
+                { key: 'Content-Type', value: 'application/json' },
+                { key: 'X-Debug', value: '1', disabled: true },
+              ],
+              body: {
+                mode: 'raw',
+                raw: '{"username": "ada"}',
+                options: { raw: { language: 'json' } },
+              },
+              url: { raw: '{{baseUrl}}/login', host: ['{{baseUrl}}'], path: ['login'] },
+            },
+          },
+        ],
+      },
+      {
+        name: 'Pets',
+        auth: {
+          type: 'apikey',
+          apikey: [
+            { key: 'key', value: 'X-Pet-Key' },
+            { key: 'value', value: '{{petKey}}' },
+            { key: 'in', value: 'header' },
+          ],
+        },
+        variable: [{ key: 'petKey', value: 'pk-1' }],
+        item: [
+          {
+            name: 'Get Pet',
+            request: {
+              method: 'GET',
+              header: [{ key: 'X-Session', value: '{{sessionId}}' }],
+              url: {
+                raw: '{{baseUrl}}/pets/:petId',
+                variable: [{ key: 'petId', value: '7' }],
+              },
+            },
+          },
+          {
+            name: 'Upload Photo',
+            event: [{ listen: 'prerequest', script: { exec: ['pm.variables.set("x", 1);'] } }],
+            request: {
+              method: 'POST',
+              auth: { type: 'digest', digest: [] },
+              body: {
+                mode: 'formdata',
+                formdata: [
+                  { key: 'caption', value: 'cute', type: 'text' },
+                  { key: 'photo', src: '/tmp/cat.png', type: 'file' },
+                ],
+              },
+              url: '{{baseUrl}}/pets/7/photo',
+            },
+          },
+        ],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    importer = new PostmanImporter();
+  });
+
+  describe('import', () => {
+    it('should map items to saved requests with folders, bodies and auth', () => {
+      // Act
+      const result = importer.import(collection);
+
+      // Assert
+      expect(result.collection.name).toBe('pet-store');
+      expect(result.collection.auth).toEqual({
+        type: 'bearer',
+        credentials: { token: '{{token}}' },
+      });
+      expect(result.collection.requests).toEqual([
+        {
+          name: 'Login',
+          folder: 'Auth',
+          method: 'POST',
+          url: '{{baseUrl}}/login',
+          headers: { 'Content-Type': 'application/json' },
+          data: { username: 'ada' },
+        },
+        {
+          name: 'Get Pet',
+          folder: 'Pets',
+          method: 'GET',
+          url: '{{baseUrl}}/pets/7',
+          headers: { 'X-Session': '{{sessionId}}' },
+          auth: {
+            type: 'apiKey',
+            credentials: { name: 'X-Pet-Key', key: '{{petKey}}', in: 'header' },
+          },
+        },
+        {
+          name: 'Upload Photo',
+          folder: 'Pets',
+          method: 'POST',
+          url: '{{baseUrl}}/pets/7/photo',
+          headers: { 'Content-Type': 'multipart/form-data' },
+          data: { caption: 'cute' },
+        },
+      ]);
+    });
+
+    it('should collect collection and folder variables into the environment', () => {
+      // Act
+      const { environment } = importer.import(collection);
+
+      // Assert
+      expect(environment).toEqual({
+        name: 'Pet Store',
+        baseUrl: '',
+        variables: { baseUrl: 'https://petstore.example.com', token: 'secret', petKey: 'pk-1' },
+      });
+    });
+
+    it('should order requests into a workflow with translated tests and captures', () => {
+      // Act
+      const { workflow } = importer.import(collection);
+
+      // Assert
+      expect(workflow.steps.map((step) => [step.id, step.type, step.dependsOn])).toEqual([
+        ['login', 'request', undefined],
+        ['login-tests', 'assertion', ['login']],
+        ['get-pet', 'request', ['login']],
+        ['upload-photo', 'request', ['get-pet']],
+      ]);
+      expect(workflow.steps[0].config.auth).toEqual({
+        type: 'bearer',
+        credentials: { token: '{{token}}' },
+      });
+      expect(workflow.steps[1].config.assertions).toEqual([
+        expect.objectContaining({
+          actual: '{{steps.login.status}}',
+          operator: 'equals',
+          expected: 200,
+        }),
+        expect.objectContaining({
+          actual: '{{steps.login.data.user.role}}',
+          operator: 'equals',
+          expected: 'admin',
+        }),
+      ]);
+      expect(workflow.steps[2].config.headers).toEqual({
+        'X-Session': '{{steps.login.data.session.id}}',
+      });
+    });
+
+    it('should report everything it cannot translate', () => {
+      // Act
+      const { warnings } = importer.import(collection);
+
+      // Assert
+      expect(warnings).toEqual([
+        "Untranslated test script line in request 'Auth/Login': console.log(jsonData);",
+        "Request 'Pets/Upload Photo' uploads files (photo); file fields were dropped",
+        "Unsupported auth type 'digest' on request 'Pets/Upload Photo'",
+        "Pre-request script on request 'Pets/Upload Photo' was not translated",
+      ]);
+    });
+
+    it('should carry a folder that disables auth down to its requests and steps', () => {
+      // Arrange
+      const publicFolder = {
+        ...collection,
+        item: [
+          {
+            name: 'Public',
+            auth: { type: 'noauth' },
+            item: [{ name: 'Health', request: { method: 'GET', url: '{{baseUrl}}/health' } }],
+          },
+        ],
+      };
+
+      // Act
+      const { collection: imported, workflow, warnings } = importer.import(publicFolder);
+
+      // Assert
+      expect(imported.requests[0]).not.toHaveProperty('auth');
+      expect(workflow.steps[0].config).not.toHaveProperty('auth');
+      expect(warnings).toEqual([
+        "Folder 'Public' disables auth, but the collection auth still applies when it is run from the collection",
+      ]);
+    });
+
+    it('should reject documents that are not Postman collections', () => {
+      expect(() => importer.import({ openapi: '3.0.0' })).toThrow(PostmanImportError);
+      expect(() =>
+        importer.import({ info: { name: 'x', schema: 'https://example.com/v1' }, item: [] })
+      ).toThrow('Unsupported Postman collection schema');
+    });
+  });
+
+  describe('importFromFile', () => {
+    it('should read collections from disk', async () => {
+      // Arrange
+      mockedFs.readFile.mockResolvedValue(JSON.stringify(collection));
+
+      // Act
+      const result = await importer.importFromFile('/tmp/petstore.postman_collection.json');
+
+      // Assert
+      expect(result.collection.requests).toHaveLength(3);
+    });
+
+    it('should wrap unreadable files in PostmanImportError', async () => {
+      // Arrange
+      mockedFs.readFile.mockResolvedValue('not json');
+
+      // Act & Assert
+      await expect(importer.importFromFile('/tmp/broken.json')).rejects.toThrow(
+        'Failed to read Postman collection from file: /tmp/broken.json'
+      );
+    });
+  });
+
+  describe('translateTests', () => {
+    it('should translate single-line tests, header checks and comparisons', () => {
+      // Act
+      const result = translateTests(
+        [
+          'pm.test("ok", () => { pm.response.to.be.success; });',
+          "pm.response.to.have.header('Content-Type');",
+          'pm.expect(pm.response.code).to.equal(201);',
+          'pm.expect(pm.response.json().items).to.include(3);',
+          'pm.expect(pm.response.json().count).to.be.above(0);',
+          'pm.collectionVariables.set("etag", pm.response.headers.get("ETag"));',
+        ],
+        'list'
+      );
+
+      // Assert
+      expect(result.untranslated).toEqual([]);
+      expect(result.assertions.map((a) => [a.actual, a.operator, a.expected])).toEqual([
+        ['{{steps.list.status}}', 'greaterThan', 199],
+        ['{{steps.list.status}}', 'lessThan', 300],
+        ['{{steps.list.headers.content-type}}', 'exists', undefined],
+        ['{{steps.list.status}}', 'equals', 201],
+        ['{{steps.list.data.items}}', 'contains', 3],
+        ['{{steps.list.data.count}}', 'greaterThan', 0],
+      ]);
+      expect(result.captures).toEqual({ etag: 'steps.list.headers.etag' });
+    });
+  });
+});
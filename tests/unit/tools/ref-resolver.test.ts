@@ -0,0 +1,162 @@
+import {
+  bundleDocument,
+  dereferenceDocument,
+  isSchemaComponentRef,
+  RefResolutionError,
+  resolvePointer,
+} from '../../../src/tools/ref-resolver';
+
+/** Bundled and dereferenced documents are read by path in the assertions */
+const bundle = (...args: Parameters<typeof bundleDocument>): Promise<any> =>
+  bundleDocument(...args);
+const dereference = (
+  ...args: Parameters<typeof dereferenceDocument>
+): { document: any; circular: string[] } => dereferenceDocument(...args);
+
+describe('Ref Resolver', () => {
+  describe('bundleDocument', () => {
+    it('should inline external files and rewrite references back to the root', async () => {
+      // Arrange
+      const files: Record<string, any> = {
+        '/specs/schemas/pet.yaml': {
+          type: 'object',
+          properties: {
+            tag: { $ref: '#/definitions/Tag' },
+            owner: { $ref: '../openapi.yaml#/components/schemas/User' },
+          },
+          definitions: { Tag: { type: 'string' } },
+        },
+      };
+      const loader = jest.fn(async (uri: string) => files[uri]);
+      const document = {
+        paths: {
+          '/pets': {
+            get: { responses: { '200': { $ref: 'schemas/pet.yaml', description: 'Pet' } } },
+          },
+        },
+        components: { schemas: { User: { type: 'object' } } },
+      };
+
+      // Act
+      const bundled = await bundle(document, '/specs/openapi.yaml', loader);
+
+      // Assert
+      expect(bundled.paths['/pets'].get.responses['200']).toEqual({
+        type: 'object',
+        properties: {
+          tag: { type: 'string' },
+          owner: { $ref: '#/components/schemas/User' },
+        },
+        definitions: { Tag: { type: 'string' } },
+        description: 'Pet',
+      });
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hoist self-referencing external schemas into components', async () => {
+      // Arrange
+      const loader = async () => ({
+        Node: {
+          type: 'object',
+          properties: { children: { type: 'array', items: { $ref: '#/Node' } } },
+        },
+      });
+      const document = {
+        components: {
+          schemas: { Node: { type: 'string' }, Tree: { $ref: 'https://x.io/node.json#/Node' } },
+        },
+      };
+
+      // Act
+      const bundled = await bundle(document, 'https://x.io/openapi.json', loader);
+
+      // Assert
+      expect(bundled.components.schemas.Tree).toEqual({ $ref: '#/components/schemas/Node2' });
+      expect(bundled.components.schemas.Node2.properties.children.items).toEqual({
+        $ref: '#/components/schemas/Node2',
+      });
+    });
+
+    it('should report documents that cannot be loaded', async () => {
+      // Arrange
+      const loader = async () => {
+        throw new Error('ENOENT');
+      };
+
+      // Act & Assert
+      await expect(
+        bundleDocument({ schema: { $ref: 'missing.json' } }, '/specs/openapi.json', loader)
+      ).rejects.toThrow('Failed to load referenced document /specs/missing.json: ENOENT');
+    });
+  });
+
+  describe('dereferenceDocument', () => {
+    const document = {
+      paths: {
+        '/users/{id}': {
+          get: {
+            parameters: [{ $ref: '#/components/parameters/Id' }],
+            responses: { '200': { $ref: '#/components/responses/User' } },
+          },
+        },
+      },
+      components: {
+        parameters: { Id: { name: 'id', in: 'path', required: true } },
+        responses: {
+          User: {
+            description: 'A user',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+          },
+        },
+        schemas: {
+          User: {
+            type: 'object',
+            properties: { manager: { $ref: '#/components/schemas/User' } },
+          },
+        },
+      },
+    };
+
+    it('should inline references and keep circular ones in place', () => {
+      // Act
+      const { document: resolved, circular } = dereference(document);
+
+      // Assert
+      const operation = resolved.paths['/users/{id}'].get;
+      expect(operation.parameters[0]).toEqual({ name: 'id', in: 'path', required: true });
+      const schema = operation.responses['200'].content['application/json'].schema;
+      expect(schema.properties.manager).toEqual({ $ref: '#/components/schemas/User' });
+      expect(circular).toEqual(['#/components/schemas/User']);
+      expect(() => JSON.stringify(resolved)).not.toThrow();
+    });
+
+    it('should leave references selected by keep', () => {
+      // Act
+      const { document: resolved, circular } = dereference(document, isSchemaComponentRef);
+
+      // Assert
+      const response = resolved.paths['/users/{id}'].get.responses['200'];
+      expect(response.content['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/User',
+      });
+      expect(circular).toEqual([]);
+    });
+
+    it('should throw for references to missing targets', () => {
+      // Act & Assert
+      expect(() => dereferenceDocument({ a: { $ref: '#/components/schemas/Missing' } })).toThrow(
+        RefResolutionError
+      );
+    });
+  });
+
+  describe('resolvePointer', () => {
+    it('should unescape JSON Pointer segments', () => {
+      // Arrange
+      const document = { paths: { '/a/{b}': { 'x~y': 1 } } };
+
+      // Act & Assert
+      expect(resolvePointer(document, '/paths/~1a~1%7Bb%7D/x~0y')).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import Ajv from 'ajv';
+import {
+  ResponseValidator,
+  ResponseValidationError,
+  normalizeSchema,
+} from '../../../src/tools/response-validator';
+import { Endpoint } from '../../../src/tools/openapi-importer';
+import { Response } from '../../../src/tools/http-request';
+
+describe('Response Validator', () => {
+  let validator: ResponseValidator;
+
+  const userSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string' },
+      email: { type: 'string', format: 'email' },
+    },
+    required: ['id', 'name'],
+  };
+
+  const endpoint: Endpoint = {
+    path: '/users/{id}',
+    method: 'GET',
+    parameters: [],
+    responses: [
+      {
+        statusCode: '200',
+        description: 'Success',
+        content: [{ mimeType: 'application/json', schema: userSchema }],
+        headers: {
+          'X-Rate-Limit': { required: true, schema: { type: 'integer' } },
+        },
+      },
+      {
+        statusCode: '4XX',
+        description: 'Client error',
+        content: [
+          {
+            mimeType: 'application/json',
+            schema: { type: 'object', required: ['message'] },
+          },
+        ],
+      },
+    ],
+  };
+
+  const makeResponse = (overrides: Partial<Response> = {}): Response => ({
+    data: { id: 1, name: 'Ada', email: 'ada@example.com' },
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: { 'content-type': 'application/json; charset=utf-8', 'x-rate-limit': '100' },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    validator = new ResponseValidator();
+  });
+
+  describe('explicit schema', () => {
+    it('should accept a body matching the schema', () => {
+      // Act
+      const result = validator.validate(makeResponse(), { schema: userSchema });
+
+      // Assert
+      expect(result.valid).toBe(true);
+      expect(result.violations).toEqual([]);
+    });
+
+    it('should report violations with JSON Pointer paths', () => {
+      // Arrange
+      const response = makeResponse({ data: { id: 'abc', email: 'not-an-email' } });
+
+      // Act
+      const result = validator.validate(response, { schema: userSchema });
+
+      // Assert
+      expect(result.valid).toBe(false);
+      expect(result.violations.map((v) => `${v.keyword} ${v.path}`)).toEqual(
+        expect.arrayContaining(['type /body/id', 'required /body/name', 'format /body/email'])
+      );
+      expect(result.violations.every((v) => v.location === 'body')).toBe(true);
+    });
+
+    it('should check the expected status code', () => {
+      // Act
+      const result = validator.validate(makeResponse({ status: 500 }), {
+        schema: userSchema,
+        statusCode: 200,
+      });
+
+      // Assert
+      expect(result.valid).toBe(false);
+      expect(result.violations[0]).toMatchObject({ location: 'status', path: '/status' });
+    });
+
+    it('should resolve component references', () => {
+      // Arrange
+      const components = { schemas: { User: userSchema } };
+      const schema = { type: 'array', items: { $ref: '#/components/schemas/User' } };
+
+      // Act
+      const result = validator.validate(makeResponse({ data: [{ id: 1, name: 'Ada' }, {}] }), {
+        schema,
+        components,
+      });
+
+      // Assert
+      expect(result.valid).toBe(false);
+      expect(result.violations.map((v) => v.path)).toEqual(['/body/1/id', '/body/1/name']);
+    });
+
+    it('should validate against the same $id schema repeatedly', () => {
+      // Arrange
+      const schema = { $id: 'https://example.com/schemas/user', ...userSchema };
+
+      // Act
+      const first = validator.validate(makeResponse(), { schema });
+      const second = validator.validate(makeResponse({ data: { id: 'abc' } }), { schema });
+      const changed = validator.validate(makeResponse(), {
+        schema: { ...schema, required: ['id', 'name', 'role'] },
+      });
+
+      // Assert
+      expect(first.valid).toBe(true);
+      expect(second.violations.map((v) => `${v.keyword} ${v.path}`)).toEqual([
+        'required /body/name',
+        'type /body/id',
+      ]);
+      expect(changed.violations.map((v) => v.path)).toEqual(['/body/role']);
+    });
+
+    it('should compile each schema once per set of components', () => {
+      // Arrange
+      const compile = jest.spyOn(Ajv.prototype, 'compile');
+      const components = { schemas: { User: userSchema } };
+      const schema = { type: 'array', items: { $ref: '#/components/schemas/User' } };
+
+      try {
+        // Act
+        validator.validate(makeResponse({ data: [] }), { schema, components });
+        validator.validate(makeResponse({ data: [] }), { schema, components });
+        validator.validate(makeResponse({ data: [] }), {
+          schema,
+          components: { schemas: { User: userSchema } },
+        });
+
+        // Assert
+        expect(compile).toHaveBeenCalledTimes(2);
+      } finally {
+        compile.mockRestore();
+      }
+    });
+
+    it('should throw ResponseValidationError without a schema or endpoint', () => {
+      expect(() => validator.validate(makeResponse(), {})).toThrow(ResponseValidationError);
+    });
+  });
+
+  describe('endpoint responses', () => {
+    it('should validate against the declared response for the status', () => {
+      // Act
+      const result = validator.validate(makeResponse(), { endpoint });
+
+      // Assert
+      expect(result.valid).toBe(true);
+      expect(result.matchedStatusCode).toBe('200');
+      expect(result.matchedMediaType).toBe('application/json');
+    });
+
+    it('should fall back to status code ranges', () => {
+      // Act
+      const result = validator.validate(makeResponse({ status: 404, data: {} }), { endpoint });
+
+      // Assert
+      expect(result.matchedStatusCode).toBe('4XX');
+      expect(result.violations).toEqual([
+        expect.objectContaining({ keyword: 'required', path: '/body/message' }),
+      ]);
+    });
+
+    it('should report undeclared status codes', () => {
+      // Act
+      const result = validator.validate(makeResponse({ status: 503 }), { endpoint });
+
+      // Assert
+      expect(result.valid).toBe(false);
+      expect(result.violations[0].expected).toEqual(['200', '4XX']);
+    });
+
+    it('should report undeclared content types', () => {
+      // Arrange
+      const response = makeResponse({
+        headers: { 'content-type': 'text/html', 'x-rate-limit': '100' },
+      });
+
+      // Act
+      const result = validator.validate(response, { endpoint });
+
+      // Assert
+      expect(result.violations).toEqual([
+        expect.objectContaining({ location: 'headers', path: '/headers/content-type' }),
+      ]);
+    });
+
+    it('should validate declared headers', () => {
+      // Act
+      const missing = validator.validate(makeResponse({ headers: {} }), { endpoint });
+      const invalid = validator.validate(
+        makeResponse({ headers: { 'content-type': 'application/json', 'X-Rate-Limit': 'many' } }),
+        { endpoint }
+      );
+
+      // Assert
+      expect(missing.violations).toEqual([
+        expect.objectContaining({ keyword: 'required', path: '/headers/x-rate-limit' }),
+      ]);
+      expect(invalid.violations).toEqual([
+        expect.objectContaining({ keyword: 'type', path: '/headers/x-rate-limit' }),
+      ]);
+    });
+  });
+
+  describe('JSON Schema dialects', () => {
+    const tupleSchema = {
+      type: 'object',
+      properties: {
+        point: {
+          type: 'array',
+          prefixItems: [{ type: 'number' }, { type: 'number' }],
+          items: false,
+        },
+        kind: { const: 'point' },
+        label: { type: ['string', 'null'] },
+      },
+    };
+
+    it('should validate 2020-12 keywords when the 3.1 dialect is given', () => {
+      // Arrange
+      const response = makeResponse({ data: { point: [1, 'two', 3], kind: 'line', label: null } });
+
+      // Act
+      const result = validator.validate(response, {
+        schema: tupleSchema,
+        dialect: 'https://spec.openapis.org/oas/3.1/dialect/base',
+      });
+
+      // Assert
+      expect(result.violations.map((v) => `${v.keyword} ${v.path}`)).toEqual([
+        'type /body/point/1',
+        'items /body/point',
+        'const /body/kind',
+      ]);
+    });
+
+    it('should pick the draft from the schema $schema', () => {
+      // Arrange
+      const schema = { $schema: 'https://json-schema.org/draft/2020-12/schema', ...tupleSchema };
+
+      // Act
+      const result = validator.validate(makeResponse({ data: { point: [1, 2] } }), { schema });
+
+      // Assert
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject unknown dialects', () => {
+      expect(() =>
+        validator.validate(makeResponse(), {
+          schema: userSchema,
+          dialect: 'http://json-schema.org/draft-03/schema#',
+        })
+      ).toThrow('Unsupported JSON Schema dialect: http://json-schema.org/draft-03/schema#');
+    });
+  });
+
+  describe('normalizeSchema', () => {
+    it('should convert nullable into a type union', () => {
+      expect(normalizeSchema({ type: 'string', nullable: true, example: 'x' })).toEqual({
+        type: ['string', 'null'],
+      });
+    });
+
+    it('should keep properties named like OpenAPI keywords', () => {
+      const schema = { type: 'object', properties: { example: { type: 'string' } } };
+      expect(normalizeSchema(schema)).toEqual(schema);
+    });
+  });
+});
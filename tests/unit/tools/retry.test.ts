@@ -0,0 +1,61 @@
+import { computeRetryDelay, isRetryable, parseRetryAfter } from '../../../src/tools/retry';
+
+describe('Retry Policy', () => {
+  describe('isRetryable', () => {
+    it('should retry configured statuses and network errors for idempotent methods', () => {
+      expect(isRetryable({}, 'GET', { status: 503 })).toBe(true);
+      expect(isRetryable({}, 'DELETE', { code: 'ECONNRESET' })).toBe(true);
+      expect(isRetryable({}, 'GET', { status: 404 })).toBe(false);
+      expect(isRetryable({}, 'GET', { code: 'ERR_BAD_REQUEST' })).toBe(false);
+      expect(isRetryable({ retryOnStatus: [404] }, 'GET', { status: 404 })).toBe(true);
+    });
+
+    it('should not retry non-idempotent methods unless enabled', () => {
+      expect(isRetryable({}, 'POST', { status: 503 })).toBe(false);
+      expect(isRetryable({ retryNonIdempotent: true }, 'post', { status: 503 })).toBe(true);
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    it('should back off exponentially up to the cap', () => {
+      const policy = { baseDelay: 100, maxDelay: 350, jitter: 0 };
+
+      expect(computeRetryDelay(policy, 1)).toBe(100);
+      expect(computeRetryDelay(policy, 2)).toBe(200);
+      expect(computeRetryDelay(policy, 3)).toBe(350);
+    });
+
+    it('should randomize the jittered share of the delay', () => {
+      const policy = { baseDelay: 1000, jitter: 0.5 };
+
+      expect(computeRetryDelay(policy, 1, undefined, undefined, () => 0)).toBe(1000);
+      expect(computeRetryDelay(policy, 1, undefined, undefined, () => 1)).toBe(500);
+    });
+
+    it('should honour Retry-After on 429 and 503 only', () => {
+      const headers = { 'Retry-After': '2' };
+
+      expect(computeRetryDelay({ jitter: 0 }, 1, 429, headers)).toBe(2000);
+      expect(computeRetryDelay({ jitter: 0 }, 1, 503, headers)).toBe(2000);
+      expect(computeRetryDelay({ jitter: 0 }, 1, 500, headers)).toBe(200);
+    });
+
+    it('should give up when Retry-After exceeds maxRetryAfter', () => {
+      expect(computeRetryDelay({ maxRetryAfter: 1000 }, 1, 503, { 'retry-after': '5' })).toBe(
+        undefined
+      );
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta-seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('3', now)).toBe(3000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { sampleMediaType, sampleSchema } from '../../../src/tools/schema-sampler';
+import { Components } from '../../../src/tools/openapi-importer';
+
+describe('Schema Sampler', () => {
+  describe('sampleSchema', () => {
+    it('should prefer examples, defaults and enums', () => {
+      expect(sampleSchema({ type: 'string', example: 'hello' })).toBe('hello');
+      expect(sampleSchema({ type: 'integer', default: 5 })).toBe(5);
+      expect(sampleSchema({ type: 'string', enum: ['active', 'inactive'] })).toBe('active');
+    });
+
+    it('should build objects and arrays', () => {
+      // Arrange
+      const schema = {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', minimum: 1 },
+          tags: { type: 'array', items: { type: 'string' } },
+          active: { type: 'boolean' },
+        },
+      };
+
+      // Act & Assert
+      expect(sampleSchema(schema)).toEqual({ id: 1, tags: ['string'], active: true });
+    });
+
+    it('should sample OpenAPI 3.1 type arrays, const and prefixItems', () => {
+      expect(sampleSchema({ type: ['null', 'integer'] })).toBe(0);
+      expect(sampleSchema({ type: 'null' })).toBeNull();
+      expect(sampleSchema({ const: 'point' })).toBe('point');
+      expect(sampleSchema({ prefixItems: [{ type: 'number' }, { type: 'string' }] })).toEqual([
+        0,
+        'string',
+      ]);
+    });
+
+    it('should resolve component references and merge allOf', () => {
+      // Arrange
+      const components: Components = {
+        schemas: {
+          Base: { type: 'object', properties: { id: { type: 'string', format: 'uuid' } } },
+        },
+      };
+      const schema = {
+        allOf: [
+          { $ref: '#/components/schemas/Base' },
+          { type: 'object', properties: { name: { type: 'string', minLength: 10 } } },
+        ],
+      };
+
+      // Act & Assert
+      expect(sampleSchema(schema, components)).toEqual({
+        id: '00000000-0000-4000-8000-000000000000',
+        name: 'stringxxxx',
+      });
+    });
+
+    it('should stop at circular references', () => {
+      // Arrange
+      const components: Components = {
+        schemas: {
+          Node: { type: 'object', properties: { next: { $ref: '#/components/schemas/Node' } } },
+        },
+      };
+
+      // Act
+      const sample = sampleSchema({ $ref: '#/components/schemas/Node' }, components);
+
+      // Assert
+      expect(sample).toBeDefined();
+      expect(JSON.stringify(sample).length).toBeLessThan(200);
+    });
+  });
+
+  describe('sampleMediaType', () => {
+    it('should prefer explicit examples over the schema', () => {
+      expect(
+        sampleMediaType({
+          mimeType: 'application/json',
+          example: { a: 1 },
+          schema: { type: 'object' },
+        })
+      ).toEqual({ a: 1 });
+      expect(
+        sampleMediaType({ mimeType: 'application/json', examples: { first: 'x', second: 'y' } })
+      ).toBe('x');
+    });
+  });
+});
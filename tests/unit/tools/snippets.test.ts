@@ -0,0 +1,155 @@
+import { generateSnippet, generateSnippets, SnippetError } from '../../../src/tools/snippets';
+import { RequestConfig } from '../../../src/tools/http-request';
+
+describe('Snippet Generator', () => {
+  const request: RequestConfig = {
+    method: 'POST',
+    url: 'https://api.example.com/users',
+    params: { notify: true },
+    headers: { 'X-Trace': 'abc' },
+    data: { name: 'Alice', tags: ['admin'], active: true, manager: null },
+    auth: { type: 'basic', credentials: { username: 'admin', password: 'secret' } },
+    timeout: 5000,
+  };
+
+  it('should render TypeScript fetch with auth applied as a header', () => {
+    // Act
+    const snippet = generateSnippet(request, 'fetch');
+
+    // Assert
+    expect(snippet).toBe(
+      [
+        "const response = await fetch('https://api.example.com/users?notify=true', {",
+        "  method: 'POST',",
+        '  headers: {',
+        "    'X-Trace': 'abc',",
+        "    Authorization: 'Basic YWRtaW46c2VjcmV0',",
+        "    'Content-Type': 'application/json',",
+        '  },',
+        '  body: JSON.stringify({',
+        "    name: 'Alice',",
+        "    tags: ['admin'],",
+        '    active: true,',
+        '    manager: null,',
+        '  }),',
+        '  signal: AbortSignal.timeout(5000),',
+        '});',
+        '',
+        'console.log(response.status);',
+        'console.log(await response.text());',
+      ].join('\n')
+    );
+  });
+
+  it('should render axios with params, basic auth and data', () => {
+    // Act
+    const snippet = generateSnippet({ ...request, insecure: true }, 'axios');
+
+    // Assert
+    expect(snippet).toContain("import * as https from 'https';");
+    expect(snippet).toContain("url: 'https://api.example.com/users',");
+    expect(snippet).toContain("  params: {\n    notify: 'true',\n  },");
+    expect(snippet).toContain("  auth: {\n    username: 'admin',\n    password: 'secret',\n  },");
+    expect(snippet).toContain('  timeout: 5000,');
+    expect(snippet).toContain('  httpsAgent: new https.Agent({ rejectUnauthorized: false }),');
+  });
+
+  it('should render Python requests with Python literals', () => {
+    // Act
+    const snippet = generateSnippet(request, 'python');
+
+    // Assert
+    expect(snippet).toBe(
+      [
+        'import requests',
+        '',
+        'response = requests.post(',
+        '    "https://api.example.com/users",',
+        '    params={',
+        '        "notify": "true",',
+        '    },',
+        '    headers={',
+        '        "X-Trace": "abc",',
+        '    },',
+        '    auth=("admin", "secret"),',
+        '    json={',
+        '        "name": "Alice",',
+        '        "tags": ["admin"],',
+        '        "active": True,',
+        '        "manager": None,',
+        '    },',
+        '    timeout=5,',
+        ')',
+        '',
+        'print(response.status_code)',
+        'print(response.text)',
+      ].join('\n')
+    );
+  });
+
+  it('should render Go net/http with a client timeout and form bodies', () => {
+    // Act
+    const snippet = generateSnippet(
+      {
+        method: 'POST',
+        url: 'https://api.example.com/login',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        data: { user: 'alice' },
+        timeout: 5000,
+      },
+      'go'
+    );
+
+    // Assert
+    expect(snippet).toContain('\t"net/url"\n\t"strings"\n\t"time"\n)');
+    expect(snippet).toContain('\tform.Set("user", "alice")');
+    expect(snippet).toContain(
+      '\treq, err := http.NewRequest("POST", "https://api.example.com/login", strings.NewReader(form.Encode()))'
+    );
+    expect(snippet).toContain('\t\tTimeout: 5 * time.Second,');
+  });
+
+  it('should render Java HttpClient without restricted headers', () => {
+    // Act
+    const snippet = generateSnippet(
+      { method: 'DELETE', url: 'https://api.example.com/users/1', headers: { Host: 'x', A: 'b' } },
+      'java'
+    );
+
+    // Assert
+    expect(snippet).toContain(
+      [
+        '        HttpRequest request = HttpRequest.newBuilder()',
+        '            .uri(URI.create("https://api.example.com/users/1"))',
+        '            .header("A", "b")',
+        '            .DELETE()',
+        '            .build();',
+      ].join('\n')
+    );
+    expect(snippet).not.toContain('java.time.Duration');
+  });
+
+  it('should render every language and report the ones that cannot represent the body', () => {
+    // Act
+    const { snippets, unsupported } = generateSnippets({
+      method: 'POST',
+      url: 'https://api.example.com/upload',
+      headers: { 'Content-Type': 'multipart/form-data' },
+      data: { title: 'Report' },
+    });
+
+    // Assert
+    expect(Object.keys(snippets)).toEqual(['curl', 'fetch', 'axios', 'python']);
+    expect(snippets.fetch).toContain("form.append('title', 'Report');");
+    expect(snippets.python).toContain('"title": (None, "Report"),');
+    expect(unsupported).toEqual([
+      'Multipart bodies are not supported for go',
+      'Multipart bodies are not supported for java',
+    ]);
+  });
+
+  it('should reject unknown languages', () => {
+    // Act & Assert
+    expect(() => generateSnippet(request, 'ruby' as any)).toThrow(SnippetError);
+  });
+});
@@ -0,0 +1,192 @@
+import { OpenAPIImporter } from '../../../src/tools/openapi-importer';
+import { SpecRegistry, SpecRegistryError } from '../../../src/tools/spec-registry';
+import * as fs from 'fs/promises';
+import axios from 'axios';
+
+jest.mock('fs/promises');
+jest.mock('axios');
+
+const mockedFs = fs as jest.Mocked<typeof fs>;
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('SpecRegistry', () => {
+  let registry: SpecRegistry;
+
+  const document = (version: string) => ({
+    openapi: '3.0.0',
+    info: { title: 'Users', version },
+    paths: { '/users': { get: { responses: { '200': { description: 'OK' } } } } },
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    registry = new SpecRegistry(new OpenAPIImporter());
+  });
+
+  describe('file sources', () => {
+    beforeEach(() => {
+      mockedFs.stat.mockResolvedValue({ mtimeMs: 1000 } as any);
+      mockedFs.readFile.mockResolvedValue(JSON.stringify(document('1.0.0')));
+    });
+
+    it('should register a file and reuse it while its mtime is unchanged', async () => {
+      // Act
+      const imported = await registry.import('/specs/users.json');
+      const again = await registry.import('/specs/users.json');
+      const specification = await registry.resolve(imported.id);
+
+      // Assert
+      expect(imported).toMatchObject({
+        id: 'spec-1',
+        sourceType: 'file',
+        title: 'Users',
+        version: '1.0.0',
+        endpoints: 1,
+        lastCheck: 'imported',
+        modifiedAt: new Date(1000).toISOString(),
+      });
+      expect(again).toMatchObject({ id: 'spec-1', lastCheck: 'unchanged' });
+      expect(specification.endpoints[0].path).toBe('/users');
+      expect(mockedFs.readFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-import a file once its mtime changes', async () => {
+      // Arrange
+      await registry.import('/specs/users.json', { id: 'users' });
+      mockedFs.stat.mockResolvedValue({ mtimeMs: 2000 } as any);
+      mockedFs.readFile.mockResolvedValue(JSON.stringify(document('1.1.0')));
+
+      // Act
+      const specification = await registry.resolve('users');
+
+      // Assert
+      expect(specification.info.version).toBe('1.1.0');
+      expect(registry.list()).toEqual([
+        expect.objectContaining({ id: 'users', version: '1.1.0', lastCheck: 'changed' }),
+      ]);
+    });
+
+    it('should re-import a file when a file it references changes', async () => {
+      // Arrange
+      const mtimes: Record<string, number> = { '/specs/api.json': 1000, '/specs/user.json': 1000 };
+      mockedFs.stat.mockImplementation(async (file) => ({ mtimeMs: mtimes[String(file)] }) as any);
+      mockedFs.readFile.mockImplementation(async (file) =>
+        String(file) === '/specs/api.json'
+          ? JSON.stringify({
+              ...document('1.0.0'),
+              components: { schemas: { User: { $ref: './user.json' } } },
+            })
+          : JSON.stringify({ type: 'object', title: `User ${mtimes['/specs/user.json']}` })
+      );
+      const { id } = await registry.import('/specs/api.json');
+
+      // Act
+      const unchanged = await registry.import('/specs/api.json');
+      mtimes['/specs/user.json'] = 2000;
+      const specification = await registry.resolve(id);
+
+      // Assert
+      expect(unchanged.lastCheck).toBe('unchanged');
+      expect(specification.referencedDocuments).toEqual(['/specs/user.json']);
+      expect(specification.components!.schemas!.User.title).toBe('User 2000');
+      expect(registry.list()[0]).toMatchObject({
+        lastCheck: 'changed',
+        modifiedAt: new Date(1000).toISOString(),
+      });
+    });
+
+    it('should import unregistered paths and keep separate entries per dereference mode', async () => {
+      // Act
+      await registry.resolve('/specs/users.json');
+      await registry.import('/specs/users.json', { dereference: true });
+
+      // Assert
+      expect(registry.list().map((spec) => `${spec.id} ${spec.dereference}`)).toEqual([
+        'spec-1 false',
+        'spec-2 true',
+      ]);
+    });
+  });
+
+  describe('URL sources', () => {
+    const url = 'https://api.example.com/openapi.json';
+
+    beforeEach(() => {
+      mockedAxios.get.mockResolvedValueOnce({
+        status: 200,
+        data: document('1.0.0'),
+        headers: { etag: '"v1"', 'last-modified': 'Mon, 19 Oct 2026 10:00:00 GMT' },
+      });
+    });
+
+    it('should revalidate with the ETag and Last-Modified of the previous response', async () => {
+      // Arrange
+      const { id } = await registry.import(url);
+      mockedAxios.get.mockResolvedValueOnce({ status: 304, data: '', headers: {} });
+
+      // Act
+      const specification = await registry.resolve(id);
+
+      // Assert
+      expect(mockedAxios.get).toHaveBeenLastCalledWith(url, {
+        headers: {
+          'If-None-Match': '"v1"',
+          'If-Modified-Since': 'Mon, 19 Oct 2026 10:00:00 GMT',
+        },
+        validateStatus: expect.any(Function),
+      });
+      expect(specification.info.version).toBe('1.0.0');
+      expect(registry.list()[0]).toMatchObject({ lastCheck: 'unchanged', etag: '"v1"' });
+    });
+
+    it('should replace the specification when the server sends a new version', async () => {
+      // Arrange
+      await registry.import(url);
+      mockedAxios.get.mockResolvedValueOnce({
+        status: 200,
+        data: document('2.0.0'),
+        headers: { etag: '"v2"' },
+      });
+
+      // Act
+      const registered = await registry.import(url);
+
+      // Assert
+      expect(registered).toMatchObject({
+        id: 'spec-1',
+        version: '2.0.0',
+        lastCheck: 'changed',
+        etag: '"v2"',
+        lastModified: undefined,
+      });
+    });
+
+    it('should wrap failed requests in SpecRegistryError', async () => {
+      // Arrange
+      await registry.import(url);
+      mockedAxios.get.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'));
+
+      // Act
+      const error = await registry.resolve('spec-1').catch((caught) => caught);
+
+      // Assert
+      expect(error).toBeInstanceOf(SpecRegistryError);
+      expect(error.message).toBe(`Failed to fetch OpenAPI spec from URL: ${url}`);
+    });
+  });
+
+  it('should remove specifications and reject unknown IDs', async () => {
+    // Arrange
+    mockedFs.stat.mockResolvedValue({ mtimeMs: 1000 } as any);
+    mockedFs.readFile.mockResolvedValue(JSON.stringify(document('1.0.0')));
+    await registry.import('/specs/users.json');
+
+    // Act
+    const removed = registry.remove('spec-1');
+
+    // Assert
+    expect(removed.title).toBe('Users');
+    expect(registry.list()).toEqual([]);
+    expect(() => registry.get('spec-1')).toThrow('Specification not found: spec-1');
+  });
+});
@@ -0,0 +1,211 @@
+import { JsonObject } from '../../../src/tools/helpers';
+import { convertSwagger2, isSwagger2 } from '../../../src/tools/swagger-converter';
+
+/** Converted document, read by path in the assertions */
+const convert = (document: JsonObject): any => convertSwagger2(document);
+
+describe('Swagger Converter', () => {
+  const swagger = {
+    swagger: '2.0',
+    info: { title: 'Pet Store', version: '1.0.0' },
+    host: 'petstore.example.com',
+    basePath: '/v1',
+    schemes: ['https', 'http'],
+    consumes: ['application/json'],
+    produces: ['application/json', 'application/xml'],
+    paths: {
+      '/pets/{petId}': {
+        parameters: [{ $ref: '#/parameters/PetId' }],
+        put: {
+          operationId: 'updatePet',
+          parameters: [
+            { name: 'pet', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+            {
+              name: 'fields',
+              in: 'query',
+              type: 'array',
+              items: { type: 'string' },
+              collectionFormat: 'multi',
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'Updated pet',
+              schema: { $ref: '#/definitions/Pet' },
+              headers: { 'X-Rate-Limit': { type: 'integer', description: 'Calls left' } },
+              examples: { 'application/json': { name: 'Rex' } },
+            },
+            default: { $ref: '#/responses/Error' },
+          },
+        },
+      },
+      '/pets/{petId}/photo': {
+        post: {
+          consumes: ['multipart/form-data'],
+          parameters: [
+            { $ref: '#/parameters/PetId' },
+            { name: 'file', in: 'formData', type: 'file', required: true },
+            { name: 'caption', in: 'formData', type: 'string' },
+          ],
+          responses: { '201': { description: 'Uploaded' } },
+        },
+      },
+    },
+    parameters: {
+      PetId: { name: 'petId', in: 'path', required: true, type: 'integer', format: 'int64' },
+    },
+    responses: {
+      Error: { description: 'Error', schema: { $ref: '#/definitions/Error' } },
+    },
+    definitions: {
+      Pet: {
+        type: 'object',
+        required: ['name'],
+        properties: { name: { type: 'string' }, tag: { type: 'string', 'x-nullable': true } },
+      },
+      Error: { type: 'object', properties: { message: { type: 'string' } } },
+    },
+    securityDefinitions: {
+      basicAuth: { type: 'basic' },
+      oauth: {
+        type: 'oauth2',
+        flow: 'accessCode',
+        authorizationUrl: 'https://auth.example.com/authorize',
+        tokenUrl: 'https://auth.example.com/token',
+        scopes: { 'pets:write': 'Modify pets' },
+      },
+    },
+  };
+
+  it('should detect Swagger documents', () => {
+    // Act & Assert
+    expect(isSwagger2(swagger)).toBe(true);
+    expect(isSwagger2({ openapi: '3.0.3' })).toBe(false);
+  });
+
+  it('should build server URLs from schemes, host and basePath', () => {
+    // Act
+    const converted = convert(swagger);
+
+    // Assert
+    expect(converted.openapi).toBe('3.0.3');
+    expect(converted.servers).toEqual([
+      { url: 'https://petstore.example.com/v1' },
+      { url: 'http://petstore.example.com/v1' },
+    ]);
+    expect(convert({ ...swagger, host: undefined }).servers).toEqual([{ url: '/v1' }]);
+  });
+
+  it('should move definitions, parameters, responses and security definitions into components', () => {
+    // Act
+    const { components } = convert(swagger);
+
+    // Assert
+    expect(components.schemas.Pet.properties.tag).toEqual({ type: 'string', nullable: true });
+    expect(components.parameters.PetId).toEqual({
+      name: 'petId',
+      in: 'path',
+      required: true,
+      schema: { type: 'integer', format: 'int64' },
+    });
+    expect(components.responses.Error.content['application/xml'].schema).toEqual({
+      $ref: '#/components/schemas/Error',
+    });
+    expect(components.securitySchemes.basicAuth).toEqual({ type: 'http', scheme: 'basic' });
+    expect(components.securitySchemes.oauth.flows).toEqual({
+      authorizationCode: {
+        authorizationUrl: 'https://auth.example.com/authorize',
+        tokenUrl: 'https://auth.example.com/token',
+        scopes: { 'pets:write': 'Modify pets' },
+      },
+    });
+  });
+
+  it('should keep empty OAuth2 scopes, which OpenAPI 3 requires', () => {
+    // Arrange
+    const securityDefinitions = {
+      service: { type: 'oauth2', flow: 'application', tokenUrl: 'https://auth.example.com/token' },
+    };
+
+    // Act
+    const { components } = convert({ ...swagger, securityDefinitions });
+
+    // Assert
+    expect(components.securitySchemes.service.flows).toEqual({
+      clientCredentials: { tokenUrl: 'https://auth.example.com/token', scopes: {} },
+    });
+  });
+
+  it('should keep empty security requirements, which opt out of the global scheme', () => {
+    // Arrange
+    const paths = {
+      '/health': { get: { security: [], responses: { '200': { description: 'Healthy' } } } },
+    };
+
+    // Act
+    const withGlobal = convert({ ...swagger, security: [{ basicAuth: [] }], paths });
+    const withoutGlobal = convert({ ...swagger, security: [], paths });
+
+    // Assert
+    expect(withGlobal.security).toEqual([{ basicAuth: [] }]);
+    expect(withGlobal.paths['/health'].get.security).toEqual([]);
+    expect(withoutGlobal.security).toEqual([]);
+  });
+
+  it('should turn body parameters into a request body for each consumed media type', () => {
+    // Act
+    const operation = convert(swagger).paths['/pets/{petId}'].put;
+
+    // Assert
+    expect(operation.requestBody).toEqual({
+      required: true,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+    });
+    expect(operation.parameters).toEqual([
+      {
+        name: 'fields',
+        in: 'query',
+        style: 'form',
+        explode: true,
+        schema: { type: 'array', items: { type: 'string' } },
+      },
+    ]);
+  });
+
+  it('should convert responses using produces, headers and examples', () => {
+    // Act
+    const { responses } = convert(swagger).paths['/pets/{petId}'].put;
+
+    // Assert
+    expect(Object.keys(responses['200'].content)).toEqual(['application/json', 'application/xml']);
+    expect(responses['200'].content['application/json'].example).toEqual({ name: 'Rex' });
+    expect(responses['200'].headers['X-Rate-Limit']).toEqual({
+      description: 'Calls left',
+      schema: { type: 'integer' },
+    });
+    expect(responses.default).toEqual({ $ref: '#/components/responses/Error' });
+  });
+
+  it('should turn formData parameters into a multipart object schema', () => {
+    // Act
+    const operation = convert(swagger).paths['/pets/{petId}/photo'].post;
+
+    // Assert
+    expect(operation.parameters).toEqual([{ $ref: '#/components/parameters/PetId' }]);
+    expect(operation.requestBody).toEqual({
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: {
+              file: { type: 'string', format: 'binary' },
+              caption: { type: 'string' },
+            },
+            required: ['file'],
+          },
+        },
+      },
+    });
+  });
+});
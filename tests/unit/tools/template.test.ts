@@ -0,0 +1,43 @@
+import { findPlaceholders, getPath, interpolate } from '../../../src/tools/template';
+
+describe('Template', () => {
+  const variables: Record<string, any> = { host: 'api.example.com', id: 42, user: { name: 'Ada' } };
+  const resolve = (expression: string) => variables[expression];
+
+  describe('interpolate', () => {
+    it('should replace placeholders inside strings', () => {
+      expect(interpolate('https://{{ host }}/users/{{id}}', resolve)).toBe(
+        'https://api.example.com/users/42'
+      );
+    });
+
+    it('should keep the type of whole-string placeholders', () => {
+      expect(interpolate('{{id}}', resolve)).toBe(42);
+      expect(interpolate({ owner: '{{user}}' }, resolve)).toEqual({ owner: { name: 'Ada' } });
+    });
+
+    it('should recurse into arrays and objects and leave unknown placeholders', () => {
+      expect(interpolate({ list: ['{{host}}', '{{unknown}}'], n: 1 }, resolve)).toEqual({
+        list: ['api.example.com', '{{unknown}}'],
+        n: 1,
+      });
+    });
+  });
+
+  describe('findPlaceholders', () => {
+    it('should list remaining placeholders', () => {
+      expect(findPlaceholders({ url: '{{a}}/{{b}}', headers: { x: '{{c}}' } })).toEqual([
+        'a',
+        'b',
+        'c',
+      ]);
+    });
+  });
+
+  describe('getPath', () => {
+    it('should read dotted paths including array indexes', () => {
+      expect(getPath({ data: { items: [{ id: 1 }] } }, 'data.items.0.id')).toBe(1);
+      expect(getPath({ data: null }, 'data.items')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { TestSuiteGenerator, TestGenerationError } from '../../../src/tools/test-generator';
+import { OpenAPISpecification } from '../../../src/tools/openapi-importer';
+import * as ts from 'typescript';
+
+describe('Test Suite Generator', () => {
+  let generator: TestSuiteGenerator;
+
+  const specification: OpenAPISpecification = {
+    info: { title: 'Pet Store', version: '1.0.0' },
+    endpoints: [
+      {
+        path: '/pets',
+        method: 'GET',
+        parameters: [
+          {
+            name: 'limit',
+            in: 'query',
+            required: true,
+            schema: { type: 'integer', minimum: 1, maximum: 100 },
+          },
+        ],
+        responses: [
+          { statusCode: '200', description: 'OK' },
+          { statusCode: '400', description: 'Bad request' },
+        ],
+      },
+      {
+        path: '/pets/{petId}',
+        method: 'GET',
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: [
+          { statusCode: '200', description: 'OK' },
+          { statusCode: '404', description: 'Not found' },
+        ],
+      },
+      {
+        path: '/pets',
+        method: 'POST',
+        parameters: [],
+        requestBody: {
+          required: true,
+          content: [{ mimeType: 'application/json', schema: { $ref: '#/components/schemas/Pet' } }],
+        },
+        responses: [{ statusCode: '201', description: 'Created' }],
+      },
+    ],
+    components: {
+      schemas: {
+        Pet: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 20 },
+            status: { type: 'string', enum: ['available', 'sold'] },
+          },
+        },
+      },
+    },
+    raw: { servers: [{ url: 'https://petstore.example.com/v1' }] },
+  };
+
+  const transpileErrors = (source: string) =>
+    ts.transpileModule(source, { reportDiagnostics: true }).diagnostics || [];
+
+  beforeEach(() => {
+    generator = new TestSuiteGenerator();
+  });
+
+  describe('generate', () => {
+    it('should emit happy-path tests for basic coverage', () => {
+      // Act
+      const suite = generator.generate(specification, { coverage: 'basic' });
+
+      // Assert
+      expect(suite.framework).toBe('jest');
+      expect(suite.testCount).toBe(3);
+      expect(suite.files).toHaveLength(1);
+      expect(suite.files[0].path).toBe('pet-store.test.ts');
+
+      const content = suite.files[0].content;
+      expect(content).toContain('process.env.API_BASE_URL || "https://petstore.example.com/v1"');
+      expect(content).toContain('describe("GET /pets/{petId}"');
+      expect(content).toContain('url: "/pets/0"');
+      expect(content).toContain('params: {"limit":1}');
+      expect(content).toContain('data: {"name":"string","status":"available"}');
+      expect(content).toContain('expect(response.status).toBe(201);');
+      expect(transpileErrors(content)).toEqual([]);
+    });
+
+    it('should prefer declared parameter examples and expand server variables', () => {
+      // Arrange
+      const [list] = specification.endpoints;
+      const withExamples: OpenAPISpecification = {
+        ...specification,
+        servers: [{ url: 'https://{env}.example.com', variables: { env: { default: 'staging' } } }],
+        endpoints: [
+          {
+            ...list,
+            parameters: [{ ...list.parameters[0], examples: { small: 5, large: 50 } }],
+          },
+        ],
+      };
+
+      // Act
+      const content = generator.generate(withExamples, { coverage: 'basic' }).files[0].content;
+
+      // Assert
+      expect(content).toContain('process.env.API_BASE_URL || "https://staging.example.com"');
+      expect(content).toContain('params: {"limit":5}');
+    });
+
+    it('should add required-parameter and status-code checks for comprehensive coverage', () => {
+      // Act
+      const suite = generator.generate(specification, { coverage: 'comprehensive' });
+      const content = suite.files[0].content;
+
+      // Assert
+      expect(suite.testCount).toBe(6);
+      expect(content).toContain("should reject a request without required query parameter 'limit'");
+      expect(content).toContain('expect(response.status).toBe(400);');
+      expect(content).toContain('should reject a request without the required body');
+      expect(content).toContain('url: "/pets/999999999"');
+    });
+
+    it('should derive boundary and negative cases for exhaustive coverage', () => {
+      // Act
+      const content = generator.generate(specification, { coverage: 'exhaustive' }).files[0]
+        .content;
+
+      // Assert
+      expect(content).toContain("should accept query parameter 'limit' at maximum (100)");
+      expect(content).toContain('params: {"limit":101}');
+      expect(content).toContain("should reject body property 'name' longer than maxLength");
+      expect(content).toContain("should reject body property 'status' outside the enum");
+      expect(content).toContain("should reject a body without required property 'name'");
+      expect(transpileErrors(content)).toEqual([]);
+    });
+
+    it('should respect exclusive bounds and require cookie parameters', () => {
+      // Arrange
+      const spec: OpenAPISpecification = {
+        info: { title: 'Rates', version: '1.0.0' },
+        endpoints: [
+          {
+            path: '/rates',
+            method: 'GET',
+            parameters: [
+              {
+                name: 'ratio',
+                in: 'query',
+                required: true,
+                schema: { type: 'number', minimum: 0, exclusiveMinimum: true, exclusiveMaximum: 1 },
+              },
+              {
+                name: 'session',
+                in: 'cookie',
+                required: true,
+                schema: { type: 'string' },
+                example: 'abc',
+              },
+              {
+                name: 'theme',
+                in: 'cookie',
+                required: true,
+                schema: { type: 'string' },
+                example: 'dark',
+              },
+            ],
+            responses: [{ statusCode: '200', description: 'OK' }],
+          },
+        ],
+        raw: {},
+      };
+
+      // Act
+      const content = generator.generate(spec, { coverage: 'exhaustive' }).files[0].content;
+
+      // Assert
+      expect(content).toContain(
+        "should accept query parameter 'ratio' at just above exclusive minimum (0)"
+      );
+      expect(content).toContain('params: {"ratio":0.01');
+      expect(content).toContain(
+        "should accept query parameter 'ratio' at just below exclusive maximum (1)"
+      );
+      expect(content).toContain("should reject query parameter 'ratio' at exclusive minimum");
+      expect(content).toContain("should reject query parameter 'ratio' at exclusive maximum");
+      expect(content).not.toContain('below minimum');
+      expect(content).toContain('"Cookie":"session=abc; theme=dark"');
+      expect(content).toContain(
+        "should reject a request without required cookie parameter 'session'"
+      );
+      expect(content).toContain('"Cookie":"theme=dark"');
+      expect(transpileErrors(content)).toEqual([]);
+    });
+
+    it('should render framework-specific imports and assertions', () => {
+      // Act
+      const vitest = generator.generate(specification, { framework: 'vitest' }).files[0].content;
+      const [mochaFile] = generator.generate(specification, {
+        framework: 'mocha',
+        coverage: 'exhaustive',
+      }).files;
+      const mocha = mochaFile.content;
+
+      // Assert
+      expect(vitest).toContain("import { describe, it, expect } from 'vitest';");
+      expect(mochaFile.path).toBe('pet-store.test.mjs');
+      expect(mocha).toContain("import assert from 'node:assert/strict';");
+      expect(mocha).toContain('assert.equal(response.status, 200);');
+      expect(mocha).not.toContain('expect(');
+      expect(transpileErrors(mocha)).toEqual([]);
+    });
+
+    it('should honour an explicit base URL', () => {
+      const content = generator.generate(specification, { baseUrl: 'http://localhost:8080' })
+        .files[0].content;
+
+      expect(content).toContain('"http://localhost:8080"');
+    });
+
+    it('should throw TestGenerationError for unsupported frameworks', () => {
+      expect(() => generator.generate(specification, { framework: 'ava' as any })).toThrow(
+        TestGenerationError
+      );
+    });
+  });
+});
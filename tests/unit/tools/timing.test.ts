@@ -0,0 +1,71 @@
+import { executeRequest } from '../../../src/tools/http-request';
+import { RequestTimer } from '../../../src/tools/timing';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+describe('Request Timing', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        res.write('{"echo":');
+        setTimeout(() => res.end(`${JSON.stringify(body)}}`), 20);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should record phase timings, transfer sizes and the remote address', async () => {
+    // Act
+    const response = await executeRequest({
+      method: 'POST',
+      url: `http://localhost:${port}/echo`,
+      data: { hello: 'world' },
+    });
+
+    // Assert
+    const { timing, transfer } = response.metadata!;
+    expect(response.data).toEqual({ echo: '{"hello":"world"}' });
+    expect(timing!.tlsHandshake).toBe(0);
+    expect(timing!.contentTransfer).toBeGreaterThanOrEqual(10);
+    expect(timing!.total).toBeGreaterThanOrEqual(timing!.timeToFirstByte);
+    expect(timing!.timeToFirstByte).toBeGreaterThanOrEqual(timing!.dnsLookup + timing!.tcpConnect);
+    expect(transfer!.requestBytes).toBeGreaterThan('{"hello":"world"}'.length);
+    expect(transfer!.responseBytes).toBeGreaterThan('{"echo":"{\\"hello\\":\\"world\\"}"}'.length);
+    expect(transfer!.remoteAddress).toBe('127.0.0.1');
+    expect(transfer!.remotePort).toBe(port);
+  });
+
+  it('should skip timing when measureTiming is false', async () => {
+    // Act
+    const response = await executeRequest(
+      { method: 'GET', url: `http://127.0.0.1:${port}/` },
+      { measureTiming: false }
+    );
+
+    // Assert
+    expect(response.metadata!.timing).toBeUndefined();
+  });
+
+  it('should report the total when no connection was opened', () => {
+    // Arrange
+    const timer = new RequestTimer();
+
+    // Act
+    const { timing, transfer } = timer.finish();
+
+    // Assert
+    expect(timing.timeToFirstByte).toBe(timing.total);
+    expect(transfer).toEqual({ requestBytes: 0, responseBytes: 0 });
+  });
+});
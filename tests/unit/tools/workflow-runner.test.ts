@@ -0,0 +1,252 @@
+import { WorkflowRunner, WorkflowError } from '../../../src/tools/workflow-runner';
+import { TestWorkflow, WorkflowStep } from '../../../src/types';
+import axios from 'axios';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('Workflow Runner', () => {
+  let runner: WorkflowRunner;
+
+  const workflow = (steps: WorkflowStep[], extra: Partial<TestWorkflow> = {}): TestWorkflow => ({
+    id: 'wf-1',
+    name: 'Smoke test',
+    description: 'Login and fetch profile',
+    steps,
+    ...extra,
+  });
+
+  const ok = (data: any, status = 200) => ({ data, status, statusText: 'OK', headers: {} });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runner = new WorkflowRunner({ maxConcurrentRequests: 2 });
+  });
+
+  describe('run', () => {
+    it('should pass outputs of earlier steps into later ones', async () => {
+      // Arrange
+      mockedAxios.request
+        .mockResolvedValueOnce(ok({ token: 'abc123' }))
+        .mockResolvedValueOnce(ok({ id: 7, name: 'Ada' }));
+
+      const steps: WorkflowStep[] = [
+        {
+          id: 'profile',
+          type: 'request',
+          config: {
+            method: 'GET',
+            url: '/me',
+            headers: { Authorization: 'Bearer {{steps.login.data.token}}' },
+          },
+          dependsOn: ['login'],
+        },
+        {
+          id: 'login',
+          type: 'request',
+          config: { method: 'POST', url: '/login', data: { user: '{{username}}' } },
+        },
+      ];
+
+      // Act
+      const result = await runner.run(
+        workflow(steps, {
+          environment: {
+            name: 'dev',
+            baseUrl: 'https://api.example.com/',
+            variables: { username: 'ada' },
+          },
+        })
+      );
+
+      // Assert
+      expect(result).toMatchObject({ workflowId: 'wf-1', passed: 2, failed: 0, total: 2 });
+      expect(result.steps.map((s) => s.id)).toEqual(['login', 'profile']);
+      expect(mockedAxios.request).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ url: 'https://api.example.com/login', data: { user: 'ada' } })
+      );
+      expect(mockedAxios.request).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ headers: { Authorization: 'Bearer abc123' } })
+      );
+    });
+
+    it('should evaluate validation and assertion steps', async () => {
+      // Arrange
+      mockedAxios.request.mockResolvedValue(ok({ id: 'not-a-number', tags: ['a'] }));
+      const steps: WorkflowStep[] = [
+        { id: 'fetch', type: 'request', config: { method: 'GET', url: 'http://x/items/1' } },
+        {
+          id: 'schema',
+          type: 'validation',
+          config: { schema: { type: 'object', properties: { id: { type: 'integer' } } } },
+          dependsOn: ['fetch'],
+        },
+        {
+          id: 'checks',
+          type: 'assertion',
+          config: {
+            assertions: [
+              { actual: '{{steps.fetch.status}}', operator: 'equals', expected: 200 },
+              { actual: '{{steps.fetch.data.tags}}', operator: 'contains', expected: 'b' },
+            ],
+          },
+          dependsOn: ['fetch'],
+        },
+      ];
+
+      // Act
+      const result = await runner.run(workflow(steps));
+
+      // Assert
+      expect(result).toMatchObject({ passed: 1, failed: 2, skipped: 0 });
+      expect(result.failures!.map((f) => f.testName)).toEqual(['schema', 'checks']);
+      expect(result.failures![0].actual[0]).toMatchObject({ path: '/body/id' });
+      expect(result.failures![1]).toMatchObject({ expected: 'b', actual: ['a'] });
+    });
+
+    it('should skip steps whose dependencies failed', async () => {
+      // Arrange
+      mockedAxios.request.mockRejectedValue(new Error('Request failed with status code 500'));
+      const steps: WorkflowStep[] = [
+        { id: 'a', type: 'request', config: { method: 'GET', url: 'http://x/a' } },
+        { id: 'b', type: 'delay', config: { ms: 1 }, dependsOn: ['a'] },
+        { id: 'c', type: 'delay', config: { ms: 1 }, dependsOn: ['b'] },
+        { id: 'd', type: 'delay', config: { ms: 1 } },
+      ];
+
+      // Act
+      const result = await runner.run(workflow(steps));
+
+      // Assert
+      expect(result).toMatchObject({ passed: 1, failed: 1, skipped: 2, total: 4 });
+      expect(result.failures![0]).toMatchObject({
+        testName: 'a',
+        error: 'Request failed with status code 500',
+      });
+    });
+
+    it('should pass error responses on to assertions instead of failing the request', async () => {
+      // Arrange
+      mockedAxios.request.mockResolvedValue({
+        data: { message: 'Not found' },
+        status: 404,
+        statusText: 'Not Found',
+        headers: {},
+      });
+      const steps: WorkflowStep[] = [
+        { id: 'fetch', type: 'request', config: { method: 'GET', url: 'http://x/items/999' } },
+        {
+          id: 'checks',
+          type: 'assertion',
+          config: {
+            assertions: [{ actual: '{{steps.fetch.status}}', operator: 'equals', expected: 404 }],
+          },
+          dependsOn: ['fetch'],
+        },
+      ];
+
+      // Act
+      const result = await runner.run(workflow(steps));
+
+      // Assert
+      expect(result).toMatchObject({ passed: 2, failed: 0, skipped: 0 });
+      expect(result.steps![0].output).toMatchObject({ ok: false, status: 404 });
+      expect(mockedAxios.request).toHaveBeenCalledWith(
+        expect.objectContaining({ validateStatus: expect.any(Function) })
+      );
+    });
+
+    it('should fail unchecked request steps on statuses outside 2xx or expectStatus', async () => {
+      // Arrange
+      mockedAxios.request.mockResolvedValue({
+        data: { message: 'Server error' },
+        status: 500,
+        statusText: 'Internal Server Error',
+        headers: {},
+      });
+      const steps: WorkflowStep[] = [
+        { id: 'smoke', type: 'request', config: { method: 'GET', url: 'http://x/health' } },
+        {
+          id: 'expected',
+          type: 'request',
+          config: { method: 'GET', url: 'http://x/broken', expectStatus: ['404', '5xx'] },
+        },
+        {
+          id: 'mismatch',
+          type: 'request',
+          config: { method: 'GET', url: 'http://x/broken', expectStatus: 503 },
+        },
+      ];
+
+      // Act
+      const result = await runner.run(workflow(steps));
+
+      // Assert
+      expect(result.steps!.map((step) => step.status)).toEqual(['failed', 'passed', 'failed']);
+      expect(result.failures).toEqual([
+        expect.objectContaining({ testName: 'smoke', error: 'Request failed with status 500' }),
+        expect.objectContaining({
+          testName: 'mismatch',
+          error: 'Expected status 503 but received 500',
+        }),
+      ]);
+    });
+
+    it('should fail request steps with unresolved placeholders', async () => {
+      // Act
+      const result = await runner.run(
+        workflow([{ id: 'a', type: 'request', config: { method: 'GET', url: '{{missing}}/x' } }])
+      );
+
+      // Assert
+      expect(result.failures![0].error).toContain('missing');
+      expect(mockedAxios.request).not.toHaveBeenCalled();
+    });
+
+    it('should run independent steps concurrently up to the limit', async () => {
+      // Arrange
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockedAxios.request.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        inFlight--;
+        return ok({});
+      });
+      const steps: WorkflowStep[] = ['a', 'b', 'c', 'd'].map((id) => ({
+        id,
+        type: 'request',
+        config: { method: 'GET', url: `http://x/${id}` },
+      }));
+
+      // Act
+      const sequential = await runner.run(workflow(steps));
+      const sequentialMax = maxInFlight;
+      maxInFlight = 0;
+      const parallel = await runner.run(workflow(steps), { parallel: true });
+
+      // Assert
+      expect(sequential.passed).toBe(4);
+      expect(parallel.passed).toBe(4);
+      expect(sequentialMax).toBe(1);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should throw WorkflowError for unknown dependencies and cycles', async () => {
+      await expect(
+        runner.run(workflow([{ id: 'a', type: 'delay', config: {}, dependsOn: ['x'] }]))
+      ).rejects.toThrow(WorkflowError);
+      await expect(
+        runner.run(
+          workflow([
+            { id: 'a', type: 'delay', config: {}, dependsOn: ['b'] },
+            { id: 'b', type: 'delay', config: {}, dependsOn: ['a'] },
+          ])
+        )
+      ).rejects.toThrow('Workflow contains a dependency cycle');
+    });
+  });
+});